@@ -1,6 +1,7 @@
 #!/usr/bin/env bun
 
 import { Command } from 'commander';
+import * as path from 'path';
 import {
   analyzeCodebase,
   TaskSolverManager,
@@ -9,34 +10,68 @@ import {
   readConfigWithEnv,
   getGitRemoteUrls,
   CodeCommitter,
-  getYYMMDDHHMMSS,
-  type Task
+  TaskFileFormat,
+  serializeTasks,
+  writeTasksFile,
+  readTasksFile,
+  RunStore,
+  getRunRepositorySettings,
+  RunPhase,
+  getRunsDirectory,
+  readRunIndex,
+  resolveOutputDirectory,
+  ReportFormat,
+  renderReport,
+  getReportFileExtension,
+  parseFailureThreshold,
+  computeExitCode,
+  countFailedTasks,
+  writeJUnitReport,
+  type FailureThreshold,
+  type RunReportData,
+  dryRunRecorder,
+  RepoSource,
+  resolveLocalRepoPath,
+  getBaseRef,
+  prepareLocalClone,
+  getConfigSecrets,
+  redactConfig,
+  secretRedactor,
+  DockerInstance,
+  getContainerRuntime,
+  sweAgentAdapterRegistry,
+  getConfiguredAgentTypes,
+  buildAgentImage,
+  type Task,
+  type TaskResult
 } from '@full-self-coding/core';
-import fs from 'fs';
 
 // Global configuration accessible throughout the application
 export let appConfig: Config;
 
-export async function runFullAnalysis(): Promise<void> {
-  // Load configuration from standard location with environment variable overrides
+/**
+ * Load configuration from a config file, or from the standard location
+ * with environment variable overrides when no file is given
+ * @param configFilePath Optional path to a JSON configuration file
+ * @param overrides Values from command line options, taking precedence over the loaded configuration
+ * @param logConfiguration Whether to print the loaded configuration
+ * @returns The loaded configuration
+ */
+async function loadConfig(
+  configFilePath?: string,
+  overrides: Partial<Config> = {},
+  logConfiguration: boolean = true
+): Promise<Config> {
   let config: Config;
 
-  const configFilePathIndex = process.argv.indexOf('--config');
-  if (configFilePathIndex > -1) {
-    // Support legacy --config argument for backwards compatibility
-    const configFilePath = process.argv[configFilePathIndex + 1];
-    if (configFilePath) {
-      try {
-        const configFileContent = await Bun.file(configFilePath).text();
-        const userConfig = JSON.parse(configFileContent);
-        config = createConfig(userConfig);
-        console.log(`Loaded configuration from ${configFilePath}`);
-      } catch (error) {
-        console.error(`Error loading or parsing config file at ${configFilePath}:`, error);
-        process.exit(1);
-      }
-    } else {
-      console.error('Error: --config argument requires a path to a configuration file.');
+  if (configFilePath) {
+    try {
+      const configFileContent = await Bun.file(configFilePath).text();
+      const userConfig = JSON.parse(configFileContent);
+      config = createConfig(userConfig);
+      console.log(`Loaded configuration from ${configFilePath}`);
+    } catch (error) {
+      console.error(`Error loading or parsing config file at ${configFilePath}:`, error);
       process.exit(1);
     }
   } else {
@@ -50,17 +85,47 @@ export async function runFullAnalysis(): Promise<void> {
     }
   }
 
+  // Apply command line overrides, ignoring options that were not given
+  const definedOverrides: Partial<Config> = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  Object.assign(config, definedOverrides);
+
   // Store configuration globally for later use
   appConfig = config;
 
+  // Mask the API keys and extra secrets in everything the CLI and the agents print
+  secretRedactor.register(getConfigSecrets(config));
+  secretRedactor.installConsoleRedaction();
+
   // Log key configuration details
-  console.log('Configuration loaded:');
-  console.log(JSON.stringify(config, null, 2));
+  if (logConfiguration) {
+    console.log('Configuration loaded:');
+    console.log(JSON.stringify(redactConfig(config), null, 2));
+  }
+
+  return config;
+}
+
+/**
+ * Detect the git remote URL of the current working directory
+ * @param config The loaded configuration
+ * @returns The configured repository URL, or the fetch URL of the configured remote (origin by default). When the
+ * repository is copied from the local checkout, the path of the checkout is used if there is no origin remote.
+ */
+async function detectGitRemoteUrl(config: Config): Promise<string> {
+  if (config.repoUrl) {
+    console.log(`Using repository URL: ${config.repoUrl}`);
+    return config.repoUrl;
+  }
 
   let gitRemoteUrl: string;
   try {
-    const { fetchUrl } = await getGitRemoteUrls(config.useGithubSSH);
+    const { fetchUrl } = await getGitRemoteUrls(config.useGithubSSH, config.gitRemoteName);
     gitRemoteUrl = fetchUrl || ''; // Use fetchUrl, or empty string if not found
+    if (!gitRemoteUrl && config.repoSource === RepoSource.LOCAL) {
+      gitRemoteUrl = resolveLocalRepoPath(config);
+    }
     if (!gitRemoteUrl) {
       throw new Error("Could not determine git remote URL.");
     }
@@ -69,39 +134,474 @@ export async function runFullAnalysis(): Promise<void> {
     console.error("Error getting git remote URL:", error);
     process.exit(1);
   }
+  return gitRemoteUrl;
+}
+
+/**
+ * Options that choose which repository and ref the containers work on, and where the results are committed
+ */
+interface RepoSourceOptions {
+  local?: boolean;
+  localCommit?: string;
+  repo?: string;
+  ref?: string;
+  cloneDir?: string;
+  remote?: string;
+}
+
+/**
+ * Get the configuration overrides of the repository options
+ */
+function getRepoSourceOverrides(options: RepoSourceOptions): Partial<Config> {
+  return {
+    repoSource: options.local || options.localCommit ? RepoSource.LOCAL : undefined,
+    localRepoCommit: options.localCommit,
+    repoUrl: options.repo,
+    gitRef: options.ref,
+    localClonePath: options.cloneDir,
+    gitRemoteName: options.remote,
+  };
+}
+
+/**
+ * Get the local repository the results are committed to. A separate clone is used when
+ * a repository URL or clone path is configured, it is cloned if it does not exist yet.
+ * @param config The loaded configuration
+ * @param gitRemoteUrl The git remote URL the task solvers clone
+ * @param runStore The store of the run
+ * @returns Path of the local repository
+ */
+function prepareCommitRepository(config: Config, gitRemoteUrl: string, runStore: RunStore): string {
+  if (config.localClonePath || config.repoUrl) {
+    const clonePath = config.localClonePath
+      ? path.resolve(config.localClonePath)
+      : path.join(runStore.getRunDirectory(), 'repo');
+    prepareLocalClone(gitRemoteUrl, clonePath, config.gitRef, config.dryRun);
+    console.log(`Committing results in local clone "${clonePath}"`);
+    return clonePath;
+  }
+  if (config.repoSource === RepoSource.LOCAL) {
+    return resolveLocalRepoPath(config);
+  }
+  return '.';
+}
+
+export interface RunOptions extends RepoSourceOptions {
+  outputDir?: string;
+  dryRun?: boolean;
+  reportFormat?: string;
+  junit?: string;
+  failThreshold?: string;
+}
+
+/**
+ * Validate the value of a --report-format option
+ * @param reportFormat The option value
+ * @returns The report format, JSON when the option is not given
+ */
+function parseReportFormat(reportFormat?: string): ReportFormat {
+  if (!reportFormat) {
+    return ReportFormat.JSON;
+  }
+  if (!Object.values(ReportFormat).includes(reportFormat as ReportFormat)) {
+    console.error(`Error: invalid --report-format ${reportFormat}. Must be one of: ${Object.values(ReportFormat).join(', ')}`);
+    process.exit(1);
+  }
+  return reportFormat as ReportFormat;
+}
+
+/**
+ * Validate the value of a --fail-threshold option
+ * @param failThreshold The option value
+ * @returns The failure threshold, or undefined when the option is not given
+ */
+function parseFailThresholdOption(failThreshold?: string): FailureThreshold | undefined {
+  if (failThreshold === undefined) {
+    return undefined;
+  }
+  try {
+    return parseFailureThreshold(failThreshold);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Validate the value of a --limit option
+ * @param limit The option value
+ * @returns The limit, or undefined when the option is not given
+ */
+function parseLimitOption(limit?: string): number | undefined {
+  if (limit === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(limit.trim()) || parseInt(limit, 10) < 1) {
+    console.error(`Error: Invalid limit "${limit}". Use a positive integer, e.g. 10`);
+    process.exit(1);
+  }
+  return parseInt(limit, 10);
+}
+
+/**
+ * Collect the solve and report options shared by the run, solve and resume commands
+ */
+function getSolveAndCommitOptions(options: RunOptions): SolveAndCommitOptions {
+  return {
+    reportFormat: parseReportFormat(options.reportFormat),
+    junitPath: options.junit,
+    failureThreshold: parseFailThresholdOption(options.failThreshold),
+  };
+}
+
+export async function runFullAnalysis(options: RunOptions = {}): Promise<void> {
+  const solveAndCommitOptions = getSolveAndCommitOptions(options);
+
+  // Load configuration from standard location with environment variable overrides
+  let configFilePath: string | undefined;
+
+  const configFilePathIndex = process.argv.indexOf('--config');
+  if (configFilePathIndex > -1) {
+    // Support legacy --config argument for backwards compatibility
+    configFilePath = process.argv[configFilePathIndex + 1];
+    if (!configFilePath) {
+      console.error('Error: --config argument requires a path to a configuration file.');
+      process.exit(1);
+    }
+  }
+
+  const config = await loadConfig(configFilePath, {
+    outputDirectory: options.outputDir,
+    dryRun: options.dryRun,
+    ...getRepoSourceOverrides(options),
+  });
+  const gitRemoteUrl = await detectGitRemoteUrl(config);
+  const runStore = createRunStore(config, gitRemoteUrl);
 
   // Step 1: analyze the codebase and get tasks
   const tasks: Task[] = await analyzeCodebase(config, gitRemoteUrl);
+  runStore.saveTasks(tasks);
+
+  // Steps 2-4: solve the tasks, commit the results and save the final report
+  await solveAndCommitTasks(config, gitRemoteUrl, tasks, runStore, solveAndCommitOptions);
+}
+
+/**
+ * Create the on-disk run directory of a new run
+ * @param config The loaded configuration
+ * @param gitRemoteUrl The git remote URL the task solvers clone
+ * @returns The store of the new run
+ */
+function createRunStore(config: Config, gitRemoteUrl: string): RunStore {
+  const runStore = RunStore.create(gitRemoteUrl, getRunsDirectory(resolveOutputDirectory(config)), getRunRepositorySettings(config));
+  console.log(`Run ${runStore.getRunId()} started, state is saved to "${runStore.getRunDirectory()}"`);
+  console.log(`If the run is interrupted, continue it with: full-self-coding resume ${runStore.getRunId()}`);
+  return runStore;
+}
+
+interface SolveAndCommitOptions {
+  /**
+   * Results of tasks already finished before a resume
+   */
+  previousResults?: TaskResult[];
+
+  /**
+   * Format of the final report; a JSON report is always saved as well
+   */
+  reportFormat?: ReportFormat;
+
+  /**
+   * Path of a JUnit XML file to write the outcome of the run to, for CI test UIs
+   */
+  junitPath?: string;
+
+  /**
+   * Failed tasks allowed before the process exits with a non-zero code; never fails when undefined
+   */
+  failureThreshold?: FailureThreshold;
+}
+
+/**
+ * Solve the given tasks, commit their results and save the final report
+ * @param config The loaded configuration
+ * @param gitRemoteUrl The git remote URL the task solvers clone
+ * @param tasks The tasks to solve
+ * @param runStore The store of the run
+ * @param options Previous results, report format and CI outputs
+ */
+async function solveAndCommitTasks(
+  config: Config,
+  gitRemoteUrl: string,
+  tasks: Task[],
+  runStore: RunStore,
+  options: SolveAndCommitOptions = {}
+): Promise<void> {
+  const { previousResults = [], reportFormat = ReportFormat.JSON, junitPath, failureThreshold } = options;
 
   // Step 2: execute tasks based on analysis
-  const taskSolverManager = new TaskSolverManager(config, gitRemoteUrl);
+  runStore.setPhase(RunPhase.SOLVING);
+  const taskSolverManager = new TaskSolverManager(config, gitRemoteUrl, runStore);
   for (const task of tasks) {
     taskSolverManager.addTask(task);
   }
   await taskSolverManager.start();
 
-  const allTaskReports = taskSolverManager.getReports();
+  const allTaskReports = [...previousResults, ...taskSolverManager.getReports()];
 
   // Step 3: do code commit
-  const codeCommitter = new CodeCommitter(allTaskReports);
-  await codeCommitter.commitAllChanges();
+  runStore.setPhase(RunPhase.COMMITTING);
+  // a run resumed in this phase may have committed some tasks already, do not create their branches again
+  const previousCommitResults = runStore.loadCommitResults();
+  const committedTaskIDs = new Set(previousCommitResults.map(commitResult => commitResult.taskId));
+  if (committedTaskIDs.size > 0) {
+    console.log(`Skipping ${committedTaskIDs.size} task(s) already committed`);
+  }
+  const commitRepositoryPath = prepareCommitRepository(config, gitRemoteUrl, runStore);
+  const codeCommitter = new CodeCommitter(allTaskReports.filter(result => !committedTaskIDs.has(result.ID)), commitRepositoryPath, {
+    dryRun: config.dryRun,
+    baseRef: getBaseRef(config),
+    onTaskCommitted: commitResult => runStore.saveCommitResult(commitResult),
+  });
+  const commitSummary = await codeCommitter.commitAllChanges();
+  const commitResults = [...previousCommitResults, ...commitSummary.results];
+
+  // Step 4: save the final report into the run directory
+  const reportPath = runStore.saveFinalReport(allTaskReports, commitResults);
+  console.log(`Final report saved to "${reportPath}"`);
 
-  // Step 4: save the final report
-  const yymmddhhmmss = getYYMMDDHHMMSS();
+  const reportData: RunReportData = {
+    runId: runStore.getRunId(),
+    gitRemoteUrl,
+    generatedAt: Date.now(),
+    taskResults: allTaskReports,
+    commitResults,
+  };
+  if (reportFormat !== ReportFormat.JSON) {
+    const renderedReport = renderReport(reportData, reportFormat);
+    const renderedReportPath = runStore.saveRenderedReport(renderedReport, getReportFileExtension(reportFormat));
+    console.log(`${reportFormat} report saved to "${renderedReportPath}"`);
+  }
+  if (junitPath) {
+    writeJUnitReport(reportData, junitPath);
+    console.log(`JUnit report saved to "${junitPath}"`);
+  }
 
-  // Save final report to ~/Library/Logs/full-self-coding directory
-  const logDir = process.env.HOME + "/Library/Logs/full-self-coding";
+  runStore.setPhase(RunPhase.COMPLETED);
 
-  // Create the directory if it doesn't exist
-  if (!fs.existsSync(logDir)) {
-    fs.mkdirSync(logDir, { recursive: true });
+  if (config.dryRun) {
+    console.log(`Dry run complete: ${dryRunRecorder.getCommands().length} command(s) recorded, ` +
+      'no containers were started and no branches were touched');
   }
 
-  // Write the final report
-  const reportPath = logDir + "/finalReport_" + yymmddhhmmss + ".txt";
-  fs.writeFileSync(reportPath, JSON.stringify(allTaskReports, null, 2));
+  const exitCode = computeExitCode(allTaskReports, commitResults, failureThreshold);
+  if (exitCode !== 0) {
+    const failedTasks = countFailedTasks(allTaskReports, commitResults);
+    console.error(`${failedTasks} of ${allTaskReports.length} task(s) failed, exceeding the failure threshold`);
+    process.exitCode = exitCode;
+  }
+}
 
-  console.log(`Final report saved to "${reportPath}"`);
+export interface AnalyzeOptions extends RepoSourceOptions {
+  config?: string;
+  output?: string;
+  format?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Run only the codebase analysis and write the discovered tasks to a file
+ * (or stdout), so they can be reviewed, edited and re-prioritized before solving.
+ */
+export async function runAnalyzeOnly(options: AnalyzeOptions): Promise<void> {
+  let format: TaskFileFormat | undefined;
+  if (options.format) {
+    if (!Object.values(TaskFileFormat).includes(options.format as TaskFileFormat)) {
+      console.error(`Error: invalid --format ${options.format}. Must be one of: ${Object.values(TaskFileFormat).join(', ')}`);
+      process.exit(1);
+    }
+    format = options.format as TaskFileFormat;
+  }
+
+  // Redact the console before swapping it, so the restored console.log still masks the secrets
+  secretRedactor.installConsoleRedaction();
+
+  // Keep stdout clean for the task list when no output file is given
+  const writeToStdout = !options.output;
+  const originalConsoleLog = console.log;
+  if (writeToStdout) {
+    console.log = console.error;
+  }
+
+  let config: Config;
+  let tasks: Task[];
+  try {
+    config = await loadConfig(options.config, { dryRun: options.dryRun, ...getRepoSourceOverrides(options) });
+    const gitRemoteUrl = await detectGitRemoteUrl(config);
+    tasks = await analyzeCodebase(config, gitRemoteUrl);
+  } finally {
+    if (writeToStdout) {
+      console.log = originalConsoleLog;
+    }
+  }
+
+  // the analyzer did not run, do not leave its placeholder task where it could be solved
+  if (config.dryRun) {
+    console.error(`Dry run complete: ${dryRunRecorder.getCommands().length} command(s) recorded, no tasks were written`);
+    return;
+  }
+
+  if (options.output) {
+    writeTasksFile(tasks, options.output, format);
+    console.log(`${tasks.length} task(s) written to "${options.output}"`);
+  } else {
+    process.stdout.write(serializeTasks(tasks, format));
+  }
+}
+
+export interface SolveOptions extends RepoSourceOptions {
+  config?: string;
+  tasks: string;
+  outputDir?: string;
+  dryRun?: boolean;
+  reportFormat?: string;
+  junit?: string;
+  failThreshold?: string;
+}
+
+/**
+ * Solve a reviewed or hand-written task file, skipping the analyzer entirely
+ */
+export async function runSolveFromTaskFile(options: SolveOptions): Promise<void> {
+  const solveAndCommitOptions = getSolveAndCommitOptions(options);
+
+  let tasks: Task[];
+  try {
+    tasks = readTasksFile(options.tasks);
+  } catch (error) {
+    console.error(`Error reading task file ${options.tasks}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  console.log(`Loaded ${tasks.length} task(s) from "${options.tasks}"`);
+
+  const config = await loadConfig(options.config, {
+    outputDirectory: options.outputDir,
+    dryRun: options.dryRun,
+    ...getRepoSourceOverrides(options),
+  });
+  const gitRemoteUrl = await detectGitRemoteUrl(config);
+  const runStore = createRunStore(config, gitRemoteUrl);
+  runStore.saveTasks(tasks);
+
+  await solveAndCommitTasks(config, gitRemoteUrl, tasks, runStore, solveAndCommitOptions);
+}
+
+export interface ResumeOptions extends Pick<RepoSourceOptions, 'ref' | 'cloneDir'> {
+  config?: string;
+  outputDir?: string;
+  reportFormat?: string;
+  junit?: string;
+  failThreshold?: string;
+}
+
+/**
+ * Resume an interrupted run: re-queue the tasks that did not finish and commit all results
+ */
+export async function runResume(runId: string, options: ResumeOptions): Promise<void> {
+  const solveAndCommitOptions = getSolveAndCommitOptions(options);
+  const config = await loadConfig(options.config, {
+    outputDirectory: options.outputDir,
+  });
+
+  let runStore: RunStore;
+  try {
+    runStore = RunStore.open(runId, getRunsDirectory(resolveOutputDirectory(config)));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // work on the repository of the run, not the one of the current directory; --ref and --clone-dir still override it
+  const runStatus = runStore.getStatus();
+  const repositoryOverrides: Partial<Config> = Object.fromEntries(
+    Object.entries({ gitRef: options.ref, localClonePath: options.cloneDir }).filter(([, value]) => value !== undefined)
+  );
+  Object.assign(config, runStatus.repository, repositoryOverrides);
+  if (runStatus.phase === RunPhase.COMPLETED) {
+    console.log(`Run ${runId} has already completed, nothing to resume.`);
+    return;
+  }
+  if (runStore.loadTasks().length === 0) {
+    console.error(`Run ${runId} was interrupted before any task was discovered, please start a new run.`);
+    process.exit(1);
+  }
+
+  const pendingTasks = runStore.getPendingTasks();
+  const finishedResults = runStore.getFinishedTaskResults();
+  console.log(`Resuming run ${runId}: ${finishedResults.length} task(s) already finished, ${pendingTasks.length} task(s) re-queued`);
+  runStore.appendLog(`Resuming run with ${pendingTasks.length} pending task(s)`);
+
+  await solveAndCommitTasks(config, runStatus.gitRemoteUrl, pendingTasks, runStore, {
+    ...solveAndCommitOptions,
+    previousResults: finishedResults,
+  });
+}
+
+export interface HistoryOptions {
+  config?: string;
+  outputDir?: string;
+  limit?: string;
+}
+
+/**
+ * List past runs from the run index, most recent first
+ */
+export async function runHistory(options: HistoryOptions): Promise<void> {
+  const limit = parseLimitOption(options.limit);
+  const config = await loadConfig(options.config, { outputDirectory: options.outputDir }, false);
+  const runsDirectory = getRunsDirectory(resolveOutputDirectory(config));
+  const entries = readRunIndex(runsDirectory).slice(0, limit);
+
+  if (entries.length === 0) {
+    console.log(`No runs found in "${runsDirectory}"`);
+    return;
+  }
+
+  for (const entry of entries) {
+    const createdAt = new Date(entry.createdAt).toLocaleString();
+    console.log(`${entry.runId}  ${createdAt}  ${entry.phase.padEnd(10)}  ` +
+      `${entry.successfulTasks} succeeded, ${entry.failedTasks} failed, ${entry.skippedTasks} skipped, ${entry.resourceExhaustedTasks ?? 0} resource exhausted  ${entry.gitRemoteUrl}`);
+    if (entry.reportPath) {
+      console.log(`    report: ${entry.reportPath}`);
+    }
+  }
+}
+
+export interface ImageBuildOptions {
+  config?: string;
+  agent?: string[];
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Build the prebuilt image of each agent, so the containers skip installing the tools and the agent.
+ * The images are tagged with a hash of their Dockerfile and picked up by later runs automatically.
+ */
+export async function runImageBuild(options: ImageBuildOptions): Promise<void> {
+  const config = await loadConfig(options.config, { dryRun: options.dryRun }, false);
+  await sweAgentAdapterRegistry.loadModules(config.agentAdapterModules);
+
+  const agentTypes = options.agent && options.agent.length > 0 ? options.agent : getConfiguredAgentTypes(config);
+  const docker = new DockerInstance({ dryRun: config.dryRun, secrets: getConfigSecrets(config), runtime: getContainerRuntime(config) });
+  for (const agentType of agentTypes) {
+    const adapter = sweAgentAdapterRegistry.get(agentType);
+    const imageTag = await buildAgentImage({ ...config, agentType }, adapter, docker, options.force);
+    console.log(`${agentType}: ${imageTag}`);
+  }
+
+  if (config.dryRun) {
+    console.log(`Dry run complete: ${dryRunRecorder.getCommands().length} command(s) recorded, no images were built`);
+  }
 }
 
 export function createCLI(): Command {
@@ -116,19 +616,143 @@ export function createCLI(): Command {
     .command('run')
     .description('Run the full self-coding analysis and task execution')
     .option('-c, --config <path>', 'Path to configuration file')
+    .option('--dry-run', 'Print the docker and git commands that would be issued, with secrets masked, without executing them')
+    .option('--local', 'Copy the local checkout into the containers instead of cloning the origin remote')
+    .option('--local-commit <commit>', 'Commit, branch or tag of the local checkout to copy (implies --local, default HEAD)')
+    .option('--repo <url>', 'Repository URL to work on instead of the origin remote of the current directory')
+    .option('--ref <ref>', 'Branch, tag or commit to check out after cloning')
+    .option('--remote <name>', 'Git remote of the current directory to work on (default origin)')
+    .option('--clone-dir <path>', 'Local clone to commit the results to, cloned from the repository URL if missing')
+    .option('--output-dir <path>', 'Directory for reports, logs and run state')
+    .option('--report-format <format>', 'Format of the final report (json, markdown or html)', 'json')
+    .option('--junit <path>', 'Write the outcome of the run as JUnit XML, one testcase per task')
+    .option('--fail-threshold <threshold>', 'Exit with code 1 when more tasks fail than this count (e.g. 0) or percentage (e.g. 25%)')
     .action(async (options) => {
       try {
         // If config option is provided, add it to process.argv for the main function to pick up
         if (options.config) {
           process.argv.push('--config', options.config);
         }
-        await runFullAnalysis();
+        await runFullAnalysis({
+          outputDir: options.outputDir,
+          dryRun: options.dryRun,
+          local: options.local,
+          localCommit: options.localCommit,
+          repo: options.repo,
+          ref: options.ref,
+          cloneDir: options.cloneDir,
+          remote: options.remote,
+          reportFormat: options.reportFormat,
+          junit: options.junit,
+          failThreshold: options.failThreshold,
+        });
       } catch (error) {
         console.error('Error running full analysis:', error);
         process.exit(1);
       }
     });
 
+  program
+    .command('analyze')
+    .description('Analyze the codebase and write the discovered tasks to a file without solving them')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('-o, --output <path>', 'Path of the task file to write (.json, .yaml or .yml); prints to stdout if omitted')
+    .option('-f, --format <format>', 'Task file format (json or yaml); derived from the output file extension by default')
+    .option('--dry-run', 'Print the docker and git commands that would be issued, with secrets masked, without executing them')
+    .option('--local', 'Copy the local checkout into the containers instead of cloning the origin remote')
+    .option('--local-commit <commit>', 'Commit, branch or tag of the local checkout to copy (implies --local, default HEAD)')
+    .option('--repo <url>', 'Repository URL to work on instead of the origin remote of the current directory')
+    .option('--ref <ref>', 'Branch, tag or commit to check out after cloning')
+    .option('--remote <name>', 'Git remote of the current directory to work on (default origin)')
+    .action(async (options) => {
+      try {
+        await runAnalyzeOnly(options);
+      } catch (error) {
+        console.error('Error running analysis:', error);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('solve')
+    .description('Solve the tasks of a reviewed task file and commit the results, without running the analyzer')
+    .requiredOption('-t, --tasks <path>', 'Path of the task file to solve (.json, .yaml or .yml)')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--dry-run', 'Print the docker and git commands that would be issued, with secrets masked, without executing them')
+    .option('--local', 'Copy the local checkout into the containers instead of cloning the origin remote')
+    .option('--local-commit <commit>', 'Commit, branch or tag of the local checkout to copy (implies --local, default HEAD)')
+    .option('--repo <url>', 'Repository URL to work on instead of the origin remote of the current directory')
+    .option('--ref <ref>', 'Branch, tag or commit to check out after cloning')
+    .option('--remote <name>', 'Git remote of the current directory to work on (default origin)')
+    .option('--clone-dir <path>', 'Local clone to commit the results to, cloned from the repository URL if missing')
+    .option('--output-dir <path>', 'Directory for reports, logs and run state')
+    .option('--report-format <format>', 'Format of the final report (json, markdown or html)', 'json')
+    .option('--junit <path>', 'Write the outcome of the run as JUnit XML, one testcase per task')
+    .option('--fail-threshold <threshold>', 'Exit with code 1 when more tasks fail than this count (e.g. 0) or percentage (e.g. 25%)')
+    .action(async (options) => {
+      try {
+        await runSolveFromTaskFile(options);
+      } catch (error) {
+        console.error('Error solving tasks:', error);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('resume')
+    .description('Resume an interrupted run, solving only the tasks that did not finish')
+    .argument('<runId>', 'ID of the run to resume')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--output-dir <path>', 'Directory for reports, logs and run state')
+    .option('--ref <ref>', 'Branch, tag or commit the interrupted run checked out')
+    .option('--clone-dir <path>', 'Local clone to commit the results to, cloned from the repository URL if missing')
+    .option('--report-format <format>', 'Format of the final report (json, markdown or html)', 'json')
+    .option('--junit <path>', 'Write the outcome of the run as JUnit XML, one testcase per task')
+    .option('--fail-threshold <threshold>', 'Exit with code 1 when more tasks fail than this count (e.g. 0) or percentage (e.g. 25%)')
+    .action(async (runId, options) => {
+      try {
+        await runResume(runId, options);
+      } catch (error) {
+        console.error('Error resuming run:', error);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('history')
+    .description('List past runs with their status and report location')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('--output-dir <path>', 'Directory for reports, logs and run state')
+    .option('-n, --limit <number>', 'Maximum number of runs to list')
+    .action(async (options) => {
+      try {
+        await runHistory(options);
+      } catch (error) {
+        console.error('Error listing run history:', error);
+        process.exit(1);
+      }
+    });
+
+  const image = program
+    .command('image')
+    .description('Manage the prebuilt agent images');
+
+  image
+    .command('build')
+    .description('Build an image per agent type with the tools and the agent CLI installed, reused by later runs')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .option('-a, --agent <types...>', 'Agent types to build images for (default: every agent type of the configuration)')
+    .option('--force', 'Rebuild the images even if they are up to date')
+    .option('--dry-run', 'Print the docker commands that would be issued without building anything')
+    .action(async (options) => {
+      try {
+        await runImageBuild(options);
+      } catch (error) {
+        console.error('Error building agent images:', error);
+        process.exit(1);
+      }
+    });
+
   // Default action - run full analysis if no command is provided
   program.action(async () => {
     try {
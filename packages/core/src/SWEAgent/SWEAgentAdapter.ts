@@ -0,0 +1,106 @@
+import type { Config } from "../config";
+
+/**
+ * Path of the analyzer prompt inside the container
+ */
+export const ANALYZER_PROMPT_PATH = '/app/codeAnalyzerPrompt.txt';
+
+/**
+ * Path of the task solver prompt inside the container
+ */
+export const TASK_SOLVER_PROMPT_PATH = '/app/taskSolverPrompt.txt';
+
+/**
+ * Where an agent leaves its results inside the container
+ */
+export interface SWEAgentOutputPaths {
+    /**
+     * JSON array of tasks written by the analyzer
+     */
+    tasks: string;
+
+    /**
+     * JSON report written by the task solver
+     */
+    finalReport: string;
+}
+
+/**
+ * The output locations the analyzer and task solver prompts ask every agent to use
+ */
+export const DEFAULT_AGENT_OUTPUT_PATHS: SWEAgentOutputPaths = {
+    tasks: '/app/tasks.json',
+    finalReport: '/app/finalReport.json',
+};
+
+/**
+ * Everything needed to drive a software engineering agent CLI inside a container.
+ * The built-in agents are adapters too; more can be registered with the
+ * sweAgentAdapterRegistry or loaded from the modules listed in config.agentAdapterModules.
+ */
+export interface SWEAgentAdapter {
+    /**
+     * The value of config.agentType that selects this adapter, e.g. "claude-code"
+     */
+    agentType: string;
+
+    /**
+     * Commands that install the agent CLI. They run after the repository is cloned
+     * and nodejs and npm are installed.
+     * @param config The configuration object
+     */
+    getInstallCommands(config: Config): string[];
+
+    /**
+     * Command that runs the analyzer. The agent reads ANALYZER_PROMPT_PATH
+     * and writes the tasks to the tasks output path.
+     * @param config The configuration object
+     */
+    getAnalyzerCommand(config: Config): string;
+
+    /**
+     * Command that solves a task. The agent reads TASK_SOLVER_PROMPT_PATH
+     * and writes its report to the final report output path.
+     * @param config The configuration object
+     */
+    getSolverCommand(config: Config): string;
+
+    /**
+     * Environment variables the agent needs in its container, usually its API keys.
+     * They are passed to `docker run` by name, so the commands of the agent only
+     * reference the variables and never contain their values.
+     * @param config The configuration object
+     */
+    getEnvironment?(config: Config): Record<string, string>;
+
+    /**
+     * Hosts the agent needs under the allow-list network policy: its API and the hosts
+     * its install commands download from. "*.example.com" allows every subdomain.
+     * @param config The configuration object
+     */
+    getNetworkHosts?(config: Config): string[];
+
+    /**
+     * Where the agent leaves its results, DEFAULT_AGENT_OUTPUT_PATHS for the fields that are not set
+     */
+    outputPaths?: Partial<SWEAgentOutputPaths>;
+}
+
+/**
+ * Get the output locations of an adapter, with the defaults applied
+ * @param adapter The agent adapter
+ * @returns The output paths inside the container
+ */
+export function getAgentOutputPaths(adapter: SWEAgentAdapter): SWEAgentOutputPaths {
+    return { ...DEFAULT_AGENT_OUTPUT_PATHS, ...adapter.outputPaths };
+}
+
+/**
+ * Get the environment variables of the container an adapter runs in
+ * @param adapter The agent adapter
+ * @param config The configuration object, with the agentType of the adapter
+ * @returns The environment variables, empty if the adapter needs none
+ */
+export function getAgentEnvironment(adapter: SWEAgentAdapter, config: Config): Record<string, string> {
+    return adapter.getEnvironment ? adapter.getEnvironment(config) : {};
+}
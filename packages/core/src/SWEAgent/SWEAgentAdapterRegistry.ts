@@ -0,0 +1,130 @@
+import * as path from 'path';
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { claudeCodeAdapter } from "./claudeCodeCommands";
+import { geminiCliAdapter } from "./geminiCodeCommands";
+import { codexAdapter } from "./codexCommands";
+import { cursorAdapter } from "./cursorCommands";
+import { aiderAdapter } from "./aiderCommands";
+import { customAgentAdapter } from "./customAgentCommands";
+
+/**
+ * The adapters of the agents that ship with full-self-coding
+ */
+export const BUILT_IN_AGENT_ADAPTERS: SWEAgentAdapter[] = [
+    claudeCodeAdapter,
+    geminiCliAdapter,
+    codexAdapter,
+    cursorAdapter,
+    aiderAdapter,
+    customAgentAdapter,
+];
+
+/**
+ * Check that a value has the shape of an SWEAgentAdapter
+ * @throws Error naming the first missing or invalid member
+ */
+function validateAdapter(adapter: unknown): asserts adapter is SWEAgentAdapter {
+    if (!adapter || typeof adapter !== 'object') {
+        throw new Error('Invalid SWE agent adapter: adapter must be an object');
+    }
+    const members = adapter as Record<string, unknown>;
+    if (typeof members.agentType !== 'string' || members.agentType.trim() === '') {
+        throw new Error('Invalid SWE agent adapter: agentType must be a non-empty string');
+    }
+    for (const method of ['getInstallCommands', 'getAnalyzerCommand', 'getSolverCommand']) {
+        if (typeof members[method] !== 'function') {
+            throw new Error(`Invalid SWE agent adapter: ${method} of agent ${members.agentType} must be a function`);
+        }
+    }
+}
+
+/**
+ * SWEAgentAdapterRegistry maps agent types to the adapters that drive them
+ */
+export class SWEAgentAdapterRegistry {
+    private adapters = new Map<string, SWEAgentAdapter>();
+    private loadedModules = new Set<string>();
+
+    constructor(adapters: SWEAgentAdapter[] = BUILT_IN_AGENT_ADAPTERS) {
+        for (const adapter of adapters) {
+            this.register(adapter);
+        }
+    }
+
+    /**
+     * Register an adapter. An adapter registered for an existing agent type replaces it.
+     * @param adapter The agent adapter
+     * @throws Error if the adapter is invalid
+     */
+    register(adapter: SWEAgentAdapter): void {
+        validateAdapter(adapter);
+        this.adapters.set(adapter.agentType, adapter);
+    }
+
+    /**
+     * Whether an adapter is registered for the agent type
+     */
+    has(agentType: string): boolean {
+        return this.adapters.has(agentType);
+    }
+
+    /**
+     * Get the adapter of an agent type
+     * @param agentType The agent type, e.g. config.agentType
+     * @returns The registered adapter
+     * @throws Error if no adapter is registered for the agent type
+     */
+    get(agentType: string): SWEAgentAdapter {
+        const adapter = this.adapters.get(agentType);
+        if (!adapter) {
+            throw new Error(`Unsupported agent type: ${agentType}. Registered agent types: ${this.getAgentTypes().join(', ')}`);
+        }
+        return adapter;
+    }
+
+    /**
+     * Get the agent types of all registered adapters, in registration order
+     */
+    getAgentTypes(): string[] {
+        return [...this.adapters.keys()];
+    }
+
+    /**
+     * Load and register the adapters exported by modules. A module exports a single adapter
+     * or an array of adapters, as its default export or as "adapters". Each module is loaded once.
+     * @param modulePaths Paths of the modules, relative paths are resolved against the current working directory
+     * @throws Error if a module cannot be loaded or exports no valid adapter
+     */
+    async loadModules(modulePaths: string[] = []): Promise<void> {
+        for (const modulePath of modulePaths) {
+            const resolvedPath = path.resolve(modulePath);
+            if (this.loadedModules.has(resolvedPath)) {
+                continue;
+            }
+
+            let loadedModule: Record<string, unknown>;
+            try {
+                loadedModule = await import(resolvedPath);
+            } catch (error) {
+                throw new Error(`Failed to load agent adapter module ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const exported = loadedModule.adapters ?? loadedModule.default;
+            const adapters: unknown[] = Array.isArray(exported) ? exported : [exported];
+            if (exported === undefined || adapters.length === 0) {
+                throw new Error(`Agent adapter module ${modulePath} exports no adapter`);
+            }
+            for (const adapter of adapters) {
+                validateAdapter(adapter);
+                this.register(adapter);
+                console.log(`Registered agent adapter ${adapter.agentType} from ${modulePath}`);
+            }
+            this.loadedModules.add(resolvedPath);
+        }
+    }
+}
+
+/**
+ * The registry used by the analyzer and the task solvers
+ */
+export const sweAgentAdapterRegistry = new SWEAgentAdapterRegistry();
@@ -1,50 +1,21 @@
-import { SWEAgentType } from "../config";
 import type { Config } from "../config";
 import type {Task} from "../task";
-import {diffNodejsSourceCode} from "../prompts/diff_nodejs";
-import {getClaudeCommand} from "./claudeCodeCommands";
-import { CursorInstallationWrapper } from "./cursorCommands";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { sweAgentAdapterRegistry } from "./SWEAgentAdapterRegistry";
+import { getRepoCloneCommands } from "../repoSource";
+import { getBaseToolCommands, getDiffToolCommands } from "../agentImage";
 
-const diffjsPrompt = diffNodejsSourceCode;
-
-function environmentSetup(config: Config, gitRemoteUrl: string, task: Task, bInstallAgent: boolean = true): string[] {
+function environmentSetup(config: Config, gitRemoteUrl: string, adapter: SWEAgentAdapter, bInstallAgent: boolean = true, bPrebuiltImage: boolean = false): string[] {
   let setupCommands = [
-    `git clone ${gitRemoteUrl} /app/repo`,
-    "apt-get update",
-    "apt-get install -y curl",
-    "curl -fsSL https://deb.nodesource.com/setup_20.x | bash -",
-    "apt-get install -y nodejs",
-    "mkdir /app/diff && cd /app/diff && npm install simple-git",
-    
-    // save diffjsPrompt into /app/diff/run.js
-    `echo "${diffjsPrompt}" > /app/diff/run.js`,
+    ...getRepoCloneCommands(config, gitRemoteUrl),
   ];
 
-  if (bInstallAgent) {
-    switch (config.agentType) {
-      case SWEAgentType.GEMINI_CLI:
-        setupCommands.push(
-          "npm install -g @google/gemini-cli",
-        );
-        break;
-      case SWEAgentType.CLAUDE_CODE:
-        setupCommands.push(
-          "npm install -g @anthropic-ai/claude-code",
-        );
-        break;
-      case SWEAgentType.CODEX:
-        setupCommands.push(
-          "npm install -g @openai/codex",
-        );
-        break;
-      case SWEAgentType.CURSOR:
-        setupCommands.push(
-          ...CursorInstallationWrapper(),
-        );
-        break;
-      default:
-        throw new Error(`Unsupported agent type: ${config.agentType}`);
-   }
+  // the prebuilt agent image already has the tools and the agent, see renderAgentDockerfile
+  if (!bPrebuiltImage) {
+    setupCommands.push(...getBaseToolCommands(), ...getDiffToolCommands());
+    if (bInstallAgent) {
+      setupCommands.push(...adapter.getInstallCommands(config));
+    }
   }
   setupCommands.push("mkdir /app/repo/fsc");
   // setupCommands.push(
@@ -53,53 +24,38 @@ function environmentSetup(config: Config, gitRemoteUrl: string, task: Task, bIns
   return setupCommands;
 }
 
+/**
+ * The commands that prepare a task solver container: clone the repository,
+ * install the tools and the agent, unless the image already has them
+ * @param agentType The agent that solves the tasks
+ * @param config The configuration object
+ * @param gitRemoteUrl The URL the container clones the repository from
+ * @param prebuiltImage Whether the container runs the prebuilt image of the agent
+ */
+export function taskSolverSetupCommands(
+  agentType: string,
+  config: Config,
+  gitRemoteUrl: string,
+  prebuiltImage: boolean = false,
+): string[] {
+  const adapter = sweAgentAdapterRegistry.get(agentType);
+  return environmentSetup({ ...config, agentType }, gitRemoteUrl, adapter, true, prebuiltImage);
+}
+
 export function taskSolverCommands(
-  agentType:SWEAgentType,
+  agentType: string,
   config: Config,
   task: Task,
   gitRemoteUrl: string,
+  prebuiltImage: boolean = false,
 ): string[] {
 
-  let finalCommandsList = [] 
-  finalCommandsList.push(...environmentSetup(config , gitRemoteUrl , task));
-
-  switch (agentType) {
-    case SWEAgentType.GEMINI_CLI:
-      finalCommandsList.push(GeminiExecutionCommand(config));
-      return finalCommandsList;
-    case SWEAgentType.CLAUDE_CODE:
-      finalCommandsList.push(getClaudeCommand(config, false));
-      return finalCommandsList;
-    case SWEAgentType.CODEX:
-      finalCommandsList.push(CodexExecutionCommand(config));
-      return finalCommandsList;
-    case SWEAgentType.CURSOR:
-      finalCommandsList.push(CursorExecutionCommand(config));
-      return finalCommandsList
-    default:
-      break;
-  }
-
-  throw new Error(`Unsupported agent type: ${agentType}`);
-}
-
-function GeminiExecutionCommand(config: Config): string{
-  if (config.googleGeminiApiKey && config.googleGeminiAPIKeyExportNeeded) {
-    return `export GEMINI_API_KEY=${config.googleGeminiApiKey} && gemini -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --yolo`;
-  }
-  return `gemini -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --yolo`;
-}
+  const adapter = sweAgentAdapterRegistry.get(agentType);
+  // the agent of the task can differ from config.agentType in mixed-agent runs
+  const agentConfig: Config = { ...config, agentType };
 
-function CodexExecutionCommand(config: Config): string{
-  if (config.openAICodexApiKey && config.openAICodexAPIKeyExportNeeded) {
-    return `export OPENAI_API_KEY=${config.openAICodexApiKey} && codex exec --sandbox danger-full-access "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
-  }
-  return `codex exec --sandbox danger-full-access "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
+  let finalCommandsList = [] 
+  finalCommandsList.push(...environmentSetup(agentConfig , gitRemoteUrl , adapter, true, prebuiltImage));
+  finalCommandsList.push(adapter.getSolverCommand(agentConfig));
+  return finalCommandsList;
 }
-
-function CursorExecutionCommand(config: Config): string{
-  if (config.cursorAPIKey && config.cursorAPIKeyExportNeeded) {
-    return `export CURSOR_API_KEY=${config.cursorAPIKey} && cursor-agent -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
-  }
-  return `cursor-agent -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
-}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import type { Config } from "../config";
+import { formatCommand } from "../dryRun";
+
+/**
+ * The models an agent uses in each phase
+ */
+export interface AgentPhaseModels {
+    /**
+     * Model of the analyzer
+     */
+    analyzer?: string;
+
+    /**
+     * Model of the task solver
+     */
+    solver?: string;
+}
+
+/**
+ * Get the model an agent runs with in a phase. A model set for the agent in
+ * config.agentModels wins over config.analyzerModel and config.solverModel.
+ * @param config The configuration object
+ * @param agentType The agent type
+ * @param bIsAnalyzer True for the analyzer, false for the task solver
+ * @returns The model, or undefined to use the default of the agent CLI
+ */
+export function getAgentModel(config: Config, agentType: string, bIsAnalyzer: boolean): string | undefined {
+    const agentModels = config.agentModels?.[agentType];
+    const model = bIsAnalyzer
+        ? agentModels?.analyzer || config.analyzerModel
+        : agentModels?.solver || config.solverModel;
+    return model || undefined;
+}
+
+/**
+ * Get the command line flag that selects the model of an agent in a phase
+ * @param config The configuration object
+ * @param agentType The agent type
+ * @param bIsAnalyzer True for the analyzer, false for the task solver
+ * @param flag The model flag of the agent CLI
+ * @returns The flag with the shell-quoted model and a leading space, or an empty string when no model is configured
+ */
+export function getModelFlag(config: Config, agentType: string, bIsAnalyzer: boolean, flag: string = "--model"): string {
+    const model = getAgentModel(config, agentType, bIsAnalyzer);
+    return model ? ` ${flag} ${formatCommand([model])}` : "";
+}
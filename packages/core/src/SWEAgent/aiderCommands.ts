@@ -0,0 +1,87 @@
+import { type Config, SWEAgentType } from "../config";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { getModelFlag } from "./agentModel";
+import { getUrlHost } from "../networkPolicy";
+
+/**
+ * Path of the aider executable installed by the aider install script
+ */
+export const AIDER_EXECUTABLE_PATH = "/root/.local/bin/aider";
+
+// aider is a python tool, the install script installs it with uv into /root/.local/bin
+export function AiderInstallationWrapper(): Array<string> {
+    return [
+        `curl -LsSf https://aider.chat/install.sh | sh`,
+    ]
+}
+
+/**
+ * Get the environment variables of the aider container.
+ * aider picks its default model from the keys it finds, so every key that needs exporting is passed.
+ * @param config The configuration object.
+ * @returns The environment variables.
+ */
+export function getAiderEnvironment(config: Config): Record<string, string> {
+    const environment: Record<string, string> = {};
+    if (config.anthropicAPIKey && config.anthropicAPIKeyExportNeeded) {
+        environment.ANTHROPIC_API_KEY = config.anthropicAPIKey;
+        if (config.anthropicAPIBaseUrl) {
+            environment.ANTHROPIC_BASE_URL = config.anthropicAPIBaseUrl;
+        }
+    }
+    if (config.openAICodexApiKey && config.openAICodexAPIKeyExportNeeded) {
+        environment.OPENAI_API_KEY = config.openAICodexApiKey;
+    }
+    if (config.googleGeminiApiKey && config.googleGeminiAPIKeyExportNeeded) {
+        environment.GEMINI_API_KEY = config.googleGeminiApiKey;
+    }
+    return environment;
+}
+
+/**
+ * Get the hosts aider needs: its install script, which installs aider from PyPI with uv,
+ * and the APIs of the keys that are passed to it.
+ * @param config The configuration object.
+ * @returns The host names.
+ */
+export function getAiderNetworkHosts(config: Config): string[] {
+    const hosts = ["aider.chat", "astral.sh", "github.com", "objects.githubusercontent.com"];
+    const environment = getAiderEnvironment(config);
+    if (environment.ANTHROPIC_API_KEY) {
+        hosts.push((config.anthropicAPIBaseUrl && getUrlHost(config.anthropicAPIBaseUrl)) || "api.anthropic.com");
+    }
+    if (environment.OPENAI_API_KEY) {
+        hosts.push("api.openai.com");
+    }
+    if (environment.GEMINI_API_KEY) {
+        hosts.push("generativelanguage.googleapis.com");
+    }
+    return hosts;
+}
+
+/**
+ * Returns the command to run aider, either for analysis or task solving.
+ * aider only writes files that are added to the chat, so the output file is created
+ * and added with --file. Auto commits are disabled so the changes show up in the git diff.
+ * @param config The configuration object.
+ * @param bIsAnalyzer Whether to run the analyzer or the task solver. True for analyzer, false for task solver.
+ * @returns The command to run aider.
+ */
+export function getAiderCommand(config: Config, bIsAnalyzer: boolean = true): string {
+    const promptPath = bIsAnalyzer ? "/app/codeAnalyzerPrompt.txt" : "/app/taskSolverPrompt.txt";
+    const outputPath = bIsAnalyzer ? "/app/tasks.json" : "/app/finalReport.json";
+
+    return `cd /app/repo && touch ${outputPath} && ${AIDER_EXECUTABLE_PATH} --yes-always --no-auto-commits --no-check-update --no-show-model-warnings${getModelFlag(config, SWEAgentType.AIDER, bIsAnalyzer)} --file ${outputPath} --message-file ${promptPath}`;
+}
+
+/**
+ * Adapter of the aider CLI
+ */
+export const aiderAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.AIDER,
+    getInstallCommands: () => AiderInstallationWrapper(),
+    getAnalyzerCommand: (config) => getAiderCommand(config, true),
+    getSolverCommand: (config) => getAiderCommand(config, false),
+    getEnvironment: getAiderEnvironment,
+    getNetworkHosts: getAiderNetworkHosts,
+};
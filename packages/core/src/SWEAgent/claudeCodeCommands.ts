@@ -1,29 +1,43 @@
 import { type Config, SWEAgentType } from "../config";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { getModelFlag } from "./agentModel";
+import { getUrlHost } from "../networkPolicy";
 
+/**
+ * Get the environment variables of the Claude container: the API key, and the base URL
+ * of the endpoint if one is configured. Nothing is passed when the key is not to be exported.
+ * @param config The configuration object.
+ * @returns The environment variables.
+ * @throws Error if the API key needs exporting but is not provided
+ */
+export function getClaudeEnvironment(config: Config): Record<string, string> {
+    if (config.anthropicAPIKeyExportNeeded === false) {
+        return {};
+    }
+    if (!config.anthropicAPIKey) {
+        throw new Error("getClaudeAnalyzeCommand: config.anthropicAPIKey or config.anthropicAPIBaseUrl must be provided");
+    }
 
-
-function claudeRunTaskWithAnthropicBaseURLAndAPIKey(baseURL: string, apiKey: string): string {
-    const command = `export ANTHROPIC_BASE_URL=${baseURL} && export ANTHROPIC_AUTH_TOKEN=${apiKey} && export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-    return command;
-}
-
-function claudeRunTaskWithAnthropicAPIKey(apiKey: string): string {
-    const command = `export ANTHROPIC_AUTH_TOKEN=${apiKey} && export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-    return command;
-}
-
-export function claudeRunAnalyzerWithAnthropicBaseURLAndAPIKey(baseURL: string, apiKey: string): string {
-    const command = `export ANTHROPIC_BASE_URL=${baseURL} && export ANTHROPIC_AUTH_TOKEN=${apiKey} && export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-    return command;
+    const environment: Record<string, string> = { ANTHROPIC_AUTH_TOKEN: config.anthropicAPIKey };
+    if (config.anthropicAPIBaseUrl) {
+        environment.ANTHROPIC_BASE_URL = config.anthropicAPIBaseUrl;
+    }
+    return environment;
 }
 
-function claudeRunAnalyzerWithAnthropicAPIKey(apiKey: string): string {
-    const command = `export ANTHROPIC_AUTH_TOKEN=${apiKey} && export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-    return command;
+/**
+ * Get the hosts Claude Code needs: the configured endpoint, or the Anthropic API
+ * @param config The configuration object.
+ * @returns The host names.
+ */
+export function getClaudeNetworkHosts(config: Config): string[] {
+    return [(config.anthropicAPIBaseUrl && getUrlHost(config.anthropicAPIBaseUrl)) || "api.anthropic.com"];
 }
 
 /**
- * Returns the command to run Claude, either for analysis or task solving.
+ * Returns the command to run Claude, either for analysis or task solving,
+ * with the model of the phase if one is configured.
+ * The API key is read from the environment of the container, see getClaudeEnvironment.
  * @param config The configuration object.
  * @param bIsAnalyzer Whether to run the analyzer or the task solver. True for analyzer, false for task solver.
  * @returns The command to run Claude.
@@ -33,39 +47,11 @@ export function getClaudeCommand(config: Config, bIsAnalyzer: boolean = true): s
         throw new Error("getClaudeAnalyzeCommand: config.agentType must be CLAUDE_CODE");
     }
 
-    if (config.anthropicAPIKeyExportNeeded === false) {
-      
-        if (bIsAnalyzer) {
-          return `export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-        }
-        else {
-          return `export IS_SANDBOX=1 && claude -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions`;
-        }
-    }
-
-    // below are all the cases when we need to export the API key
-    // which means that config.anthropicAPIKeyExportNeeded is true
+    // fail early when the API key is missing, the command itself does not contain it
+    getClaudeEnvironment(config);
 
-    // 1. if both API key and base url endpoint are needed
-    if (config.anthropicAPIKey && config.anthropicAPIBaseUrl) {
-        if (bIsAnalyzer) {
-            return claudeRunAnalyzerWithAnthropicBaseURLAndAPIKey(config.anthropicAPIBaseUrl, config.anthropicAPIKey);
-        }
-        else {
-            return claudeRunTaskWithAnthropicBaseURLAndAPIKey(config.anthropicAPIBaseUrl, config.anthropicAPIKey);
-        }
-    }
-    // 2. if only API key is needed
-    else if (config.anthropicAPIKey){
-        if (bIsAnalyzer) {
-            return claudeRunAnalyzerWithAnthropicAPIKey(config.anthropicAPIKey);
-        }
-        else {
-            return claudeRunTaskWithAnthropicAPIKey(config.anthropicAPIKey);
-        }
-    }
-
-    throw new Error("getClaudeAnalyzeCommand: config.anthropicAPIKey or config.anthropicAPIBaseUrl must be provided");
+    const promptPath = bIsAnalyzer ? "/app/codeAnalyzerPrompt.txt" : "/app/taskSolverPrompt.txt";
+    return `export IS_SANDBOX=1 && claude -p "all the task descriptions are located at ${promptPath}, please read and execute" --allowedTools "Bash,ReadEdit,Glob,Grep,WebFetch,WebSearch,Write,TodoWrite,SlashCommand" --permission-mode bypassPermissions${getModelFlag(config, SWEAgentType.CLAUDE_CODE, bIsAnalyzer)}`;
 }
 
 // export function getClaudeTaskSolverCommand(config: Config): string {
@@ -82,4 +68,16 @@ export function getClaudeCommand(config: Config, bIsAnalyzer: boolean = true): s
 
 //     // 1. if both API key and base url endpoint are needed
 //     if (config.anthropicAPIKey && config.anthropicAPIBaseUrl) {
-// export function getClaudeTaskSolverCommand(config: Config): string 
\ No newline at end of file
+// export function getClaudeTaskSolverCommand(config: Config): string 
+
+/**
+ * Adapter of the Claude Code CLI
+ */
+export const claudeCodeAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.CLAUDE_CODE,
+    getInstallCommands: () => ["npm install -g @anthropic-ai/claude-code"],
+    getAnalyzerCommand: (config) => getClaudeCommand(config, true),
+    getSolverCommand: (config) => getClaudeCommand(config, false),
+    getEnvironment: getClaudeEnvironment,
+    getNetworkHosts: getClaudeNetworkHosts,
+};
@@ -1,17 +1,36 @@
-import type { Config } from "../config";
-
-export function getCodexCommand(config: Config, bIsAnalyzer: boolean = true): string {
-
-    let cmd = `codex exec --sandbox danger-full-access "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute"`
-
-    let apiKeyExportCommand: string | undefined;
+import { type Config, SWEAgentType } from "../config";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { getModelFlag } from "./agentModel";
 
+/**
+ * Get the environment variables of the Codex container
+ * @param config The configuration object.
+ * @returns The environment variables.
+ */
+export function getCodexEnvironment(config: Config): Record<string, string> {
     if (config.openAICodexApiKey && config.openAICodexAPIKeyExportNeeded) {
-        apiKeyExportCommand = `export OPENAI_API_KEY=${config.openAICodexApiKey}`;
+        return { OPENAI_API_KEY: config.openAICodexApiKey };
     }
+    return {};
+}
 
-    if (apiKeyExportCommand) {
-        cmd = `${apiKeyExportCommand} && ${cmd}`;
-    }
-    return cmd
-}
\ No newline at end of file
+export function getCodexCommand(config: Config, bIsAnalyzer: boolean = true): string {
+    return `codex exec --sandbox danger-full-access${getModelFlag(config, SWEAgentType.CODEX, bIsAnalyzer)} "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute"`;
+}
+
+function CodexExecutionCommand(config: Config): string{
+    const modelFlag = getModelFlag(config, SWEAgentType.CODEX, false);
+    return `codex exec --sandbox danger-full-access${modelFlag} "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
+}
+
+/**
+ * Adapter of the OpenAI Codex CLI
+ */
+export const codexAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.CODEX,
+    getInstallCommands: () => ["npm install -g @openai/codex"],
+    getAnalyzerCommand: (config) => getCodexCommand(config, true),
+    getSolverCommand: CodexExecutionCommand,
+    getEnvironment: getCodexEnvironment,
+    getNetworkHosts: () => ["api.openai.com"],
+};
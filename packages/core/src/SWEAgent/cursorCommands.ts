@@ -1,4 +1,6 @@
-import type { Config } from "../config";
+import { type Config, SWEAgentType } from "../config";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { getModelFlag } from "./agentModel";
 
 // cursor installation requires multiple commands like this:
 // cursorinstallationWrapper returns a list of installation commands
@@ -10,19 +12,35 @@ export function CursorInstallationWrapper():Array<string>{
     ]
 }
 
-export function getCursorCommand(config: Config, bIsAnalyzer: boolean = true): string {
-
-    let cmd = `cursor-agent -p --force "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute"`
-
-    let apiKeyExportCommand: string | undefined;
-
+/**
+ * Get the environment variables of the Cursor container
+ * @param config The configuration object.
+ * @returns The environment variables.
+ */
+export function getCursorEnvironment(config: Config): Record<string, string> {
     if (config.cursorAPIKey && config.cursorAPIKeyExportNeeded) {
-        apiKeyExportCommand = `export CURSOR_API_KEY=${config.cursorAPIKey}`;
+        return { CURSOR_API_KEY: config.cursorAPIKey };
     }
+    return {};
+}
 
-    if (apiKeyExportCommand) {
-        cmd = `${apiKeyExportCommand} && ${cmd}`;
-    }
-    return cmd
+export function getCursorCommand(config: Config, bIsAnalyzer: boolean = true): string {
+    return `cursor-agent -p --force${getModelFlag(config, SWEAgentType.CURSOR, bIsAnalyzer)} "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute"`;
+}
+
+function CursorExecutionCommand(config: Config): string{
+    const modelFlag = getModelFlag(config, SWEAgentType.CURSOR, false);
+    return `cursor-agent -p${modelFlag} "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute"`;
+}
 
-}
\ No newline at end of file
+/**
+ * Adapter of the Cursor agent CLI
+ */
+export const cursorAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.CURSOR,
+    getInstallCommands: () => CursorInstallationWrapper(),
+    getAnalyzerCommand: (config) => getCursorCommand(config, true),
+    getSolverCommand: CursorExecutionCommand,
+    getEnvironment: getCursorEnvironment,
+    getNetworkHosts: () => ["cursor.com", "*.cursor.com", "*.cursor.sh"],
+};
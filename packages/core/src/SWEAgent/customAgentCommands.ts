@@ -0,0 +1,99 @@
+import { type Config, SWEAgentType } from "../config";
+import { type SWEAgentAdapter, ANALYZER_PROMPT_PATH, TASK_SOLVER_PROMPT_PATH } from "./SWEAgentAdapter";
+import { getAgentModel } from "./agentModel";
+
+/**
+ * Configuration of the custom agent, a CLI that is driven by templated command lines.
+ * The CLI must write the tasks to /app/tasks.json when analyzing and its report
+ * to /app/finalReport.json when solving a task, as the prompts ask it to.
+ */
+export interface CustomAgentConfig {
+    /**
+     * Commands that install the CLI, run after nodejs and npm are installed
+     */
+    installCommands?: string[];
+
+    /**
+     * Command line of the analyzer, e.g. "my-agent run --prompt-file {{promptPath}} --cwd {{repoPath}}"
+     */
+    analyzerCommand: string;
+
+    /**
+     * Command line of the task solver, with the same placeholders as analyzerCommand
+     */
+    solverCommand: string;
+
+    /**
+     * The model substituted for {{model}} when no model is configured for the phase
+     */
+    model?: string;
+
+    /**
+     * Environment variables of the container, e.g. API keys of the CLI.
+     * Commands reference them as $NAME, so the values never appear in the commands.
+     */
+    environment?: Record<string, string>;
+}
+
+/**
+ * Path of the repository inside the container
+ */
+const REPO_PATH = "/app/repo";
+
+/**
+ * Fill in the placeholders of a custom agent command line:
+ * {{promptPath}}, {{repoPath}} and {{model}}
+ * @param template The command line template
+ * @param values The value of each placeholder, an undefined value may not be used in the template
+ * @returns The command line
+ * @throws Error if the template uses an unknown placeholder or one without a value
+ */
+export function renderCustomAgentCommand(template: string, values: Record<string, string | undefined>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+        if (!(name in values)) {
+            throw new Error(`Unknown placeholder ${placeholder} in custom agent command. Available placeholders: ${Object.keys(values).map(key => `{{${key}}}`).join(', ')}`);
+        }
+        const value = values[name];
+        if (value === undefined) {
+            throw new Error(`Custom agent command uses ${placeholder}, but no ${name} is configured`);
+        }
+        return value;
+    });
+}
+
+/**
+ * Get the custom agent configuration
+ * @throws Error if it is missing
+ */
+function getCustomAgentConfig(config: Config): CustomAgentConfig {
+    if (!config.customAgent) {
+        throw new Error(`config.customAgent must be provided when agentType is ${SWEAgentType.CUSTOM}`);
+    }
+    return config.customAgent;
+}
+
+/**
+ * Returns the command to run the custom agent, either for analysis or task solving.
+ * @param config The configuration object.
+ * @param bIsAnalyzer Whether to run the analyzer or the task solver. True for analyzer, false for task solver.
+ * @returns The command to run the custom agent.
+ */
+export function getCustomAgentCommand(config: Config, bIsAnalyzer: boolean = true): string {
+    const customAgent = getCustomAgentConfig(config);
+    return renderCustomAgentCommand(bIsAnalyzer ? customAgent.analyzerCommand : customAgent.solverCommand, {
+        promptPath: bIsAnalyzer ? ANALYZER_PROMPT_PATH : TASK_SOLVER_PROMPT_PATH,
+        repoPath: REPO_PATH,
+        model: getAgentModel(config, SWEAgentType.CUSTOM, bIsAnalyzer) || customAgent.model,
+    });
+}
+
+/**
+ * Adapter of the custom agent configured in config.customAgent
+ */
+export const customAgentAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.CUSTOM,
+    getInstallCommands: (config) => getCustomAgentConfig(config).installCommands || [],
+    getAnalyzerCommand: (config) => getCustomAgentCommand(config, true),
+    getSolverCommand: (config) => getCustomAgentCommand(config, false),
+    getEnvironment: (config) => getCustomAgentConfig(config).environment || {},
+};
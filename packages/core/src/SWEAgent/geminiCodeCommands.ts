@@ -1,22 +1,42 @@
-import type { Config } from "../config";
-
-
-// TODO: Should we remove the bIsAnalyzer argument or keep it here as part of the interface?
-export function getGeminiCommand(config:Config , bIsAnalyzer: boolean = true): string {
-    let geminiCommand = `gemini -p "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute" --yolo`;
-    let apiKeyExportCommand: string | undefined;
+import { type Config, SWEAgentType } from "../config";
+import type { SWEAgentAdapter } from "./SWEAgentAdapter";
+import { getModelFlag } from "./agentModel";
 
+/**
+ * Get the environment variables of the Gemini container: the first API key that needs exporting,
+ * the Gemini key first, then the Anthropic and OpenAI keys.
+ * @param config The configuration object.
+ * @returns The environment variables.
+ */
+export function getGeminiEnvironment(config: Config): Record<string, string> {
     if (config.googleGeminiApiKey && config.googleGeminiAPIKeyExportNeeded) {
-        apiKeyExportCommand = `export GEMINI_API_KEY=${config.googleGeminiApiKey}`;
+        return { GEMINI_API_KEY: config.googleGeminiApiKey };
     } else if (config.anthropicAPIKey && config.anthropicAPIKeyExportNeeded) {
-        apiKeyExportCommand = `export ANTHROPIC_API_KEY=${config.anthropicAPIKey}`;
+        return { ANTHROPIC_API_KEY: config.anthropicAPIKey };
     } else if (config.openAICodexApiKey && config.openAICodexAPIKeyExportNeeded) {
-        apiKeyExportCommand = `export OPENAI_API_KEY=${config.openAICodexApiKey}`;
-    }
-    
-    if (apiKeyExportCommand) {
-        geminiCommand = `${apiKeyExportCommand} && ${geminiCommand}`;
+        return { OPENAI_API_KEY: config.openAICodexApiKey };
     }
+    return {};
+}
+
+// TODO: Should we remove the bIsAnalyzer argument or keep it here as part of the interface?
+export function getGeminiCommand(config:Config , bIsAnalyzer: boolean = true): string {
+    return `gemini -p "all the task descriptions are located at /app/codeAnalyzerPrompt.txt, please read and execute" --yolo${getModelFlag(config, SWEAgentType.GEMINI_CLI, bIsAnalyzer)}`;
+}
+
+function GeminiExecutionCommand(config: Config): string{
+    const modelFlag = getModelFlag(config, SWEAgentType.GEMINI_CLI, false);
+    return `gemini -p "all the task descriptions are located at /app/taskSolverPrompt.txt, please read and execute" --yolo${modelFlag}`;
+}
 
-    return geminiCommand;
-}
\ No newline at end of file
+/**
+ * Adapter of the Gemini CLI
+ */
+export const geminiCliAdapter: SWEAgentAdapter = {
+    agentType: SWEAgentType.GEMINI_CLI,
+    getInstallCommands: () => ["npm install -g @google/gemini-cli"],
+    getAnalyzerCommand: (config) => getGeminiCommand(config, true),
+    getSolverCommand: GeminiExecutionCommand,
+    getEnvironment: getGeminiEnvironment,
+    getNetworkHosts: () => ["generativelanguage.googleapis.com"],
+};
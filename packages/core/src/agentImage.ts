@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import type { Config } from './config';
+import type { DockerInstance } from './dockerInstance';
+import type { SWEAgentAdapter } from './SWEAgent/SWEAgentAdapter';
+import { diffNodejsSourceCode } from './prompts/diff_nodejs';
+
+/**
+ * Repository prefix of the prebuilt agent images, the agent type is appended
+ */
+export const AGENT_IMAGE_REPOSITORY_PREFIX = 'full-self-coding-agent';
+
+/**
+ * Commands that install the tools every container needs: curl, and nodejs and npm from NodeSource
+ */
+export function getBaseToolCommands(): string[] {
+    return [
+        "apt-get update",
+        "apt-get install -y curl",
+        "curl -fsSL https://deb.nodesource.com/setup_20.x | bash -",
+        "apt-get install -y nodejs",
+    ];
+}
+
+/**
+ * Commands that install the script task solvers save their git diff with, /app/diff/run.js
+ */
+export function getDiffToolCommands(): string[] {
+    return [
+        "mkdir /app/diff && cd /app/diff && npm install simple-git",
+        // save diffNodejsSourceCode into /app/diff/run.js
+        `echo "${diffNodejsSourceCode}" > /app/diff/run.js`,
+    ];
+}
+
+/**
+ * Get the commands that set up a container for an agent: the tools and the agent CLI.
+ * Containers started from a prebuilt agent image skip them.
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @returns The setup commands, in the order they run
+ */
+export function getAgentSetupCommands(config: Config, adapter: SWEAgentAdapter): string[] {
+    return [
+        ...getBaseToolCommands(),
+        ...getDiffToolCommands(),
+        ...adapter.getInstallCommands(config),
+    ];
+}
+
+/**
+ * Render the Dockerfile of the prebuilt image of an agent. Every setup command becomes a RUN
+ * instruction in exec form, so multi-line commands survive and each runs in its own shell,
+ * like the commands run with docker exec.
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @returns The Dockerfile
+ */
+export function renderAgentDockerfile(config: Config, adapter: SWEAgentAdapter): string {
+    const lines = [
+        `FROM ${config.dockerImageRef || 'node:latest'}`,
+        `LABEL org.full-self-coding.agent-type=${JSON.stringify(adapter.agentType)}`,
+        `RUN mkdir -p /app`,
+        ...getAgentSetupCommands(config, adapter).map(command => `RUN ${JSON.stringify(['sh', '-c', command])}`),
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Get the tag of the prebuilt image of an agent. The tag is a hash of the Dockerfile,
+ * so a changed base image or changed setup commands never reuse a stale image.
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @returns The image reference, e.g. "full-self-coding-agent-claude-code:3f2a9c0d1e4b"
+ */
+export function getAgentImageTag(config: Config, adapter: SWEAgentAdapter): string {
+    const contentHash = createHash('sha256').update(renderAgentDockerfile(config, adapter)).digest('hex').substring(0, 12);
+    const repositoryName = adapter.agentType.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[^a-z0-9]+/, '');
+    return `${AGENT_IMAGE_REPOSITORY_PREFIX}-${repositoryName}:${contentHash}`;
+}
+
+/**
+ * Find the prebuilt image of an agent
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @param docker The docker instance used to look the image up
+ * @returns The image reference if the image exists and config.useAgentImages is not false, otherwise undefined
+ */
+export function findAgentImage(config: Config, adapter: SWEAgentAdapter, docker: DockerInstance): string | undefined {
+    if (config.useAgentImages === false) {
+        return undefined;
+    }
+    const imageTag = getAgentImageTag(config, adapter);
+    if (!docker.imageExists(imageTag)) {
+        return undefined;
+    }
+    console.log(`Using prebuilt agent image ${imageTag}`);
+    return imageTag;
+}
+
+/**
+ * Get every agent type a run can use: config.agentType, the round-robin agents,
+ * the agents of the routing rules and the best-of-N attempts, and the reviewer
+ * @param config The configuration object
+ * @returns The agent types without duplicates
+ */
+export function getConfiguredAgentTypes(config: Config): string[] {
+    return [...new Set([
+        config.agentType,
+        ...(config.roundRobinAgentTypes || []),
+        ...(config.agentRoutingRules || []).map(rule => rule.agentType),
+        ...(config.bestOfN?.agentTypes || []),
+        ...(config.bestOfN?.reviewerAgentType ? [config.bestOfN.reviewerAgentType] : []),
+    ])];
+}
+
+/**
+ * Build the prebuilt image of an agent, unless an image with the same content hash exists
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @param docker The docker instance that builds the image
+ * @param force Build the image even if it exists
+ * @returns The image reference
+ */
+export async function buildAgentImage(config: Config, adapter: SWEAgentAdapter, docker: DockerInstance, force: boolean = false): Promise<string> {
+    const imageTag = getAgentImageTag(config, adapter);
+    if (!force && docker.imageExists(imageTag)) {
+        console.log(`Agent image ${imageTag} is up to date`);
+        return imageTag;
+    }
+    console.log(`Building agent image ${imageTag}...`);
+    await docker.buildImage(renderAgentDockerfile(config, adapter), imageTag);
+    return imageTag;
+}
@@ -0,0 +1,92 @@
+import type { Config } from './config';
+import type { Task } from './task';
+
+/**
+ * A rule that assigns an agent to the tasks it matches.
+ * A rule without conditions matches every task.
+ */
+export interface AgentRoutingRule {
+    /**
+     * The agent type assigned to the matching tasks
+     */
+    agentType: string;
+
+    /**
+     * Match tasks that have at least one of these labels
+     */
+    labels?: string[];
+
+    /**
+     * Match tasks with at least this priority
+     */
+    minPriority?: number;
+
+    /**
+     * Match tasks with at most this priority
+     */
+    maxPriority?: number;
+}
+
+/**
+ * Check whether a task matches all conditions of a routing rule
+ * @param task The task
+ * @param rule The routing rule
+ * @returns True if the task matches
+ */
+export function matchesRoutingRule(task: Task, rule: AgentRoutingRule): boolean {
+    if (rule.labels && rule.labels.length > 0 && !rule.labels.some(label => task.labels?.includes(label))) {
+        return false;
+    }
+    if (rule.minPriority !== undefined && task.priority < rule.minPriority) {
+        return false;
+    }
+    if (rule.maxPriority !== undefined && task.priority > rule.maxPriority) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * AgentRouter decides which agent solves each task. In order of precedence:
+ * 1. the agentType of the task, e.g. from the task file
+ * 2. the first of config.agentRoutingRules that matches the task
+ * 3. the next agent of config.roundRobinAgentTypes
+ * 4. config.agentType
+ */
+export class AgentRouter {
+    private config: Config;
+    private nextRoundRobinIndex: number = 0;
+
+    /**
+     * @param config The configuration object
+     */
+    constructor(config: Config) {
+        this.config = config;
+    }
+
+    /**
+     * Get the agent type that solves a task. Tasks that fall through to
+     * round-robin assignment advance the round-robin position.
+     * @param task The task
+     * @returns The agent type
+     */
+    getAgentType(task: Task): string {
+        if (task.agentType) {
+            return task.agentType;
+        }
+
+        const matchingRule = this.config.agentRoutingRules?.find(rule => matchesRoutingRule(task, rule));
+        if (matchingRule) {
+            return matchingRule.agentType;
+        }
+
+        const roundRobinAgentTypes = this.config.roundRobinAgentTypes;
+        if (roundRobinAgentTypes && roundRobinAgentTypes.length > 0) {
+            const agentType = roundRobinAgentTypes[this.nextRoundRobinIndex % roundRobinAgentTypes.length];
+            this.nextRoundRobinIndex++;
+            return agentType;
+        }
+
+        return this.config.agentType;
+    }
+}
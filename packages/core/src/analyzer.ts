@@ -1,14 +1,27 @@
 import type { Task } from './task';
-import { type Config, SWEAgentType } from './config';
-import { DockerInstance, DockerRunStatus } from './dockerInstance';
+import { SWEAgentType, type Config } from './config';
+import { DockerInstance, DockerRunStatus, getContainerResourceLimits } from './dockerInstance';
 import { analyzerPrompt } from './prompts/analyzerPrompt';
 import { getCodingStyle } from './codingStyle';
 import { getWorkStyleDescription, WorkStyle } from './workStyle';
 import { trimJSONObjectArray } from './utils/trimJSON';
-import { getClaudeCommand } from './SWEAgent/claudeCodeCommands';
-import { getGeminiCommand } from './SWEAgent/geminiCodeCommands';
-import { CursorInstallationWrapper, getCursorCommand } from './SWEAgent/cursorCommands';
-import { getCodexCommand } from './SWEAgent/codexCommands';
+import { getAgentEnvironment, getAgentOutputPaths } from './SWEAgent/SWEAgentAdapter';
+import { sweAgentAdapterRegistry } from './SWEAgent/SWEAgentAdapterRegistry';
+import { getConfigSecrets, secretRedactor } from './utils/maskSecrets';
+import { getContainerRuntime } from './containerRuntime';
+import { copyLocalRepoToContainer, getRepoCloneCommands } from './repoSource';
+import { getGitCredentialCleanupCommands, setupGitCredentials, withGitCredentials } from './gitCredentials';
+import { findAgentImage, getBaseToolCommands } from './agentImage';
+
+/**
+ * The task a dry run analysis returns, so the solve and commit commands of a run are recorded too
+ */
+export const DRY_RUN_PLACEHOLDER_TASK: Task = {
+    ID: 'dry-run-task',
+    title: 'Dry run task',
+    description: 'Placeholder for the tasks the analyzer would discover',
+    priority: 1,
+};
 
 /**
  * Analyzes the codebase and generates a list of tasks to be executed
@@ -21,16 +34,22 @@ export async function analyzeCodebase(
     extraComandsBeforeAnalysis?: string
 ): Promise<Task[]> {
 
-    const docker = new DockerInstance();
+    await sweAgentAdapterRegistry.loadModules(config.agentAdapterModules);
+    const adapter = sweAgentAdapterRegistry.get(config.agentType);
+
+    secretRedactor.register(getConfigSecrets(config));
+    const docker = new DockerInstance({ dryRun: config.dryRun, secrets: getConfigSecrets(config), runtime: getContainerRuntime(config) });
     let containerName: string | undefined;
     let tasks: Task[] = [];
 
     try {
-        const dockerImageRef = config.dockerImageRef || 'node:latest';
+        // the prebuilt image of the agent already has the tools and the agent installed
+        const agentImage = findAgentImage(config, adapter, docker);
+        const dockerImageRef = agentImage || config.dockerImageRef || 'node:latest';
 
         // the name of container = "analyzer-container" + date-and-time-in-yymmddhhmmss
         const containerName = `analyzer-container-${Date.now().toString().substring(2, 14)}`;
-        await docker.startContainer(dockerImageRef, containerName);
+        await docker.startContainer(dockerImageRef, containerName, withGitCredentials(config, { environment: getAgentEnvironment(adapter, config), resources: getContainerResourceLimits(config) }));
 
         const allCommands: string[] = [];
 
@@ -47,86 +66,26 @@ export async function analyzeCodebase(
         await docker.copyFileToContainer(prompt, '/app/codeAnalyzerPrompt.txt');
         // step 0 done
 
-        // 0.4 copy all files related to git to the container
-        const os = await import('os');
-        const fs = await import('fs');
-        const path = await import('path');
-
-        // 0.4.1 create ~/.ssh folder in the container
-        await docker.runCommands(['mkdir', '-p', '/root/.ssh']);
-
-        // 0.4.2 copy all files in ~/.ssh to ~/.ssh (/root/.ssh) in the container
-        const sshPath = path.join(os.homedir(), '.ssh');
-        if (fs.existsSync(sshPath)) {
-            console.log(`Copying SSH files from ${sshPath} to container...`);
-            await docker.copyFilesToContainer(sshPath, '/root/.ssh');
-        } else {
-            console.warn(`SSH directory not found at ${sshPath}, skipping SSH file copy`);
-        }
+        // 0.4 set up the git credentials of the configured strategy
+        await setupGitCredentials(docker, config);
 
-        // 0.4.3 read ~/.gitconfig on local machine using fs
-        const gitConfigPath = path.join(os.homedir(), '.gitconfig');
-        if (fs.existsSync(gitConfigPath)) {
-            console.log(`Reading git config from ${gitConfigPath}...`);
-            const dotGitConfigFileText = await fs.promises.readFile(gitConfigPath, 'utf8');
-            // 0.4.4 copy ~/.gitconfig to ~/.gitconfig (/root/.gitconfig) in the container
-            await docker.copyFileToContainer(dotGitConfigFileText, '/root/.gitconfig');
-        } else {
-            console.warn(`Git config file not found at ${gitConfigPath}, skipping git config copy`);
-        }
+        // 1. Clone the source code repository, or seed it from the bundle of the local checkout
+        await copyLocalRepoToContainer(docker, config);
+        allCommands.push(...getRepoCloneCommands(config, gitRemoteUrl));
 
-        // 0.4.4 remove the ~/.ssh/config from the docker container if it exists
-        await docker.runCommands(['rm -f /root/.ssh/config']);
-
-
-        // 1. Clone the source code repository
-        allCommands.push(`git clone ${gitRemoteUrl} /app/repo`);
-
-        // 2. Setup necessary tools (curl, nodejs, npm)
-        allCommands.push("apt-get update");
-        allCommands.push("apt-get install -y curl");
-        allCommands.push("curl -fsSL https://deb.nodesource.com/setup_20.x | bash -");
-        allCommands.push("apt-get install -y nodejs");
-
-        // 3. Install gemini-cli globally if agent type is GEMINI_CLI
-        switch (config.agentType) {
-            case SWEAgentType.GEMINI_CLI:
-                allCommands.push(`npm install -g @google/gemini-cli`);
-                break;
-            case SWEAgentType.CLAUDE_CODE:
-                allCommands.push(`npm install -g @anthropic-ai/claude-code`);
-                break;
-            case SWEAgentType.CODEX:
-                allCommands.push(`npm install -g @openai/codex`);
-                break;
-            case SWEAgentType.CURSOR:
-                allCommands.push(...CursorInstallationWrapper());
-                break;
-            default:
-                throw new Error(`Unsupported agent type: ${config.agentType}`);
+        // 2. Setup necessary tools (curl, nodejs, npm) and 3. install the agent CLI, unless the image has them
+        if (!agentImage) {
+            allCommands.push(...getBaseToolCommands());
+            allCommands.push(...adapter.getInstallCommands(config));
         }
 
-
-
-        switch (config.agentType) {
-            case SWEAgentType.GEMINI_CLI:
-                if (extraComandsBeforeAnalysis) {
-                    allCommands.push(extraComandsBeforeAnalysis);
-                }
-                allCommands.push(getGeminiCommand(config, true));
-                break;
-            case SWEAgentType.CLAUDE_CODE:
-                allCommands.push(getClaudeCommand(config, true));
-                break;
-            case SWEAgentType.CODEX:
-                allCommands.push(getCodexCommand(config , true))
-                break;
-            case SWEAgentType.CURSOR:
-                allCommands.push(getCursorCommand(config, true));
-                break;
-            default:
-                throw new Error(`Unsupported agent type: ${config.agentType}`);
+        // run the analyzer; the extra commands are only run before the analysis of the Gemini CLI
+        if (extraComandsBeforeAnalysis && config.agentType === SWEAgentType.GEMINI_CLI) {
+            allCommands.push(extraComandsBeforeAnalysis);
         }
+        // the repository is cloned by now, the agent must not be able to read the deploy key
+        allCommands.push(...getGitCredentialCleanupCommands(config));
+        allCommands.push(adapter.getAnalyzerCommand(config));
 
         // console.log("Commands to run in Docker:");
         // for (const command of allCommands) {
@@ -146,7 +105,7 @@ export async function analyzeCodebase(
         }
 
         // 6. Read the generated tasks.json
-        const readTasksCommand = `cat /app/tasks.json`;
+        const readTasksCommand = `cat ${getAgentOutputPaths(adapter).tasks}`;
         const readTasksResult = await docker.runCommands(
             [readTasksCommand],
             config.dockerTimeoutSeconds? config.dockerTimeoutSeconds : 0
@@ -157,6 +116,12 @@ export async function analyzeCodebase(
             throw new Error(`Failed to read tasks.json from Docker: ${readTasksResult.error || readTasksResult.output}`);
         }
 
+        // In a dry run the analyzer never ran, so there is no tasks.json to parse
+        if (config.dryRun) {
+            console.log("Dry run: the analyzer was not executed, continuing with a placeholder task");
+            return [DRY_RUN_PLACEHOLDER_TASK];
+        }
+
         try {
             const outputTasksInString = trimJSONObjectArray(readTasksResult.output);
             console.log("***Output tasks in string:\n\n", outputTasksInString);
@@ -0,0 +1,377 @@
+import type { Config } from './config';
+import { TaskStatus, type Task, type TaskCandidate, type TaskResult } from './task';
+import { createTaskSolver, type TaskSolverFactory } from './taskSolver';
+import { DockerInstance, DockerRunStatus, getContainerResourceLimits } from './dockerInstance';
+import { computeDiffStat } from './runReport';
+import { reviewerPrompt } from './prompts/reviewerPrompt';
+import { taskSolverCommands } from './SWEAgent/SWEAgentTaskSolverCommands';
+import { TASK_SOLVER_PROMPT_PATH, getAgentEnvironment, getAgentOutputPaths } from './SWEAgent/SWEAgentAdapter';
+import { sweAgentAdapterRegistry } from './SWEAgent/SWEAgentAdapterRegistry';
+import { copyLocalRepoToContainer } from './repoSource';
+import { getGitCredentialCleanupCommands, setupGitCredentials, withGitCredentials } from './gitCredentials';
+import { findAgentImage } from './agentImage';
+import { getConfigSecrets } from './utils/maskSecrets';
+import { getContainerRuntime } from './containerRuntime';
+import { NetworkPolicy, getNetworkStartOptions } from './networkPolicy';
+import { trimJSONSingleObject } from './utils/trimJSON';
+
+/**
+ * How the result of a best-of-N task is chosen among its candidates
+ */
+export enum SelectionStrategy {
+    /**
+     * The successful candidate with the smallest diff for which the test command passes
+     */
+    TESTS_PASS = 'tests-pass',
+
+    /**
+     * The successful candidate with the smallest diff
+     */
+    SMALLEST_DIFF = 'smallest-diff',
+
+    /**
+     * The successful candidate a reviewer agent votes for
+     */
+    REVIEWER_VOTE = 'reviewer-vote',
+}
+
+/**
+ * Configuration of best-of-N solving, where several attempts solve the same task
+ * in parallel containers and one of them is selected
+ */
+export interface BestOfNConfig {
+    /**
+     * Number of attempts per task, at least 2
+     */
+    attempts: number;
+
+    /**
+     * Agent types of the attempts, used in turn. When not set, every attempt uses
+     * the agent assigned to the task, and the attempts differ only by the agent's own randomness.
+     */
+    agentTypes?: string[];
+
+    /**
+     * Only tasks with at least this priority are solved best-of-N
+     * @default every task
+     */
+    minPriority?: number;
+
+    /**
+     * How the result is chosen
+     * @default SelectionStrategy.SMALLEST_DIFF
+     */
+    strategy?: SelectionStrategy;
+
+    /**
+     * Command run in the repository of each attempt for SelectionStrategy.TESTS_PASS, e.g. "npm test"
+     */
+    testCommand?: string;
+
+    /**
+     * Agent type of the reviewer for SelectionStrategy.REVIEWER_VOTE
+     * @default config.agentType
+     */
+    reviewerAgentType?: string;
+}
+
+/**
+ * The selected candidate of a best-of-N task and why it was chosen
+ */
+export interface CandidateSelection {
+    candidate: TaskCandidate;
+    reason: string;
+}
+
+/**
+ * Check whether a task is solved best-of-N
+ * @param config The configuration object
+ * @param task The task
+ * @returns True if config.bestOfN applies to the task
+ */
+export function usesBestOfN(config: Config, task: Task): boolean {
+    const bestOfN = config.bestOfN;
+    if (!bestOfN || bestOfN.attempts < 2) {
+        return false;
+    }
+    return bestOfN.minPriority === undefined || task.priority >= bestOfN.minPriority;
+}
+
+/**
+ * Get the agent type of each attempt of a best-of-N task
+ * @param config The configuration object
+ * @param task The task, with its assigned agent type
+ * @returns One agent type per attempt
+ */
+export function getAttemptAgentTypes(config: Config, task: Task): string[] {
+    const attempts = config.bestOfN?.attempts || 1;
+    const agentTypes = config.bestOfN?.agentTypes?.length
+        ? config.bestOfN.agentTypes
+        : [task.agentType || config.agentType];
+    return Array.from({ length: attempts }, (_, index) => agentTypes[index % agentTypes.length]);
+}
+
+/**
+ * Count the changed lines of a candidate
+ */
+function getDiffSize(candidate: TaskCandidate): number {
+    const diffStat = computeDiffStat(candidate.gitDiff);
+    return diffStat.additions + diffStat.deletions;
+}
+
+/**
+ * Select the successful candidate with the smallest diff. Candidates that changed
+ * nothing are only selected when no candidate changed anything.
+ * @param candidates The candidates of a task
+ * @returns The selection, or undefined if no candidate succeeded
+ */
+export function selectSmallestDiff(candidates: TaskCandidate[]): CandidateSelection | undefined {
+    const successful = candidates.filter(candidate => candidate.status === TaskStatus.SUCCESS);
+    const withChanges = successful.filter(candidate => getDiffSize(candidate) > 0);
+    const pool = withChanges.length > 0 ? withChanges : successful;
+    if (pool.length === 0) {
+        return undefined;
+    }
+
+    const candidate = pool.reduce((smallest, current) => getDiffSize(current) < getDiffSize(smallest) ? current : smallest);
+    return {
+        candidate,
+        reason: `Smallest diff among ${successful.length} successful candidate(s): ${getDiffSize(candidate)} changed line(s)`,
+    };
+}
+
+/**
+ * Select the successful candidate with the smallest diff that passed the tests,
+ * or the one with the smallest diff if no candidate passed
+ * @param candidates The candidates of a task, with testsPassed set
+ * @returns The selection, or undefined if no candidate succeeded
+ */
+export function selectTestsPass(candidates: TaskCandidate[]): CandidateSelection | undefined {
+    const passing = candidates.filter(candidate => candidate.testsPassed);
+    const selection = selectSmallestDiff(passing);
+    if (selection) {
+        return {
+            candidate: selection.candidate,
+            reason: `Tests passed for ${passing.length} candidate(s); ${selection.reason.charAt(0).toLowerCase()}${selection.reason.slice(1)}`,
+        };
+    }
+
+    const fallback = selectSmallestDiff(candidates);
+    return fallback && { candidate: fallback.candidate, reason: `No candidate passed the tests. ${fallback.reason}` };
+}
+
+/**
+ * Parse the decision of the reviewer agent
+ * @param output The content of the reviewer's final report
+ * @param candidates The candidates the reviewer chose from
+ * @returns The selection
+ * @throws Error if the output is not valid JSON or names no successful candidate
+ */
+export function parseReviewerVote(output: string, candidates: TaskCandidate[]): CandidateSelection {
+    const { winner, reason } = JSON.parse(trimJSONSingleObject(output));
+    const candidate = candidates.find(current => current.attemptId === winner && current.status === TaskStatus.SUCCESS);
+    if (!candidate) {
+        throw new Error(`Reviewer voted for ${winner}, which is not a successful candidate`);
+    }
+    return { candidate, reason: `Reviewer vote: ${reason || 'no reason given'}` };
+}
+
+/**
+ * BestOfNSolver solves a task with several attempts in parallel containers and selects
+ * one of their results. It has the same solve/getResult interface as TaskSolver.
+ */
+export class BestOfNSolver {
+    private config: Config;
+    private task: Task;
+    private gitURL: string;
+    private createSolver: TaskSolverFactory;
+    private taskResult: TaskResult;
+
+    /**
+     * @param config The configuration object, with bestOfN set
+     * @param task The task, with its assigned agent type
+     * @param gitURL The git remote URL the attempts clone
+     * @param createSolver Creates the TaskSolver of each attempt
+     */
+    constructor(config: Config, task: Task, gitURL: string, createSolver: TaskSolverFactory = createTaskSolver) {
+        this.config = config;
+        this.task = task;
+        this.gitURL = gitURL;
+        this.createSolver = createSolver;
+        this.taskResult = {
+            ...task,
+            status: TaskStatus.NOT_STARTED,
+            report: '',
+            completedAt: 0,
+        };
+    }
+
+    /**
+     * Run all attempts, then select the result of the task
+     */
+    async solve(): Promise<void> {
+        const agentTypes = getAttemptAgentTypes(this.config, this.task);
+        console.log(`Solving task ${this.task.ID} best-of-${agentTypes.length} with agents ${agentTypes.join(', ')}`);
+
+        const candidates = await Promise.all(agentTypes.map((agentType, index) => this.runAttempt(`attempt-${index + 1}`, agentType)));
+        const selection = await this.selectCandidate(candidates);
+
+        if (!selection) {
+            this.taskResult = {
+                ...this.taskResult,
+                status: TaskStatus.FAILURE,
+                report: `None of the ${candidates.length} attempts succeeded:\n` +
+                    candidates.map(candidate => `- ${candidate.attemptId} (${candidate.agentType}): ${candidate.report}`).join('\n'),
+                completedAt: Date.now(),
+                candidates,
+            };
+            return;
+        }
+
+        selection.candidate.selected = true;
+        console.log(`Selected ${selection.candidate.attemptId} of task ${this.task.ID}: ${selection.reason}`);
+        this.taskResult = {
+            ...this.taskResult,
+            agentType: selection.candidate.agentType,
+            status: selection.candidate.status,
+            report: selection.candidate.report,
+            gitDiff: selection.candidate.gitDiff,
+            completedAt: Date.now(),
+            candidates,
+            selectionReason: selection.reason,
+        };
+    }
+
+    /**
+     * Returns the result of the task, the selected candidate with all candidates attached
+     */
+    getResult(): TaskResult {
+        return this.taskResult;
+    }
+
+    /**
+     * Solve the task once in its own container
+     */
+    private async runAttempt(attemptId: string, agentType: string): Promise<TaskCandidate> {
+        // the task ID names the container, so every attempt needs its own
+        const attemptTask: Task = { ...this.task, ID: `${this.task.ID}-${attemptId}`, agentType };
+        const taskSolver = this.createSolver(this.config, attemptTask, agentType, this.gitURL);
+        const testCommand = this.config.bestOfN?.strategy === SelectionStrategy.TESTS_PASS
+            ? this.config.bestOfN.testCommand
+            : undefined;
+
+        try {
+            await taskSolver.solve(!testCommand);
+            const result = taskSolver.getResult();
+            const candidate: TaskCandidate = {
+                attemptId,
+                agentType,
+                status: result.status,
+                report: result.report,
+                gitDiff: result.gitDiff,
+                selected: false,
+            };
+            if (testCommand && result.status === TaskStatus.SUCCESS && !this.config.dryRun) {
+                candidate.testsPassed = await taskSolver.runCommandInRepository(testCommand);
+            }
+            return candidate;
+        } catch (error) {
+            console.error(`Error in ${attemptId} of task ${this.task.ID}:`, error);
+            return {
+                attemptId,
+                agentType,
+                status: TaskStatus.FAILURE,
+                report: `Error solving task: ${error instanceof Error ? error.message : String(error)}`,
+                selected: false,
+            };
+        } finally {
+            if (testCommand) {
+                await taskSolver.shutdown();
+            }
+        }
+    }
+
+    /**
+     * Select a candidate with the configured strategy
+     */
+    private async selectCandidate(candidates: TaskCandidate[]): Promise<CandidateSelection | undefined> {
+        switch (this.config.bestOfN?.strategy) {
+            case SelectionStrategy.TESTS_PASS:
+                return selectTestsPass(candidates);
+            case SelectionStrategy.REVIEWER_VOTE:
+                if (candidates.filter(candidate => candidate.status === TaskStatus.SUCCESS).length < 2) {
+                    return selectSmallestDiff(candidates);
+                }
+                try {
+                    return await this.runReviewerVote(candidates);
+                } catch (error) {
+                    console.warn(`Reviewer vote for task ${this.task.ID} failed, selecting the smallest diff: ${error instanceof Error ? error.message : String(error)}`);
+                    return selectSmallestDiff(candidates);
+                }
+            case SelectionStrategy.SMALLEST_DIFF:
+            default:
+                return selectSmallestDiff(candidates);
+        }
+    }
+
+    /**
+     * Ask a reviewer agent which candidate is best. The reviewer runs like a task solver,
+     * with the candidates in its prompt, and writes its vote to the final report path.
+     */
+    private async runReviewerVote(candidates: TaskCandidate[]): Promise<CandidateSelection> {
+        const reviewerAgentType = this.config.bestOfN?.reviewerAgentType || this.config.agentType;
+        const successful = candidates.filter(candidate => candidate.status === TaskStatus.SUCCESS);
+        const docker = new DockerInstance({ dryRun: this.config.dryRun, secrets: getConfigSecrets(this.config), runtime: getContainerRuntime(this.config) });
+        const timeoutSeconds = this.config.dockerTimeoutSeconds ? this.config.dockerTimeoutSeconds : 0;
+
+        await sweAgentAdapterRegistry.loadModules(this.config.agentAdapterModules);
+        const reviewerAdapter = sweAgentAdapterRegistry.get(reviewerAgentType);
+        const reviewerConfig: Config = { ...this.config, agentType: reviewerAgentType };
+        const environment = getAgentEnvironment(reviewerAdapter, reviewerConfig);
+        const agentImage = findAgentImage(reviewerConfig, reviewerAdapter, docker);
+        await docker.startContainer(agentImage || this.config.dockerImageRef || "node:latest", `${this.task.ID}-review`, withGitCredentials(this.config, {
+            environment,
+            resources: getContainerResourceLimits(this.config),
+            ...getNetworkStartOptions(reviewerConfig, reviewerAdapter, this.gitURL),
+        }));
+        try {
+            await setupGitCredentials(docker, this.config);
+            await docker.runCommands(["mkdir -p /app"], timeoutSeconds);
+            const finalReportPath = getAgentOutputPaths(reviewerAdapter).finalReport;
+            await docker.copyFileToContainer(reviewerPrompt(this.task, successful, finalReportPath), TASK_SOLVER_PROMPT_PATH);
+            await copyLocalRepoToContainer(docker, this.config);
+
+            const commands = taskSolverCommands(reviewerAgentType, this.config, this.task, this.gitURL, agentImage !== undefined);
+            const reviewerCommand = commands.pop();
+            commands.push(...getGitCredentialCleanupCommands(this.config));
+            for (const command of commands) {
+                await this.runReviewerCommand(docker, command, timeoutSeconds);
+            }
+            // the reviewer agent runs under the same network policy as the task solvers
+            if (this.config.networkPolicy === NetworkPolicy.NONE) {
+                await docker.isolateNetwork();
+            }
+            if (reviewerCommand) {
+                await this.runReviewerCommand(docker, reviewerCommand, timeoutSeconds);
+            }
+
+            const voteResult = await docker.runCommands([`cat ${finalReportPath}`], timeoutSeconds);
+            if (this.config.dryRun) {
+                return { candidate: successful[0], reason: 'Dry run: the reviewer was not executed' };
+            }
+            if (voteResult.status !== DockerRunStatus.SUCCESS) {
+                throw new Error(`Failed to read the reviewer vote: ${voteResult.error || voteResult.output}`);
+            }
+            return parseReviewerVote(voteResult.output, successful);
+        } finally {
+            await docker.shutdownContainer();
+        }
+    }
+
+    private async runReviewerCommand(docker: DockerInstance, command: string, timeoutSeconds: number): Promise<void> {
+        const result = await docker.runCommandAsync(command, timeoutSeconds);
+        if (result.status !== DockerRunStatus.SUCCESS) {
+            throw new Error(`Reviewer command failed with status ${result.status}`);
+        }
+    }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskStatus, type TaskResult } from './task';
+import type { TaskCommitResult } from './codeCommitter';
+import type { RunReportData } from './runReport';
+import { secretRedactor } from './utils/maskSecrets';
+
+/**
+ * Maximum number or percentage of failed tasks a run may have before the CLI exits with a non-zero code
+ */
+export interface FailureThreshold {
+    /**
+     * Maximum number of failed tasks
+     */
+    maxFailures?: number;
+
+    /**
+     * Maximum percentage (0-100) of failed tasks
+     */
+    maxFailurePercentage?: number;
+}
+
+/**
+ * Exit code of a run whose failed tasks exceed the failure threshold
+ */
+export const FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE = 1;
+
+/**
+ * Get the reason a task counts as failed in CI, if it does.
+ * Besides failed tasks, tasks that never finished and successful tasks whose
+ * changes could not be committed count as failed.
+ * @param taskResult The result of the task
+ * @param commitResult The result of committing the task changes
+ * @returns The failure reason, or undefined if the task did not fail
+ */
+export function getTaskFailureReason(taskResult: TaskResult, commitResult?: TaskCommitResult): string | undefined {
+    switch (taskResult.status) {
+        case TaskStatus.FAILURE:
+            return 'Task failed';
+        case TaskStatus.RESOURCE_EXHAUSTED:
+            return 'Task ran out of memory or disk space';
+        case TaskStatus.NOT_STARTED:
+        case TaskStatus.ONGOING:
+            return `Task did not finish (status: ${taskResult.status})`;
+        case TaskStatus.SUCCESS:
+            if (commitResult && !commitResult.success) {
+                return `Commit failed: ${commitResult.error || 'unknown error'}`;
+            }
+            return undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Count the tasks that failed in CI, see getTaskFailureReason
+ */
+export function countFailedTasks(taskResults: TaskResult[], commitResults: TaskCommitResult[] = []): number {
+    return taskResults.filter(taskResult =>
+        getTaskFailureReason(taskResult, commitResults.find(result => result.taskId === taskResult.ID)) !== undefined
+    ).length;
+}
+
+/**
+ * Parse a failure threshold such as "3" (at most 3 failed tasks) or "25%" (at most 25% failed tasks)
+ * @param value The threshold value
+ * @returns The parsed failure threshold
+ * @throws Error if the value is not a non-negative integer or a percentage between 0 and 100
+ */
+export function parseFailureThreshold(value: string): FailureThreshold {
+    const trimmed = value.trim();
+
+    if (trimmed.endsWith('%')) {
+        const percentage = Number(trimmed.slice(0, -1));
+        if (trimmed.length === 1 || isNaN(percentage) || percentage < 0 || percentage > 100) {
+            throw new Error(`Invalid failure threshold "${value}": percentage must be between 0% and 100%`);
+        }
+        return { maxFailurePercentage: percentage };
+    }
+
+    const maxFailures = Number(trimmed);
+    if (trimmed === '' || !Number.isInteger(maxFailures) || maxFailures < 0) {
+        throw new Error(`Invalid failure threshold "${value}": must be a non-negative integer or a percentage such as 25%`);
+    }
+    return { maxFailures };
+}
+
+/**
+ * Compute the exit code of a run. Without a threshold the run always exits with 0,
+ * otherwise it exits with FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE when the failed tasks exceed the threshold.
+ * @param taskResults The results of all tasks of the run
+ * @param commitResults The results of committing the task changes
+ * @param threshold The failure threshold
+ * @returns The exit code
+ */
+export function computeExitCode(
+    taskResults: TaskResult[],
+    commitResults: TaskCommitResult[] = [],
+    threshold?: FailureThreshold
+): number {
+    if (!threshold) {
+        return 0;
+    }
+
+    const failedTasks = countFailedTasks(taskResults, commitResults);
+    if (threshold.maxFailures !== undefined && failedTasks > threshold.maxFailures) {
+        return FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE;
+    }
+    if (threshold.maxFailurePercentage !== undefined && taskResults.length > 0 &&
+        (failedTasks / taskResults.length) * 100 > threshold.maxFailurePercentage) {
+        return FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE;
+    }
+    return 0;
+}
+
+/**
+ * Escape a value for use in XML text and attributes, dropping characters XML 1.0 does not allow
+ */
+function escapeXml(value: string): string {
+    return value
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render a run as JUnit XML, with one testcase per task, so CI systems can show the outcome
+ * in their test UI. Failed and unfinished tasks and failed commits become failures,
+ * skipped tasks become skipped testcases.
+ * @param data The run report data
+ * @returns The JUnit XML document
+ */
+export function renderJUnitReport(data: RunReportData): string {
+    const suiteName = data.runId ? `full-self-coding ${data.runId}` : 'full-self-coding';
+    const commitResults = data.commitResults || [];
+    let failures = 0;
+    let skipped = 0;
+
+    const testCases = data.taskResults.map(taskResult => {
+        const commitResult = commitResults.find(result => result.taskId === taskResult.ID);
+        const failureReason = getTaskFailureReason(taskResult, commitResult);
+        const lines = [`    <testcase classname="full-self-coding" name="${escapeXml(`${taskResult.ID}: ${taskResult.title}`)}">`];
+
+        if (failureReason) {
+            failures++;
+            lines.push(`      <failure message="${escapeXml(failureReason)}" type="${escapeXml(taskResult.status)}">${escapeXml(taskResult.report || '')}</failure>`);
+        } else if (taskResult.status === TaskStatus.SKIPPED) {
+            skipped++;
+            lines.push(`      <skipped message="${escapeXml(taskResult.report || 'Task skipped')}"/>`);
+        }
+
+        const output = [
+            commitResult?.branchName ? `Branch: ${commitResult.branchName}` : '',
+            commitResult?.commitHash ? `Commit: ${commitResult.commitHash}` : '',
+            taskResult.report || '',
+        ].filter(line => line).join('\n');
+        if (output) {
+            lines.push(`      <system-out>${escapeXml(output)}</system-out>`);
+        }
+
+        lines.push('    </testcase>');
+        return lines.join('\n');
+    });
+
+    const counts = `tests="${data.taskResults.length}" failures="${failures}" errors="0"`;
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(suiteName)}" ${counts}>`,
+        `  <testsuite name="${escapeXml(suiteName)}" ${counts} skipped="${skipped}" timestamp="${new Date(data.generatedAt).toISOString()}">`,
+        ...testCases,
+        '  </testsuite>',
+        '</testsuites>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Write a run as JUnit XML, creating missing parent directories
+ * @param data The run report data
+ * @param filePath Path of the JUnit XML file
+ */
+export function writeJUnitReport(data: RunReportData, filePath: string): void {
+    try {
+        fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        fs.writeFileSync(filePath, secretRedactor.redact(renderJUnitReport(data)), 'utf8');
+    } catch (error) {
+        throw new Error(`Failed to write JUnit report ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
@@ -1,10 +1,11 @@
 import { TaskStatus, type Task, type TaskResult } from './task';
 import { TaskSolver } from './taskSolver';
 import type { Config } from './config';
-import { execSync } from 'child_process';
+import { execSync, spawnSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { dryRunRecorder, formatCommand } from './dryRun';
 
 // ANSI color codes for beautiful terminal output
 const COLORS = {
@@ -33,6 +34,43 @@ export interface GitStateOptions {
   autoCommit?: boolean;
   ignoreUntracked?: boolean;
   backupBranch?: string;
+  /**
+   * Record the git commands that would create the task branches instead of running them
+   */
+  dryRun?: boolean;
+  /**
+   * Branch, tag or commit the task branches are created from, HEAD by default
+   */
+  baseRef?: string;
+  /**
+   * Called right after the changes of a task were committed, e.g. to persist it so a resumed run skips the task
+   */
+  onTaskCommitted?: (commitResult: TaskCommitResult) => void;
+}
+
+/**
+ * Outcome of committing the changes of a single task
+ */
+export interface TaskCommitResult {
+  taskId: string;
+  taskTitle: string;
+  branchName: string;
+  /**
+   * Hash of the commit created on the task branch, if any
+   */
+  commitHash?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of committing the changes of all tasks
+ */
+export interface CommitSummary {
+  totalTasks: number;
+  successfulTasks: number;
+  failedTasks: number;
+  results: TaskCommitResult[];
 }
 
 export class CodeCommitter {
@@ -50,9 +88,17 @@ export class CodeCommitter {
       autoCommit: false,
       ignoreUntracked: false,
       backupBranch: undefined,
+      dryRun: false,
       ...gitStateOptions
     };
-    this.originalGitNode = this.getCurrentGitNode();
+    // a dry run does not touch the repository, which may not even be cloned yet
+    if (this.gitStateOptions.dryRun) {
+      this.originalGitNode = this.gitStateOptions.baseRef || 'HEAD';
+    } else {
+      this.originalGitNode = this.gitStateOptions.baseRef
+        ? this.resolveGitNode(this.gitStateOptions.baseRef)
+        : this.getCurrentGitNode();
+    }
   }
 
   /**
@@ -69,6 +115,21 @@ export class CodeCommitter {
     }
   }
 
+  /**
+   * Get the commit hash of a branch, tag or commit
+   */
+  private resolveGitNode(ref: string): string {
+    // the ref comes from the configuration, pass it as an argument so the shell never interprets it
+    const result = spawnSync('git', ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`], {
+      cwd: this.gitRepoPath,
+      encoding: 'utf8'
+    });
+    if (result.error || result.status !== 0) {
+      throw new Error(`Failed to resolve git ref ${ref}: ${result.error ? result.error.message : result.stderr.trim()}`);
+    }
+    return result.stdout.trim();
+  }
+
   /**
    * Create a new branch from the original git node
    */
@@ -454,10 +515,11 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
   /**
    * Process a single task result: create branch, apply diff, commit, return to original node
    */
-  private async processTaskResult(taskResult: TaskResult): Promise<{ success: boolean; branchName: string; error?: string }> {
+  private async processTaskResult(taskResult: TaskResult): Promise<{ success: boolean; branchName: string; commitHash?: string; error?: string }> {
     const result = {
       success: false,
       branchName: '',
+      commitHash: undefined as string | undefined,
       error: undefined as string | undefined
     };
 
@@ -465,6 +527,13 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
       // Validate task result
       this.validateTaskResult(taskResult);
 
+      // In a dry run the agents never ran, so there are no diffs; record the commands with a placeholder diff
+      if (this.gitStateOptions.dryRun) {
+        result.branchName = this.recordDryRunCommands(taskResult);
+        result.success = true;
+        return result;
+      }
+
       // Skip if no git diff to apply
       if (!taskResult.gitDiff || taskResult.gitDiff.trim() === '') {
         console.log(`Skipping task ${taskResult.ID}: No git diff provided`);
@@ -489,6 +558,7 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
 
       // Commit changes
       this.commitChanges(taskResult);
+      result.commitHash = this.getCurrentGitNode();
 
       // Return to original node
       this.returnToOriginalNode();
@@ -510,21 +580,27 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
     return result;
   }
 
+  /**
+   * Record the git commands processTaskResult would run for a task, without touching any branch
+   * @returns The name of the branch that would have been created
+   */
+  private recordDryRunCommands(taskResult: TaskResult): string {
+    const branchName = `task-${taskResult.ID}-${Date.now()}`;
+
+    dryRunRecorder.record('git', formatCommand(['git', 'checkout', this.originalGitNode]));
+    dryRunRecorder.record('git', formatCommand(['git', 'checkout', '-b', branchName]));
+    dryRunRecorder.record('git', formatCommand(['git', 'apply', '--whitespace=fix', `<git diff of task ${taskResult.ID}>`]));
+    dryRunRecorder.record('git', formatCommand(['git', 'add', '-A']));
+    dryRunRecorder.record('git', formatCommand(['git', 'commit', '-m', this.createCommitMessage(taskResult)]));
+    dryRunRecorder.record('git', formatCommand(['git', 'checkout', this.originalGitNode]));
+
+    return branchName;
+  }
+
   /**
    * Generate a beautiful, colorful final report with all task information
    */
-  private generateFinalReport(summary: {
-    totalTasks: number;
-    successfulTasks: number;
-    failedTasks: number;
-    results: Array<{
-      taskId: string;
-      taskTitle: string;
-      branchName: string;
-      success: boolean;
-      error?: string;
-    }>;
-  }): void {
+  private generateFinalReport(summary: CommitSummary): void {
     // Get terminal width for responsive layout
     const getTerminalWidth = (): number => {
       try {
@@ -842,19 +918,8 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
    * 4. Commit the changes
    * 5. Switch back to original git node
    */
-  public async commitAllChanges(): Promise<{
-    totalTasks: number;
-    successfulTasks: number;
-    failedTasks: number;
-    results: Array<{
-      taskId: string;
-      taskTitle: string;
-      branchName: string;
-      success: boolean;
-      error?: string;
-    }>;
-  }> {
-    const results = [];
+  public async commitAllChanges(): Promise<CommitSummary> {
+    const results: TaskCommitResult[] = [];
     let successfulTasks = 0;
     let failedTasks = 0;
 
@@ -866,16 +931,19 @@ ${backupBranch ? `Backup branch created: ${backupBranch}` : ''}`;
 
       const processResult = await this.processTaskResult(taskResult);
 
-      results.push({
+      const commitResult: TaskCommitResult = {
         taskId: taskResult.ID,
         taskTitle: taskResult.title,
         branchName: processResult.branchName,
+        commitHash: processResult.commitHash,
         success: processResult.success,
         error: processResult.error
-      });
+      };
+      results.push(commitResult);
 
       if (processResult.success) {
         successfulTasks++;
+        this.gitStateOptions.onTaskCommitted?.(commitResult);
       } else {
         failedTasks++;
         console.error(`Failed to process task ${taskResult.ID}: ${processResult.error}`);
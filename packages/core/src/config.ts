@@ -1,4 +1,14 @@
 import {WorkStyle} from './workStyle';
+import {RepoSource} from './repoSource';
+import type { CustomAgentConfig } from './SWEAgent/customAgentCommands';
+import type { AgentPhaseModels } from './SWEAgent/agentModel';
+import type { AgentRoutingRule } from './agentRouter';
+import type { BestOfNConfig } from './bestOfN';
+import type { RetryPolicy } from './retryPolicy';
+import type { GitCredentialStrategy } from './gitCredentials';
+import type { NetworkPolicy } from './networkPolicy';
+import type { ContainerPoolConfig } from './containerPool';
+import type { ContainerRuntimeType } from './containerRuntime';
 
 /**
  * Available types of Software Engineering agents
@@ -8,6 +18,8 @@ export enum SWEAgentType {
     CLAUDE_CODE = 'claude-code',
     CODEX = 'codex',
     CURSOR = 'cursor',
+    AIDER = 'aider',
+    CUSTOM = 'custom',
 }
 
 /**
@@ -15,19 +27,20 @@ export enum SWEAgentType {
  */
 export interface Config {
     /**
-     * The type of Software Engineering agent to use
+     * The type of Software Engineering agent to use, a built-in SWEAgentType
+     * or the agentType of an adapter loaded from agentAdapterModules
      */
-    agentType: SWEAgentType;
+    agentType: SWEAgentType | string;
 
     /**
      * Optional API key configuration for the agent.
      * Any of the following fields provided, the agent will use it for exporting API keys.
-     * For example, if googleGeminiApiKey is provided, the agent will export it as an environment variable.
-     * The docker container will have access to these environment variables,
-     * and run the commands with the API keys, for example,
+     * For example, if googleGeminiApiKey is provided, the agent container is started with it
+     * as an environment variable, passed by name to `docker run`:
      * 
-     * export GEMINI_API_KEY=your-google-gemini-api-key
+     * docker run -e GEMINI_API_KEY ...
      * 
+     * so the key never shows up in the agent commands or their output.
      * If none are provided, and the APIKeyExportNeeded is set to false,
      * the agent will not import any API keys.
      */
@@ -61,6 +74,12 @@ export interface Config {
     cursorAPIKey?: string; 
     cursorAPIKeyExportNeeded?:boolean;
 
+    /**
+     * Further secret values, e.g. tokens used by the project's own tooling.
+     * Like the API keys above, they are masked in logs, command output, task reports and saved reports.
+     */
+    extraSecrets?: string[];
+
     /**
      * Maximum number of Docker containers that can run locally
      * @default 5 if not specified
@@ -74,6 +93,32 @@ export interface Config {
      */
     dockerImageRef?: string;
 
+    /**
+     * Container runtime the containers run with: docker, podman or nerdctl
+     * @default ContainerRuntimeType.DOCKER
+     */
+    containerRuntime?: ContainerRuntimeType;
+
+    /**
+     * Path of the container runtime executable
+     * @default the name of containerRuntime, looked up in PATH
+     */
+    containerRuntimePath?: string;
+
+    /**
+     * Whether the runtime runs rootless. A rootless Docker daemon is reached on the socket of the user
+     * unless containerRuntimeHost is set, and disk quotas are not enforced.
+     * @default false for docker, true for podman and nerdctl when not running as root
+     */
+    containerRuntimeRootless?: boolean;
+
+    /**
+     * Address of the container engine: DOCKER_HOST for docker, the Podman service used with
+     * `podman --remote` for podman, CONTAINERD_ADDRESS for nerdctl
+     * @example "unix:///run/user/1000/docker.sock"
+     */
+    containerRuntimeHost?: string;
+
     /**
      * Max number of docker containers that can run in parallel
      * @default 2 if not specified
@@ -100,16 +145,61 @@ export interface Config {
 
     /**
      * Max amount of memory (in MB) that each Docker container can use
-     * @default 512 if not specified
+     * @default no limit
      */
     dockerMemoryMB?: number;
 
     /**
      * Number of CPU cores to assign to each Docker container
-     * @default 1 if not specified
+     * @default no limit
      */
     dockerCpuCores?: number;
 
+    /**
+     * Maximum number of processes and threads in each Docker container
+     * @default no limit
+     */
+    dockerPidsLimit?: number;
+
+    /**
+     * Size limit (in GB) of the writable layer of each Docker container.
+     * Only supported by some storage drivers, e.g. overlay2 on XFS with project quotas.
+     * @default no limit
+     */
+    dockerDiskQuotaGB?: number;
+
+    /**
+     * Start the containers from the prebuilt image of their agent, built with
+     * `full-self-coding image build`, when it exists, skipping the tool and agent installs
+     * @default true
+     */
+    useAgentImages?: boolean;
+
+    /**
+     * Keep warm containers with the repository cloned and the project dependencies installed,
+     * started from a snapshot, so each task gets a fresh container without the setup wait
+     */
+    containerPool?: ContainerPoolConfig;
+
+    /**
+     * What the solver containers can reach on the network: everything, only the hosts
+     * of an allow-list through an egress proxy, or nothing once the setup is done
+     * @default NetworkPolicy.FULL
+     */
+    networkPolicy?: NetworkPolicy;
+
+    /**
+     * Hosts allowed under the allow-list network policy, on top of the package registries,
+     * the hosts of the agent and the git host. "*.example.com" allows every subdomain.
+     */
+    networkAllowList?: string[];
+
+    /**
+     * Image of the egress proxy container of the allow-list network policy, it needs node
+     * @default "node:latest"
+     */
+    networkProxyImage?: string;
+
     /**
      * work style of the agent
      * @default 'default' if not specified
@@ -142,13 +232,36 @@ export interface Config {
     customizedMessage?: string;
 
     /**
-     * use Github ssh instead of https.
-     * If you want to access to your private repositories, 
-     * you must set this to true, and have set up ssh keys for Github.
-     * This is the only way to access and git clone your private repositories.
+     * use ssh instead of https for the git remote.
+     * To clone private repositories over ssh, set this to true and
+     * set gitCredentialStrategy to deploy-key or ssh-agent.
+     * Works for GitHub, GitLab, Gitea and any other host.
      */
     useGithubSSH?: boolean;
 
+    /**
+     * How the containers authenticate to the git host: none, a single deploy key,
+     * the ssh-agent of the host or an HTTPS token. Nothing else from ~/.ssh is copied.
+     * @default GitCredentialStrategy.NONE
+     */
+    gitCredentialStrategy?: GitCredentialStrategy;
+
+    /**
+     * Path of the private SSH key used by the deploy-key strategy, ideally a read-only deploy key of the repository
+     */
+    gitDeployKeyPath?: string;
+
+    /**
+     * Token used by the https-token strategy, e.g. a fine-grained GitHub token
+     */
+    gitHttpsToken?: string;
+
+    /**
+     * User name sent with the token by the https-token strategy
+     * @default "x-access-token"
+     */
+    gitHttpsUsername?: string;
+
     /**
      * special instructions for task solver
      */
@@ -158,6 +271,121 @@ export interface Config {
      * special instructions for code analyzer
      */
     specialInstructionsForCodeAnalyzer?: string;
+
+    /**
+     * Directory where reports, logs and run state are written.
+     * @default $XDG_STATE_HOME/full-self-coding (~/.local/state/full-self-coding) on Linux,
+     * ~/Library/Logs/full-self-coding on macOS, %LOCALAPPDATA%\full-self-coding on Windows
+     */
+    outputDirectory?: string;
+
+    /**
+     * Record the docker and git commands that would be issued, with secrets masked,
+     * instead of starting containers or touching branches
+     * @default false
+     */
+    dryRun?: boolean;
+
+    /**
+     * Where the containers get the repository from: clone the git remote URL,
+     * or copy the local checkout in as a git bundle
+     * @default RepoSource.REMOTE
+     */
+    repoSource?: RepoSource;
+
+    /**
+     * Path of the local checkout used when repoSource is local
+     * @default the current working directory
+     */
+    localRepoPath?: string;
+
+    /**
+     * Commit, branch or tag of the local checkout used when repoSource is local
+     * @default gitRef, or HEAD
+     */
+    localRepoCommit?: string;
+
+    /**
+     * URL of the repository to work on, instead of the origin remote of the current directory
+     */
+    repoUrl?: string;
+
+    /**
+     * Branch, tag or commit checked out after cloning the repository
+     * @default the default branch of the remote
+     */
+    gitRef?: string;
+
+    /**
+     * Local clone the results are committed to. It is cloned from the repository URL
+     * if it does not exist yet.
+     * @default the current directory, or <run directory>/repo when repoUrl is set
+     */
+    localClonePath?: string;
+
+    /**
+     * Name of the git remote whose URL is used when repoUrl is not set
+     * @default origin
+     */
+    gitRemoteName?: string;
+
+    /**
+     * Paths of modules that export SWE agent adapters, as their default export or as "adapters".
+     * The adapters are registered before the analyzer and the task solvers run,
+     * so agentType can name an agent that is not built in.
+     */
+    agentAdapterModules?: string[];
+
+    /**
+     * Install commands and command line templates of the CLI run when agentType is custom.
+     * The templates can use the {{promptPath}}, {{repoPath}} and {{model}} placeholders.
+     */
+    customAgent?: CustomAgentConfig;
+
+    /**
+     * Model of the analyzer, passed to the agent CLI with its model flag
+     * @default the default model of the agent CLI
+     */
+    analyzerModel?: string;
+
+    /**
+     * Model of the task solver, passed to the agent CLI with its model flag
+     * @default the default model of the agent CLI
+     */
+    solverModel?: string;
+
+    /**
+     * Models per agent type and phase, e.g. { "codex": { "solver": "gpt-5" } }.
+     * They take precedence over analyzerModel and solverModel.
+     */
+    agentModels?: Record<string, AgentPhaseModels>;
+
+    /**
+     * Rules that assign agents to tasks by label or priority. The first matching rule
+     * is used for tasks that do not name an agentType themselves.
+     */
+    agentRoutingRules?: AgentRoutingRule[];
+
+    /**
+     * Agent types assigned in turn to the tasks that neither name an agentType
+     * nor match a routing rule, e.g. to compare agents or spread API quota
+     * @default config.agentType for every task
+     */
+    roundRobinAgentTypes?: string[];
+
+    /**
+     * Solve tasks several times in parallel containers and keep the best attempt.
+     * All attempts are kept in the task result, so the choice can be overridden.
+     * @default every task is solved once
+     */
+    bestOfN?: BestOfNConfig;
+
+    /**
+     * Retry failed tasks in a fresh container, with the report and error output
+     * of the previous attempts in the task solver prompt
+     * @default every task is attempted once
+     */
+    retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -171,8 +399,6 @@ export const DEFAULT_CONFIG: Config = {
     dockerTimeoutSeconds: 300000,
     maxTasks: 10,
     minTasks: 1,
-    dockerMemoryMB: 512,
-    dockerCpuCores: 1,
     workStyle: WorkStyle.DEFAULT,
     codingStyleLevel: 0,
 };
@@ -2,8 +2,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import type { Config } from './config';
-import { SWEAgentType, DEFAULT_CONFIG, createConfig } from './config';
+import { DEFAULT_CONFIG, createConfig } from './config';
 import { WorkStyle } from './workStyle';
+import { RepoSource } from './repoSource';
+import { sweAgentAdapterRegistry } from './SWEAgent/SWEAgentAdapterRegistry';
+import { SelectionStrategy } from './bestOfN';
+import { RetryCondition } from './retryPolicy';
+import { GitCredentialStrategy } from './gitCredentials';
+import { NetworkPolicy } from './networkPolicy';
+import { ContainerRuntimeType } from './containerRuntime';
 
 export interface ConfigReaderOptions {
     /**
@@ -157,10 +164,157 @@ export class ConfigReader {
     private validateConfig(config: Partial<Config>): Partial<Config> {
         const validatedConfig: Partial<Config> = { ...config };
 
+        // Validate agentAdapterModules if provided
+        if (validatedConfig.agentAdapterModules !== undefined) {
+            if (!Array.isArray(validatedConfig.agentAdapterModules) ||
+                !validatedConfig.agentAdapterModules.every(modulePath => typeof modulePath === 'string' && modulePath.trim() !== '')) {
+                throw new Error('agentAdapterModules must be an array of module paths');
+            }
+        }
+
+        // Validate extraSecrets if provided
+        if (validatedConfig.extraSecrets !== undefined &&
+            (!Array.isArray(validatedConfig.extraSecrets) || !validatedConfig.extraSecrets.every(secret => typeof secret === 'string'))) {
+            throw new Error('extraSecrets must be an array of strings');
+        }
+
+        // Validate customAgent if provided
+        if (validatedConfig.customAgent !== undefined) {
+            const customAgent = validatedConfig.customAgent;
+            if (!customAgent || typeof customAgent !== 'object') {
+                throw new Error('customAgent must be an object');
+            }
+            for (const fieldName of ['analyzerCommand', 'solverCommand'] as const) {
+                if (typeof customAgent[fieldName] !== 'string' || customAgent[fieldName].trim() === '') {
+                    throw new Error(`customAgent.${fieldName} must be a non-empty string`);
+                }
+            }
+            if (customAgent.installCommands !== undefined &&
+                (!Array.isArray(customAgent.installCommands) || !customAgent.installCommands.every(command => typeof command === 'string'))) {
+                throw new Error('customAgent.installCommands must be an array of commands');
+            }
+            if (customAgent.model !== undefined && typeof customAgent.model !== 'string') {
+                throw new Error('customAgent.model must be a string');
+            }
+            if (customAgent.environment !== undefined &&
+                (typeof customAgent.environment !== 'object' || customAgent.environment === null ||
+                    !Object.values(customAgent.environment).every(value => typeof value === 'string'))) {
+                throw new Error('customAgent.environment must be an object of string values');
+            }
+        }
+
         // Validate agentType (required field)
         if (validatedConfig.agentType) {
-            if (!Object.values(SWEAgentType).includes(validatedConfig.agentType)) {
-                throw new Error(`Invalid agentType: ${validatedConfig.agentType}. Must be one of: ${Object.values(SWEAgentType).join(', ')}`);
+            this.validateAgentType(validatedConfig, validatedConfig.agentType, 'agentType');
+        }
+
+        // Validate agentRoutingRules if provided
+        if (validatedConfig.agentRoutingRules !== undefined) {
+            if (!Array.isArray(validatedConfig.agentRoutingRules)) {
+                throw new Error('agentRoutingRules must be an array of rules');
+            }
+            validatedConfig.agentRoutingRules.forEach((rule, index) => {
+                if (!rule || typeof rule !== 'object' || typeof rule.agentType !== 'string') {
+                    throw new Error(`agentRoutingRules[${index}] must be an object with a string field "agentType"`);
+                }
+                this.validateAgentType(validatedConfig, rule.agentType, `agentRoutingRules[${index}].agentType`);
+                if (rule.labels !== undefined && (!Array.isArray(rule.labels) || !rule.labels.every(label => typeof label === 'string'))) {
+                    throw new Error(`agentRoutingRules[${index}].labels must be an array of strings`);
+                }
+                for (const fieldName of ['minPriority', 'maxPriority'] as const) {
+                    if (rule[fieldName] !== undefined && !Number.isInteger(rule[fieldName])) {
+                        throw new Error(`agentRoutingRules[${index}].${fieldName} must be an integer`);
+                    }
+                }
+            });
+        }
+
+        // Validate roundRobinAgentTypes if provided
+        if (validatedConfig.roundRobinAgentTypes !== undefined) {
+            if (!Array.isArray(validatedConfig.roundRobinAgentTypes)) {
+                throw new Error('roundRobinAgentTypes must be an array of agent types');
+            }
+            validatedConfig.roundRobinAgentTypes.forEach((agentType, index) => {
+                this.validateAgentType(validatedConfig, agentType, `roundRobinAgentTypes[${index}]`);
+            });
+        }
+
+        // Validate bestOfN if provided
+        if (validatedConfig.bestOfN !== undefined) {
+            const bestOfN = validatedConfig.bestOfN;
+            if (typeof bestOfN !== 'object' || bestOfN === null) {
+                throw new Error('bestOfN must be an object');
+            }
+            if (!Number.isInteger(bestOfN.attempts) || bestOfN.attempts < 2 || bestOfN.attempts > 10) {
+                throw new Error('bestOfN.attempts must be an integer between 2 and 10');
+            }
+            if (bestOfN.agentTypes !== undefined) {
+                if (!Array.isArray(bestOfN.agentTypes)) {
+                    throw new Error('bestOfN.agentTypes must be an array of agent types');
+                }
+                bestOfN.agentTypes.forEach((agentType, index) => {
+                    this.validateAgentType(validatedConfig, agentType, `bestOfN.agentTypes[${index}]`);
+                });
+            }
+            if (bestOfN.minPriority !== undefined && !Number.isInteger(bestOfN.minPriority)) {
+                throw new Error('bestOfN.minPriority must be an integer');
+            }
+            if (bestOfN.strategy !== undefined && !Object.values(SelectionStrategy).includes(bestOfN.strategy)) {
+                throw new Error(`Invalid bestOfN.strategy: ${bestOfN.strategy}. Must be one of: ${Object.values(SelectionStrategy).join(', ')}`);
+            }
+            if (bestOfN.strategy === SelectionStrategy.TESTS_PASS && (typeof bestOfN.testCommand !== 'string' || bestOfN.testCommand.trim() === '')) {
+                throw new Error(`bestOfN.testCommand must be provided when bestOfN.strategy is ${SelectionStrategy.TESTS_PASS}`);
+            }
+            if (bestOfN.reviewerAgentType !== undefined) {
+                this.validateAgentType(validatedConfig, bestOfN.reviewerAgentType, 'bestOfN.reviewerAgentType');
+            }
+        }
+
+        // Validate containerPool if provided
+        if (validatedConfig.containerPool !== undefined) {
+            const containerPool = validatedConfig.containerPool;
+            if (typeof containerPool !== 'object' || containerPool === null) {
+                throw new Error('containerPool must be an object');
+            }
+            if (containerPool.size !== undefined && (!Number.isInteger(containerPool.size) || containerPool.size < 1 || containerPool.size > 100)) {
+                throw new Error('containerPool.size must be an integer between 1 and 100');
+            }
+            if (containerPool.installCommand !== undefined && (typeof containerPool.installCommand !== 'string' || containerPool.installCommand.trim() === '')) {
+                throw new Error('containerPool.installCommand must be a non-empty string');
+            }
+        }
+
+        // Validate retryPolicy if provided
+        if (validatedConfig.retryPolicy !== undefined) {
+            const retryPolicy = validatedConfig.retryPolicy;
+            if (typeof retryPolicy !== 'object' || retryPolicy === null) {
+                throw new Error('retryPolicy must be an object');
+            }
+            if (!Number.isInteger(retryPolicy.maxAttempts) || retryPolicy.maxAttempts < 1 || retryPolicy.maxAttempts > 10) {
+                throw new Error('retryPolicy.maxAttempts must be an integer between 1 and 10');
+            }
+            if (retryPolicy.backoffSeconds !== undefined && (typeof retryPolicy.backoffSeconds !== 'number' || retryPolicy.backoffSeconds < 0)) {
+                throw new Error('retryPolicy.backoffSeconds must be a non-negative number');
+            }
+            if (retryPolicy.backoffMultiplier !== undefined && (typeof retryPolicy.backoffMultiplier !== 'number' || retryPolicy.backoffMultiplier < 1)) {
+                throw new Error('retryPolicy.backoffMultiplier must be a number of at least 1');
+            }
+            if (retryPolicy.retryOn !== undefined) {
+                if (!Array.isArray(retryPolicy.retryOn) || !retryPolicy.retryOn.every(condition => Object.values(RetryCondition).includes(condition))) {
+                    throw new Error(`retryPolicy.retryOn must be an array of: ${Object.values(RetryCondition).join(', ')}`);
+                }
+            }
+            if (retryPolicy.errorPatterns !== undefined) {
+                if (!Array.isArray(retryPolicy.errorPatterns)) {
+                    throw new Error('retryPolicy.errorPatterns must be an array of regular expressions');
+                }
+                retryPolicy.errorPatterns.forEach((pattern, index) => {
+                    try {
+                        new RegExp(pattern);
+                    } catch (error) {
+                        throw new Error(`Invalid retryPolicy.errorPatterns[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                });
             }
         }
 
@@ -171,6 +325,60 @@ export class ConfigReader {
             }
         }
 
+        // Validate repoSource if provided
+        if (validatedConfig.repoSource) {
+            if (!Object.values(RepoSource).includes(validatedConfig.repoSource)) {
+                throw new Error(`Invalid repoSource: ${validatedConfig.repoSource}. Must be one of: ${Object.values(RepoSource).join(', ')}`);
+            }
+        }
+
+        // Validate networkPolicy if provided
+        if (validatedConfig.networkPolicy) {
+            if (!Object.values(NetworkPolicy).includes(validatedConfig.networkPolicy)) {
+                throw new Error(`Invalid networkPolicy: ${validatedConfig.networkPolicy}. Must be one of: ${Object.values(NetworkPolicy).join(', ')}`);
+            }
+        }
+
+        // Validate containerRuntime if provided
+        if (validatedConfig.containerRuntime) {
+            if (!Object.values(ContainerRuntimeType).includes(validatedConfig.containerRuntime)) {
+                throw new Error(`Invalid containerRuntime: ${validatedConfig.containerRuntime}. Must be one of: ${Object.values(ContainerRuntimeType).join(', ')}`);
+            }
+            // nerdctl cannot disconnect a running container from its network
+            if (validatedConfig.containerRuntime === ContainerRuntimeType.NERDCTL && validatedConfig.networkPolicy === NetworkPolicy.NONE) {
+                throw new Error(`networkPolicy ${NetworkPolicy.NONE} is not supported with containerRuntime ${ContainerRuntimeType.NERDCTL}`);
+            }
+        }
+        for (const field of ['containerRuntimePath', 'containerRuntimeHost'] as const) {
+            if (validatedConfig[field] !== undefined && (typeof validatedConfig[field] !== 'string' || validatedConfig[field].trim() === '')) {
+                throw new Error(`${field} must be a non-empty string`);
+            }
+        }
+
+        // Validate networkAllowList if provided
+        if (validatedConfig.networkAllowList !== undefined &&
+            (!Array.isArray(validatedConfig.networkAllowList) || !validatedConfig.networkAllowList.every(host => typeof host === 'string' && /^(\*\.)?[A-Za-z0-9.-]+$/.test(host)))) {
+            throw new Error('networkAllowList must be an array of host names, e.g. "api.example.com" or "*.example.com"');
+        }
+
+        // Validate gitCredentialStrategy if provided
+        if (validatedConfig.gitCredentialStrategy) {
+            if (!Object.values(GitCredentialStrategy).includes(validatedConfig.gitCredentialStrategy)) {
+                throw new Error(`Invalid gitCredentialStrategy: ${validatedConfig.gitCredentialStrategy}. Must be one of: ${Object.values(GitCredentialStrategy).join(', ')}`);
+            }
+            if (validatedConfig.gitCredentialStrategy === GitCredentialStrategy.DEPLOY_KEY && !validatedConfig.gitDeployKeyPath) {
+                throw new Error(`gitDeployKeyPath is required when gitCredentialStrategy is ${GitCredentialStrategy.DEPLOY_KEY}`);
+            }
+            if (validatedConfig.gitCredentialStrategy === GitCredentialStrategy.HTTPS_TOKEN && !validatedConfig.gitHttpsToken) {
+                throw new Error(`gitHttpsToken is required when gitCredentialStrategy is ${GitCredentialStrategy.HTTPS_TOKEN}`);
+            }
+        }
+
+        // The user name is written into the shell function of the git credential helper
+        if (validatedConfig.gitHttpsUsername !== undefined && !/^[A-Za-z0-9._@+-]+$/.test(validatedConfig.gitHttpsUsername)) {
+            throw new Error(`Invalid gitHttpsUsername: ${validatedConfig.gitHttpsUsername}. Only letters, digits and . _ @ + - are allowed`);
+        }
+
         // Validate numeric fields
         this.validateNumericField(validatedConfig, 'maxDockerContainers', 1, 100);
         this.validateNumericField(validatedConfig, 'maxParallelDockerContainers', 1, 1000000);
@@ -179,6 +387,8 @@ export class ConfigReader {
         // this.validateNumericField(validatedConfig, 'minTasks', 1, 100);
         this.validateNumericField(validatedConfig, 'dockerMemoryMB', 128, 8192);
         this.validateNumericField(validatedConfig, 'dockerCpuCores', 1, 16);
+        this.validateNumericField(validatedConfig, 'dockerPidsLimit', 64, 1000000);
+        this.validateNumericField(validatedConfig, 'dockerDiskQuotaGB', 1, 10000);
         // this.validateNumericField(validatedConfig, 'codingStyleLevel', 0, 10);
 
         // Validate logical constraints
@@ -205,6 +415,32 @@ export class ConfigReader {
         this.validateStringField(validatedConfig, 'openAICodexApiKey', true);
         this.validateStringField(validatedConfig, 'customizedWorkStyle', false);
         this.validateStringField(validatedConfig, 'customizedCodingStyle', false);
+        this.validateStringField(validatedConfig, 'outputDirectory', false);
+        this.validateStringField(validatedConfig, 'localRepoPath', false);
+        this.validateStringField(validatedConfig, 'localRepoCommit', false);
+        this.validateStringField(validatedConfig, 'repoUrl', false);
+        this.validateStringField(validatedConfig, 'gitRef', false);
+        this.validateStringField(validatedConfig, 'localClonePath', false);
+        this.validateStringField(validatedConfig, 'gitRemoteName', false);
+        this.validateStringField(validatedConfig, 'analyzerModel', false);
+        this.validateStringField(validatedConfig, 'solverModel', false);
+
+        // Validate agentModels if provided
+        if (validatedConfig.agentModels !== undefined) {
+            if (!validatedConfig.agentModels || typeof validatedConfig.agentModels !== 'object' || Array.isArray(validatedConfig.agentModels)) {
+                throw new Error('agentModels must be an object of agent types');
+            }
+            for (const [agentType, models] of Object.entries(validatedConfig.agentModels)) {
+                if (!models || typeof models !== 'object') {
+                    throw new Error(`agentModels.${agentType} must be an object`);
+                }
+                for (const phase of ['analyzer', 'solver'] as const) {
+                    if (models[phase] !== undefined && (typeof models[phase] !== 'string' || models[phase].trim() === '')) {
+                        throw new Error(`agentModels.${agentType}.${phase} must be a non-empty string`);
+                    }
+                }
+            }
+        }
 
         return validatedConfig;
     }
@@ -228,6 +464,22 @@ export class ConfigReader {
         }
     }
 
+    /**
+     * Validate an agent type. Agent types of adapters loaded from agentAdapterModules
+     * are only known once the modules are loaded, so any name is accepted when modules are configured.
+     * @param config Configuration object
+     * @param agentType The agent type to validate
+     * @param fieldName Name of the field in error messages
+     */
+    private validateAgentType(config: Partial<Config>, agentType: unknown, fieldName: string): void {
+        if (typeof agentType !== 'string' || agentType.trim() === '') {
+            throw new Error(`${fieldName} must be a non-empty string`);
+        }
+        if (!sweAgentAdapterRegistry.has(agentType) && !config.agentAdapterModules?.length) {
+            throw new Error(`Invalid ${fieldName}: ${agentType}. Must be one of: ${sweAgentAdapterRegistry.getAgentTypes().join(', ')}`);
+        }
+    }
+
     /**
      * Validate a string field
      * @param config Configuration object
@@ -351,13 +603,37 @@ export class ConfigReader {
             'FSC_MAX_DOCKER_CONTAINERS': 'maxDockerContainers',
             'FSC_MAX_PARALLEL_DOCKER_CONTAINERS': 'maxParallelDockerContainers',
             'FSC_DOCKER_IMAGE_REF': 'dockerImageRef',
+            'FSC_CONTAINER_RUNTIME': 'containerRuntime',
+            'FSC_CONTAINER_RUNTIME_PATH': 'containerRuntimePath',
+            'FSC_CONTAINER_RUNTIME_ROOTLESS': 'containerRuntimeRootless',
+            'FSC_CONTAINER_RUNTIME_HOST': 'containerRuntimeHost',
             'FSC_DOCKER_TIMEOUT_SECONDS': 'dockerTimeoutSeconds',
             'FSC_MAX_TASKS': 'maxTasks',
             'FSC_MIN_TASKS': 'minTasks',
             'FSC_DOCKER_MEMORY_MB': 'dockerMemoryMB',
             'FSC_DOCKER_CPU_CORES': 'dockerCpuCores',
+            'FSC_DOCKER_PIDS_LIMIT': 'dockerPidsLimit',
+            'FSC_DOCKER_DISK_QUOTA_GB': 'dockerDiskQuotaGB',
+            'FSC_USE_AGENT_IMAGES': 'useAgentImages',
+            'FSC_NETWORK_POLICY': 'networkPolicy',
+            'FSC_NETWORK_PROXY_IMAGE': 'networkProxyImage',
             'FSC_WORK_STYLE': 'workStyle',
             'FSC_CODING_STYLE_LEVEL': 'codingStyleLevel',
+            'FSC_OUTPUT_DIRECTORY': 'outputDirectory',
+            'FSC_DRY_RUN': 'dryRun',
+            'FSC_REPO_SOURCE': 'repoSource',
+            'FSC_LOCAL_REPO_PATH': 'localRepoPath',
+            'FSC_LOCAL_REPO_COMMIT': 'localRepoCommit',
+            'FSC_REPO_URL': 'repoUrl',
+            'FSC_GIT_REF': 'gitRef',
+            'FSC_LOCAL_CLONE_PATH': 'localClonePath',
+            'FSC_GIT_REMOTE_NAME': 'gitRemoteName',
+            'FSC_GIT_CREDENTIAL_STRATEGY': 'gitCredentialStrategy',
+            'FSC_GIT_DEPLOY_KEY_PATH': 'gitDeployKeyPath',
+            'FSC_GIT_HTTPS_TOKEN': 'gitHttpsToken',
+            'FSC_GIT_HTTPS_USERNAME': 'gitHttpsUsername',
+            'FSC_ANALYZER_MODEL': 'analyzerModel',
+            'FSC_SOLVER_MODEL': 'solverModel',
         };
 
         const configWithEnv = { ...baseConfig };
@@ -389,7 +665,10 @@ export class ConfigReader {
             const booleanFields: (keyof Config)[] = [
                 'googleGeminiAPIKeyExportNeeded',
                 'anthropicAPIKeyExportNeeded',
-                'openAICodexAPIKeyExportNeeded'
+                'openAICodexAPIKeyExportNeeded',
+                'dryRun',
+                'useAgentImages',
+                'containerRuntimeRootless'
             ];
 
             if (booleanFields.includes(configKey)) {
@@ -405,6 +684,8 @@ export class ConfigReader {
                 'minTasks',
                 'dockerMemoryMB',
                 'dockerCpuCores',
+                'dockerPidsLimit',
+                'dockerDiskQuotaGB',
                 'codingStyleLevel'
             ];
 
@@ -0,0 +1,259 @@
+import type { Config } from './config';
+import { DockerInstance, DockerRunStatus, getContainerResourceLimits } from './dockerInstance';
+import { getAgentEnvironment } from './SWEAgent/SWEAgentAdapter';
+import { sweAgentAdapterRegistry } from './SWEAgent/SWEAgentAdapterRegistry';
+import { taskSolverSetupCommands } from './SWEAgent/SWEAgentTaskSolverCommands';
+import { getGitCredentialCleanupCommands, setupGitCredentials, withGitCredentials } from './gitCredentials';
+import { getNetworkStartOptions } from './networkPolicy';
+import { findAgentImage } from './agentImage';
+import { copyLocalRepoToContainer } from './repoSource';
+import { getConfigSecrets } from './utils/maskSecrets';
+import { getContainerRuntime } from './containerRuntime';
+
+/**
+ * Settings of the warm container pool of the task solvers
+ */
+export interface ContainerPoolConfig {
+    /**
+     * Maximum number of warm containers kept ready per agent type
+     * @default maxParallelDockerContainers
+     */
+    size?: number;
+
+    /**
+     * Command that installs the dependencies of the project, run in /app/repo
+     * before the snapshot is taken, e.g. "npm ci"
+     */
+    installCommand?: string;
+}
+
+/**
+ * ContainerPool keeps containers ready for the task solvers. The repository is cloned and the tools,
+ * the agent and the project dependencies are installed once per agent type in a template container,
+ * which is committed to a snapshot image. Every task gets a fresh container started from the snapshot,
+ * so solving starts immediately and no task sees the changes of another.
+ */
+export class ContainerPool {
+    private config: Config;
+    private gitURL: string;
+    private size: number;
+    private maxContainers: number;
+    private getPendingTaskCount: () => number;
+    private getActiveTaskCount: () => number;
+    private poolId: string;
+    private snapshots: Map<string, Promise<string>> = new Map();
+    private idleContainers: Map<string, Promise<DockerInstance>[]> = new Map();
+    private nextContainerIndex: number = 0;
+    private templateContainers: number = 0;
+    private closed: boolean = false;
+
+    /**
+     * @param config The configuration object, with config.containerPool set
+     * @param gitURL The git remote URL the template containers clone
+     * @param getPendingTaskCount Number of tasks still waiting for a container, so the pool does not warm up containers nobody will use
+     * @param getActiveTaskCount Number of tasks being solved, whose containers count against maxParallelDockerContainers
+     */
+    constructor(config: Config, gitURL: string, getPendingTaskCount: () => number = () => Infinity, getActiveTaskCount: () => number = () => 0) {
+        this.config = config;
+        this.gitURL = gitURL;
+        this.maxContainers = config.maxParallelDockerContainers || 1;
+        this.size = config.containerPool?.size || this.maxContainers;
+        this.getPendingTaskCount = getPendingTaskCount;
+        this.getActiveTaskCount = getActiveTaskCount;
+        this.poolId = `fsc-pool-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    /**
+     * Take a warm container for an agent, and start warming up the next ones
+     * @param agentType The agent that solves the task
+     * @returns The started container with the repository at /app/repo, or undefined if the pool
+     * cannot provide one and the task solver has to set up its own container
+     */
+    async acquire(agentType: string): Promise<DockerInstance | undefined> {
+        if (this.closed) {
+            return undefined;
+        }
+        const idleContainers = this.getIdleContainers(agentType);
+        const container = idleContainers.shift() || this.startWarmContainer(agentType);
+        this.refill(agentType);
+        try {
+            return await container;
+        } catch (error) {
+            console.warn(`The container pool could not provide a container for ${agentType}, setting one up from scratch: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Remove the idle containers and the snapshot images
+     */
+    async shutdown(): Promise<void> {
+        this.closed = true;
+        for (const idleContainers of this.idleContainers.values()) {
+            for (const container of idleContainers.splice(0)) {
+                try {
+                    await (await container).shutdownContainer();
+                } catch {
+                    // the container failed to start, there is nothing to remove
+                }
+            }
+        }
+
+        const docker = this.createDockerInstance();
+        for (const snapshot of this.snapshots.values()) {
+            try {
+                docker.removeImage(await snapshot);
+            } catch {
+                // the snapshot failed, there is nothing to remove
+            }
+        }
+        this.snapshots.clear();
+    }
+
+    private getIdleContainers(agentType: string): Promise<DockerInstance>[] {
+        let idleContainers = this.idleContainers.get(agentType);
+        if (!idleContainers) {
+            idleContainers = [];
+            this.idleContainers.set(agentType, idleContainers);
+        }
+        return idleContainers;
+    }
+
+    /**
+     * Count the containers that take a slot of maxParallelDockerContainers: one for each active task,
+     * the template containers of the snapshots being built and the idle containers of every agent
+     */
+    private getContainerCount(): number {
+        let idleCount = 0;
+        for (const idleContainers of this.idleContainers.values()) {
+            idleCount += idleContainers.length;
+        }
+        return this.getActiveTaskCount() + this.templateContainers + idleCount;
+    }
+
+    /**
+     * Start warm containers until the pool is full or there are enough for the pending tasks.
+     * The idle, template and active task containers together stay within maxParallelDockerContainers.
+     */
+    private refill(agentType: string): void {
+        const idleContainers = this.getIdleContainers(agentType);
+        const target = Math.min(this.size, this.getPendingTaskCount());
+        while (!this.closed && idleContainers.length < target && this.getContainerCount() < this.maxContainers) {
+            const container = this.startWarmContainer(agentType);
+            // a failed warm container is reported by acquire, do not let it go unhandled meanwhile
+            container.catch(() => undefined);
+            idleContainers.push(container);
+        }
+    }
+
+    /**
+     * Remove idle containers of the other agents, the most recently started first, until the containers
+     * fit in maxParallelDockerContainers. The idle containers of the agent itself wait for its snapshot.
+     */
+    private async releaseIdleContainers(agentType: string): Promise<void> {
+        const released: Promise<DockerInstance>[] = [];
+        for (const [idleAgentType, idleContainers] of this.idleContainers) {
+            while (idleAgentType !== agentType && idleContainers.length > 0 && this.getContainerCount() > this.maxContainers) {
+                released.push(idleContainers.pop()!);
+            }
+        }
+        for (const container of released) {
+            try {
+                await (await container).shutdownContainer();
+            } catch {
+                // the container failed to start, there is nothing to remove
+            }
+        }
+    }
+
+    private createDockerInstance(): DockerInstance {
+        return new DockerInstance({ dryRun: this.config.dryRun, secrets: getConfigSecrets(this.config), runtime: getContainerRuntime(this.config) });
+    }
+
+    /**
+     * Start a container from the snapshot of an agent, with the environment and limits of a task solver container
+     */
+    private async startWarmContainer(agentType: string): Promise<DockerInstance> {
+        const snapshot = await this.getSnapshot(agentType);
+        const adapter = sweAgentAdapterRegistry.get(agentType);
+        const agentConfig: Config = { ...this.config, agentType };
+        const docker = this.createDockerInstance();
+        // the repository is already cloned, so the git credentials are not needed any more
+        await docker.startContainer(snapshot, `${this.poolId}-${this.nextContainerIndex++}`, {
+            environment: getAgentEnvironment(adapter, agentConfig),
+            resources: getContainerResourceLimits(this.config),
+            ...getNetworkStartOptions(agentConfig, adapter, this.gitURL),
+        });
+        return docker;
+    }
+
+    private getSnapshot(agentType: string): Promise<string> {
+        let snapshot = this.snapshots.get(agentType);
+        if (!snapshot) {
+            snapshot = this.createSnapshot(agentType);
+            this.snapshots.set(agentType, snapshot);
+        }
+        return snapshot;
+    }
+
+    /**
+     * Set up a template container for an agent and commit it to a snapshot image
+     * @returns The reference of the snapshot image
+     * @throws Error if a setup command fails
+     */
+    private async createSnapshot(agentType: string): Promise<string> {
+        // the template container takes a slot of maxParallelDockerContainers until the snapshot is taken
+        this.templateContainers++;
+        try {
+            await this.releaseIdleContainers(agentType);
+            return await this.buildSnapshot(agentType);
+        } finally {
+            this.templateContainers--;
+        }
+    }
+
+    /**
+     * Set up the template container of an agent and commit it to the snapshot image
+     */
+    private async buildSnapshot(agentType: string): Promise<string> {
+        await sweAgentAdapterRegistry.loadModules(this.config.agentAdapterModules);
+        const adapter = sweAgentAdapterRegistry.get(agentType);
+        const agentConfig: Config = { ...this.config, agentType };
+        const timeoutSeconds = this.config.dockerTimeoutSeconds ? this.config.dockerTimeoutSeconds : 0;
+        const docker = this.createDockerInstance();
+        const agentImage = findAgentImage(agentConfig, adapter, docker);
+        const snapshotImage = `${this.poolId}-${agentType.toLowerCase().replace(/[^a-z0-9._-]+/g, '-')}:snapshot`;
+
+        console.log(`Preparing the container pool snapshot of ${agentType}...`);
+        // the agent does not run in the template container, so it gets no API keys
+        await docker.startContainer(agentImage || this.config.dockerImageRef || "node:latest", `${this.poolId}-template-${this.nextContainerIndex++}`, withGitCredentials(this.config, {
+            resources: getContainerResourceLimits(this.config),
+            ...getNetworkStartOptions(agentConfig, adapter, this.gitURL),
+        }));
+        try {
+            await setupGitCredentials(docker, this.config);
+            await docker.runCommands(["mkdir -p /app"], timeoutSeconds);
+            await copyLocalRepoToContainer(docker, this.config);
+
+            const setupCommands = taskSolverSetupCommands(agentType, this.config, this.gitURL, agentImage !== undefined);
+            if (this.config.containerPool?.installCommand) {
+                setupCommands.push(`cd /app/repo && ${this.config.containerPool.installCommand}`);
+            }
+            // the deploy key must not end up in the snapshot
+            setupCommands.push(...getGitCredentialCleanupCommands(this.config));
+
+            for (const command of setupCommands) {
+                const result = await docker.runCommandAsync(command, timeoutSeconds);
+                if (result.status !== DockerRunStatus.SUCCESS) {
+                    throw new Error(`Container pool setup command failed with status ${result.status}: ${result.error || result.output}`);
+                }
+            }
+
+            await docker.commitContainer(snapshotImage);
+            console.log(`Container pool snapshot of ${agentType} is ready: ${snapshotImage}`);
+            return snapshotImage;
+        } finally {
+            await docker.shutdownContainer();
+        }
+    }
+}
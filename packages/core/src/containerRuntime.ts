@@ -0,0 +1,131 @@
+import type { Config } from './config';
+
+/**
+ * Container runtimes the task solvers can run their containers with
+ */
+export enum ContainerRuntimeType {
+    DOCKER = 'docker',
+
+    /**
+     * Daemonless and rootless by default
+     */
+    PODMAN = 'podman',
+
+    /**
+     * The Docker compatible CLI of containerd
+     */
+    NERDCTL = 'nerdctl',
+}
+
+/**
+ * A container runtime, and what it supports of the docker CLI the containers are managed with
+ */
+export interface ContainerRuntime {
+    type: ContainerRuntimeType;
+
+    /**
+     * The executable and its global arguments, e.g. ["podman", "--remote"]
+     */
+    command: string[];
+
+    /**
+     * Whether the runtime runs the containers without root on the host
+     */
+    rootless: boolean;
+
+    /**
+     * Environment variables the runtime commands run with, e.g. DOCKER_HOST of a rootless Docker daemon
+     */
+    environment: Record<string, string>;
+
+    /**
+     * Network the containers join when they are started without --network
+     */
+    defaultNetwork: string;
+
+    /**
+     * Whether `run --storage-opt size=` limits the writable layer, see ContainerResourceLimits.diskQuotaGB
+     */
+    supportsDiskQuota: boolean;
+
+    /**
+     * Whether running containers can be connected to and disconnected from networks
+     */
+    supportsNetworkConnect: boolean;
+}
+
+/**
+ * The runtime of DockerInstance when none is configured
+ */
+export const DEFAULT_CONTAINER_RUNTIME: ContainerRuntime = {
+    type: ContainerRuntimeType.DOCKER,
+    command: ['docker'],
+    rootless: false,
+    environment: {},
+    defaultNetwork: 'bridge',
+    supportsDiskQuota: true,
+    supportsNetworkConnect: true,
+};
+
+/**
+ * Get the socket of the rootless Docker daemon of the current user
+ * @returns The DOCKER_HOST of the daemon, e.g. "unix:///run/user/1000/docker.sock"
+ */
+export function getRootlessDockerHost(): string {
+    const runtimeDir = process.env.XDG_RUNTIME_DIR || `/run/user/${process.getuid ? process.getuid() : 0}`;
+    return `unix://${runtimeDir}/docker.sock`;
+}
+
+/**
+ * Get the container runtime of the configuration
+ * @param config The configuration object
+ * @returns The runtime of containerRuntime, containerRuntimePath, containerRuntimeHost and containerRuntimeRootless
+ */
+export function getContainerRuntime(config: Config): ContainerRuntime {
+    const type = config.containerRuntime || ContainerRuntimeType.DOCKER;
+    const executable = config.containerRuntimePath || type;
+    const host = config.containerRuntimeHost;
+
+    switch (type) {
+        case ContainerRuntimeType.DOCKER: {
+            const rootless = config.containerRuntimeRootless === true;
+            // a rootless daemon listens on a socket of the user instead of /var/run/docker.sock
+            const dockerHost = host || (rootless ? getRootlessDockerHost() : undefined);
+            return {
+                ...DEFAULT_CONTAINER_RUNTIME,
+                command: [executable],
+                rootless,
+                environment: dockerHost ? { DOCKER_HOST: dockerHost } : {},
+                // overlay2 size quotas need root
+                supportsDiskQuota: !rootless,
+            };
+        }
+        case ContainerRuntimeType.PODMAN:
+            return {
+                type,
+                // a host is a Podman service reached with the remote client
+                command: host ? [executable, '--remote'] : [executable],
+                rootless: config.containerRuntimeRootless ?? isNonRootUser(),
+                environment: host ? { CONTAINER_HOST: host } : {},
+                defaultNetwork: 'podman',
+                supportsDiskQuota: false,
+                supportsNetworkConnect: true,
+            };
+        case ContainerRuntimeType.NERDCTL:
+            return {
+                type,
+                command: [executable],
+                rootless: config.containerRuntimeRootless ?? isNonRootUser(),
+                environment: host ? { CONTAINERD_ADDRESS: host } : {},
+                defaultNetwork: 'bridge',
+                supportsDiskQuota: false,
+                supportsNetworkConnect: false,
+            };
+        default:
+            throw new Error(`Unsupported container runtime: ${type}. Must be one of: ${Object.values(ContainerRuntimeType).join(', ')}`);
+    }
+}
+
+function isNonRootUser(): boolean {
+    return process.getuid ? process.getuid() !== 0 : false;
+}
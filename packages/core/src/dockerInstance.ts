@@ -4,7 +4,15 @@ function streamToTextSync(stream: Uint8Array | null | undefined): string {
 	return new TextDecoder().decode(stream);
 }
 import { spawnSync, spawn } from "bun";
+import { tmpdir } from "os";
+import { join } from "path";
+import { mkdtempSync, rmSync } from "fs";
 import { time } from "console";
+import { dryRunRecorder, formatCommand } from "./dryRun";
+import { maskSecrets } from "./utils/maskSecrets";
+import type { Config } from "./config";
+import { EGRESS_PROXY_PORT, NetworkPolicy, egressProxySourceCode } from "./networkPolicy";
+import { DEFAULT_CONTAINER_RUNTIME, ContainerRuntimeType, type ContainerRuntime } from "./containerRuntime";
 
 /**
  * Status of Docker command execution
@@ -12,7 +20,11 @@ import { time } from "console";
 export enum DockerRunStatus {
 	SUCCESS = 'success',
 	FAILURE = 'failure',
-	TIMEOUT = 'timeout'
+	TIMEOUT = 'timeout',
+	/**
+	 * The command was killed for running out of memory, or the container ran out of disk space
+	 */
+	RESOURCE_EXHAUSTED = 'resource_exhausted'
 }
 
 export interface DockerRunOptions {
@@ -21,8 +33,234 @@ export interface DockerRunOptions {
 	timeoutSeconds?: number; // Max seconds to allow for all commands
 }
 
+export interface DockerInstanceOptions {
+	/**
+	 * Record the docker commands instead of executing them
+	 */
+	dryRun?: boolean;
+
+	/**
+	 * Secret values to mask in recorded commands and in the output of commands
+	 */
+	secrets?: string[];
+
+	/**
+	 * The runtime that runs the containers, see getContainerRuntime
+	 * @default DEFAULT_CONTAINER_RUNTIME, docker
+	 */
+	runtime?: ContainerRuntime;
+}
+
+/**
+ * Options of a container that are set when it is started
+ */
+export interface ContainerStartOptions {
+	/**
+	 * Environment variables of the container, e.g. API keys. They are passed to `docker run`
+	 * by name and their values through the environment of the docker process,
+	 * so the values do not show up in argv or process listings.
+	 */
+	environment?: Record<string, string>;
+
+	/**
+	 * Bind mounts in `docker run -v` syntax, e.g. "/run/ssh-agent.sock:/ssh-agent"
+	 */
+	mounts?: string[];
+
+	/**
+	 * Limits on the resources the container can use
+	 */
+	resources?: ContainerResourceLimits;
+
+	/**
+	 * What the container can reach on the network
+	 * @default NetworkPolicy.FULL
+	 */
+	networkPolicy?: NetworkPolicy;
+
+	/**
+	 * Hosts the egress proxy forwards to under NetworkPolicy.ALLOW_LIST, see getAllowedHosts
+	 */
+	allowedHosts?: string[];
+
+	/**
+	 * Image of the egress proxy container, it needs node
+	 * @default "node:latest"
+	 */
+	egressProxyImage?: string;
+
+	/**
+	 * Networks to attach the container to when it is started, instead of the default network of the runtime
+	 */
+	networks?: string[];
+}
+
+/**
+ * Resource limits of a container, unset limits are not enforced
+ */
+export interface ContainerResourceLimits {
+	/**
+	 * Memory in MB, swap included
+	 */
+	memoryMB?: number;
+
+	/**
+	 * Number of CPU cores, may be fractional
+	 */
+	cpuCores?: number;
+
+	/**
+	 * Maximum number of processes and threads
+	 */
+	pidsLimit?: number;
+
+	/**
+	 * Size of the writable layer in GB. Only supported by some storage drivers, e.g. overlay2 on XFS with project quotas.
+	 */
+	diskQuotaGB?: number;
+}
+
+/**
+ * Get the resource limits of the containers from the configuration
+ * @param config The configuration object
+ * @returns The limits of dockerMemoryMB, dockerCpuCores, dockerPidsLimit and dockerDiskQuotaGB
+ */
+export function getContainerResourceLimits(config: Config): ContainerResourceLimits {
+    return {
+        memoryMB: config.dockerMemoryMB,
+        cpuCores: config.dockerCpuCores,
+        pidsLimit: config.dockerPidsLimit,
+        diskQuotaGB: config.dockerDiskQuotaGB,
+    };
+}
+
+/**
+ * Get the `docker run` arguments that enforce resource limits
+ * @param resources The resource limits
+ * @returns The arguments, empty if no limit is set
+ */
+export function getResourceLimitArgs(resources: ContainerResourceLimits = {}): string[] {
+    const args: string[] = [];
+    if (resources.memoryMB) {
+        args.push("--memory", `${resources.memoryMB}m`);
+    }
+    if (resources.cpuCores) {
+        args.push("--cpus", String(resources.cpuCores));
+    }
+    if (resources.pidsLimit) {
+        args.push("--pids-limit", String(resources.pidsLimit));
+    }
+    if (resources.diskQuotaGB) {
+        args.push("--storage-opt", `size=${resources.diskQuotaGB}G`);
+    }
+    return args;
+}
+
+/**
+ * Exit code of a process killed with SIGKILL, as the OOM killer does
+ */
+const SIGKILL_EXIT_CODE = 137;
+
 export class DockerInstance {
     private containerName: string | null = null;
+    private options: DockerInstanceOptions;
+    private egressProxy: DockerInstance | null = null;
+    private networkName: string | null = null;
+    private environmentNames: string[] = [];
+    private hasDiskQuota: boolean = false;
+    private runtime: ContainerRuntime;
+
+    constructor(options: DockerInstanceOptions = {}) {
+        this.options = options;
+        this.runtime = options.runtime || DEFAULT_CONTAINER_RUNTIME;
+    }
+
+    /**
+     * Record a container runtime command during a dry run
+     * @param args The arguments of the runtime command, e.g. ["exec", "box", "ls"]
+     */
+    private recordDryRun(args: string[]): void {
+        dryRunRecorder.record(this.runtime.type, formatCommand([...this.runtime.command, ...args]), this.options.secrets);
+    }
+
+    /**
+     * Run a container runtime command on the host, in the environment of the runtime
+     * @param args The arguments of the runtime command, e.g. ["exec", "box", "ls"]
+     * @param environment Additional environment variables of the command
+     * @param timeoutSeconds Kill the command after this many seconds, 0 for no limit
+     */
+    private spawnRuntimeSync(args: string[], environment: Record<string, string> = {}, timeoutSeconds?: number) {
+        return spawnSync({
+            cmd: [...this.runtime.command, ...args],
+            env: { ...process.env, ...this.runtime.environment, ...environment },
+            timeout: timeoutSeconds ? timeoutSeconds * 1000 : 0,
+        });
+    }
+
+    /**
+     * Run a container runtime command on the host, or record it during a dry run
+     * @param args The arguments of the runtime command, e.g. ["network", "rm", "box-net"]
+     * @throws Error if the command fails
+     */
+    private runDocker(args: string[]): void {
+        if (this.options.dryRun) {
+            this.recordDryRun(args);
+            return;
+        }
+        const result = this.spawnRuntimeSync(args);
+        if (result.exitCode !== 0) {
+            throw new Error(`Failed to run ${[...this.runtime.command, ...args].slice(0, 3).join(" ")}: ${streamToTextSync(result.stderr) || "Unknown error"}`);
+        }
+    }
+
+    /**
+     * Start the egress proxy of a container under NetworkPolicy.ALLOW_LIST: an internal network
+     * without a route out, and a proxy container on both that network and the default bridge
+     * @param startOptions The start options of the container
+     * @returns The proxy environment variables of the container
+     */
+    private async startEgressProxy(startOptions: ContainerStartOptions): Promise<Record<string, string>> {
+        const networkName = `${this.containerName}-net`;
+        const proxyName = `${this.containerName}-proxy`;
+
+        this.runDocker(["network", "create", "--internal", networkName]);
+        this.networkName = networkName;
+
+        // Podman is started on its default network explicitly, rootless it would use pasta, which cannot join
+        // other networks; a runtime that cannot connect running containers starts the proxy on both networks
+        const proxyNetworks = this.runtime.type === ContainerRuntimeType.DOCKER ? [] : [this.runtime.defaultNetwork];
+        if (!this.runtime.supportsNetworkConnect) {
+            proxyNetworks.push(networkName);
+        }
+        this.egressProxy = new DockerInstance(this.options);
+        await this.egressProxy.startContainer(startOptions.egressProxyImage || "node:latest", proxyName, { networks: proxyNetworks });
+        if (this.runtime.supportsNetworkConnect) {
+            this.runDocker(["network", "connect", networkName, proxyName]);
+        }
+        await this.egressProxy.runCommands(["mkdir -p /app"]);
+        await this.egressProxy.copyFileToContainer(egressProxySourceCode(startOptions.allowedHosts || []), "/app/egressProxy.js");
+        const proxyResult = await this.egressProxy.runCommands(["nohup node /app/egressProxy.js > /app/egressProxy.log 2>&1 &"]);
+        if (proxyResult.status !== DockerRunStatus.SUCCESS) {
+            throw new Error(`Failed to start the egress proxy: ${proxyResult.error || proxyResult.output}`);
+        }
+
+        const proxyUrl = `http://${proxyName}:${EGRESS_PROXY_PORT}`;
+        return {
+            HTTP_PROXY: proxyUrl,
+            HTTPS_PROXY: proxyUrl,
+            http_proxy: proxyUrl,
+            https_proxy: proxyUrl,
+            NO_PROXY: "localhost,127.0.0.1",
+            no_proxy: "localhost,127.0.0.1",
+        };
+    }
+
+    /**
+     * Mask the secrets in the output of a command, agents and tools may echo their credentials
+     */
+    private redact(text: string): string {
+        return maskSecrets(text, this.options.secrets || []);
+    }
 
 		/**
 		 * Get the container name
@@ -32,19 +270,87 @@ export class DockerInstance {
         return this.containerName;
     }
 
+    /**
+     * Check whether a failed command ran out of resources: it was killed by the OOM killer
+     * of the container, or it ran out of the disk quota of the container. Without a quota a full disk
+     * is an ordinary failure of the command.
+     * @param exitCode The exit code of the command
+     * @param errorOutput The error output of the command
+     * @returns A description of the exhausted resource, or undefined
+     */
+    private getResourceExhaustion(exitCode: number | null, errorOutput: string): string | undefined {
+        if (this.hasDiskQuota && /No space left on device/i.test(errorOutput)) {
+            return "the container ran out of disk space";
+        }
+        if (exitCode !== SIGKILL_EXIT_CODE || !this.containerName) {
+            return undefined;
+        }
+
+        // agents run through docker exec, so the OOM killer hits them and not the main process of the container;
+        // the OOM kills are counted in the memory cgroup of the container (v2, or v1 on newer kernels)
+        const memoryEvents = this.spawnRuntimeSync([
+            "exec", this.containerName, "sh", "-c",
+            "cat /sys/fs/cgroup/memory.events /sys/fs/cgroup/memory/memory.oom_control 2>/dev/null"
+        ]);
+        const oomKills = streamToTextSync(memoryEvents.stdout).match(/oom_kill (\d+)/);
+        if (oomKills && Number(oomKills[1]) > 0) {
+            return "the command was killed after running out of memory";
+        }
+
+        const inspectResult = this.spawnRuntimeSync(["inspect", "--format", "{{.State.OOMKilled}}", this.containerName]);
+        if (streamToTextSync(inspectResult.stdout).trim() === "true") {
+            return "the container was killed after running out of memory";
+        }
+        return undefined;
+    }
+
     /**
      * Starts a Docker container in detached mode.
      * @param image The Docker image to use.
+     * @param dockerContainerName The name of the container, a random name if not set.
+     * @param startOptions Environment variables and mounts of the container.
      * @returns The name of the started container.
      */
-    async startContainer(image: string, dockerContainerName?: string): Promise<string> {
+    async startContainer(image: string, dockerContainerName?: string, startOptions: ContainerStartOptions = {}): Promise<string> {
         this.containerName = dockerContainerName || `copilot-docker-${Math.random().toString(36).slice(2, 10)}`;
 
+        const environment = { ...startOptions.environment };
+        const runArgs: string[] = [];
+        for (const network of startOptions.networks || []) {
+            runArgs.push("--network", network);
+        }
+        if (startOptions.networkPolicy === NetworkPolicy.ALLOW_LIST) {
+            Object.assign(environment, await this.startEgressProxy(startOptions));
+            runArgs.push("--network", this.networkName!);
+        }
+        for (const name of Object.keys(environment)) {
+            if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+                throw new Error(`Invalid environment variable name: ${name}`);
+            }
+            runArgs.push("-e", name);
+        }
+        this.environmentNames = Object.keys(environment);
+        for (const mount of startOptions.mounts || []) {
+            runArgs.push("-v", mount);
+        }
+        const resources = { ...startOptions.resources };
+        if (resources.diskQuotaGB && !this.runtime.supportsDiskQuota) {
+            console.warn(`The ${this.runtime.rootless ? "rootless " : ""}${this.runtime.type} runtime does not support disk quotas, the disk of ${this.containerName} is not limited`);
+            delete resources.diskQuotaGB;
+        }
+        this.hasDiskQuota = Boolean(resources.diskQuotaGB);
+        runArgs.push(...getResourceLimitArgs(resources));
+
+        if (this.options.dryRun) {
+            this.recordDryRun(["run", "-d", "--name", this.containerName, ...runArgs, image, "sleep", "infinity"]);
+            return this.containerName;
+        }
+
         // wait for 0.5 seconds to make sure the container is started
         await new Promise(resolve => setTimeout(resolve, 500));
-        const startResult = spawnSync([
-            "docker", "run", "-d", "--name", this.containerName, image, "sleep", "infinity"
-        ]);
+        const startResult = this.spawnRuntimeSync([
+            "run", "-d", "--name", this.containerName, ...runArgs, image, "sleep", "infinity"
+        ], environment);
 
         console.log(`Starting container ${this.containerName} with image ${image}`);
         if (startResult.exitCode !== 0) {
@@ -74,6 +380,13 @@ export class DockerInstance {
         if (!this.containerName) {
             throw new Error(`Container name is null, cannot run commands`);
         }
+        if (this.options.dryRun) {
+            for (const cmd of commands) {
+                this.recordDryRun(["exec", this.containerName, "sh", "-c", cmd]);
+            }
+            return { output: "", success: true, status: DockerRunStatus.SUCCESS };
+        }
+
         let output = "";
         let error = "";
         let success = true;
@@ -95,12 +408,9 @@ export class DockerInstance {
 
                 // wait for random time between 0.1 and 2 seconds to make sure the command is executed
                 await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 1900));
-                const execResult = spawnSync( {
-                    cmd:[
-                    "docker", "exec", this.containerName, "sh", "-c", cmd
-                        ],
-                    timeout: timeoutSeconds ? timeoutSeconds * 1000 : 0,
-                });
+                const execResult = this.spawnRuntimeSync([
+                    "exec", this.containerName, "sh", "-c", cmd
+                ], {}, timeoutSeconds);
 
                 const cmdOut = streamToTextSync(execResult.stdout);
                 //console.log(`Command output: ${cmdOut}`);
@@ -111,6 +421,11 @@ export class DockerInstance {
                     error += `\nError running '${cmd}': ${errText || "Unknown error"}`;
                     success = false;
                     status = DockerRunStatus.FAILURE;
+                    const exhaustion = this.getResourceExhaustion(execResult.exitCode, errText);
+                    if (exhaustion) {
+                        error += `\nResource exhausted: ${exhaustion}`;
+                        status = DockerRunStatus.RESOURCE_EXHAUSTED;
+                    }
                     break;
                 }
             }
@@ -121,10 +436,10 @@ export class DockerInstance {
         }
 
         return {
-            output,
+            output: this.redact(output),
             success,
             status,
-            error: error || undefined
+            error: error ? this.redact(error) : undefined
         };
     }
 
@@ -144,6 +459,11 @@ export class DockerInstance {
             throw new Error(`Invalid command: command must be a string`);
         }
 
+        if (this.options.dryRun) {
+            this.recordDryRun(["exec", this.containerName, "sh", "-c", command]);
+            return { output: "", success: true, status: DockerRunStatus.SUCCESS };
+        }
+
         let output = "";
         let error = "";
         let success = true;
@@ -154,8 +474,9 @@ export class DockerInstance {
 
             const proc = spawn( {
                 cmd:[
-                "docker", "exec", this.containerName, "sh", "-c", command
+                ...this.runtime.command, "exec", this.containerName, "sh", "-c", command
                     ],
+                env: { ...process.env, ...this.runtime.environment },
                 timeout: timeoutSeconds ? timeoutSeconds * 1000 : 0,
             });
 
@@ -175,6 +496,11 @@ export class DockerInstance {
                 error += `\nError running '${command}': ${errText || "Unknown error"}`;
                 success = false;
                 status = DockerRunStatus.FAILURE;
+                const exhaustion = this.getResourceExhaustion(proc.exitCode, errText);
+                if (exhaustion) {
+                    error += `\nResource exhausted: ${exhaustion}`;
+                    status = DockerRunStatus.RESOURCE_EXHAUSTED;
+                }
             }
 
         } catch (e: any) {
@@ -190,10 +516,10 @@ export class DockerInstance {
         }
 
         return {
-            output,
+            output: this.redact(output),
             success,
             status,
-            error: error || undefined
+            error: error ? this.redact(error) : undefined
         };
     }
 
@@ -202,13 +528,132 @@ export class DockerInstance {
      * @param containerName The name of the container to shut down.
      */
     async shutdownContainer(): Promise<void> {
-        if (this.containerName)
+        if (this.containerName && this.options.dryRun)
+        {
+            this.recordDryRun(["rm", "-f", this.containerName]);
+        }
+        else if (this.containerName)
         {
-            spawnSync(["docker", "rm", "-f", this.containerName]);
+            this.spawnRuntimeSync(["rm", "-f", this.containerName]);
         }
         else {
             console.log(`Container name is null, not shutting down`);
         }
+
+        // the network can only be removed once no container is attached to it
+        if (this.egressProxy) {
+            await this.egressProxy.shutdownContainer();
+            this.egressProxy = null;
+        }
+        if (this.networkName && this.options.dryRun) {
+            this.recordDryRun(["network", "rm", this.networkName]);
+        } else if (this.networkName) {
+            this.spawnRuntimeSync(["network", "rm", this.networkName]);
+        }
+        this.networkName = null;
+    }
+
+    /**
+     * Save the container as an image. The environment variables the container was started with
+     * are cleared in the image, so credentials passed to the container do not end up in it.
+     * @param image The reference of the new image
+     * @throws Error if the container cannot be committed
+     */
+    async commitContainer(image: string): Promise<void> {
+        if (!this.containerName) {
+            throw new Error(`Container name is null, cannot commit it`);
+        }
+        const changes = this.environmentNames.flatMap(name => ["--change", `ENV ${name}=`]);
+        this.runDocker(["commit", ...changes, this.containerName, image]);
+    }
+
+    /**
+     * Remove an image, e.g. a snapshot made with commitContainer
+     * @param image The image reference
+     */
+    removeImage(image: string): void {
+        if (this.options.dryRun) {
+            this.recordDryRun(["rmi", "-f", image]);
+            return;
+        }
+        this.spawnRuntimeSync(["rmi", "-f", image]);
+    }
+
+    /**
+     * Check whether an image exists locally. Always false in a dry run, so the recorded
+     * commands do not depend on the images of the machine.
+     * @param image The image reference
+     * @returns True if the image exists
+     */
+    imageExists(image: string): boolean {
+        if (this.options.dryRun) {
+            return false;
+        }
+        return this.spawnRuntimeSync(["image", "inspect", image]).exitCode === 0;
+    }
+
+    /**
+     * Build an image from a Dockerfile without a build context, with the build output on the console
+     * @param dockerfile The content of the Dockerfile
+     * @param tag The tag of the image
+     * @throws Error if the build fails
+     */
+    async buildImage(dockerfile: string, tag: string): Promise<void> {
+        if (this.options.dryRun) {
+            this.recordDryRun(["build", "-t", tag, `<${dockerfile.length} characters of generated Dockerfile>`]);
+            return;
+        }
+
+        // the Dockerfile is read from stdin with an empty build context, which docker, podman and nerdctl all accept
+        const contextDir = mkdtempSync(join(tmpdir(), "fsc-build-"));
+        const proc = spawn({
+            cmd: [...this.runtime.command, "build", "-t", tag, "-f", "-", contextDir],
+            env: { ...process.env, ...this.runtime.environment },
+            stdin: new TextEncoder().encode(dockerfile),
+            stdout: "inherit",
+            stderr: "inherit",
+        });
+        try {
+            await proc.exited;
+        } finally {
+            rmSync(contextDir, { recursive: true, force: true });
+        }
+        if (proc.exitCode !== 0) {
+            throw new Error(`Failed to build image ${tag}: ${this.runtime.type} build exited with code ${proc.exitCode}`);
+        }
+    }
+
+    /**
+     * Disconnect the container from all its networks, for NetworkPolicy.NONE once the setup is done
+     * @throws Error if a network cannot be disconnected
+     */
+    async isolateNetwork(): Promise<void> {
+        if (!this.containerName) {
+            throw new Error(`Container name is null, cannot isolate its network`);
+        }
+        if (!this.runtime.supportsNetworkConnect) {
+            throw new Error(`The ${this.runtime.type} runtime cannot disconnect ${this.containerName} from the network`);
+        }
+        if (this.options.dryRun) {
+            this.recordDryRun(["network", "disconnect", this.runtime.defaultNetwork, this.containerName]);
+            return;
+        }
+
+        const inspectResult = this.spawnRuntimeSync([
+            "inspect", "--format", "{{range $name, $network := .NetworkSettings.Networks}}{{$name}} {{end}}", this.containerName
+        ]);
+        if (inspectResult.exitCode !== 0) {
+            throw new Error(`Failed to inspect the networks of ${this.containerName}: ${streamToTextSync(inspectResult.stderr) || "Unknown error"}`);
+        }
+        const networks = streamToTextSync(inspectResult.stdout).trim().split(/\s+/).filter(name => name !== "");
+        if (networks.length === 0) {
+            // e.g. rootless Podman with pasta or slirp4netns, which are not networks that can be disconnected
+            throw new Error(`Container ${this.containerName} has no network it can be disconnected from`);
+        }
+        for (const network of networks) {
+            this.runDocker(["network", "disconnect", network, this.containerName]);
+        }
+        console.log(`Disconnected container ${this.containerName} from the network`);
     }
 
 	/**
@@ -225,10 +670,15 @@ export class DockerInstance {
             throw new Error(`Container name is null, cannot copy file`);
         }
 
+        if (this.options.dryRun) {
+            this.recordDryRun(["cp", `${this.containerName}:${containerPath}`, "<local temporary file>"]);
+            return "";
+        }
+
         const tempLocalPath = `/tmp/${Math.random().toString(36).slice(2, 10)}`;
 
-        const copyResult = spawnSync([
-            "docker", "cp", `${this.containerName}:${containerPath}`, tempLocalPath
+        const copyResult = this.spawnRuntimeSync([
+            "cp", `${this.containerName}:${containerPath}`, tempLocalPath
         ]);
 
         if (copyResult.exitCode !== 0) {
@@ -249,6 +699,14 @@ export class DockerInstance {
      */
     async copyFileToContainer(fileContent: string, containerFileName: string): Promise<void> {
 
+        if (this.options.dryRun) {
+            if (!this.containerName) {
+                throw new Error(`Container name is null, cannot copy file`);
+            }
+            this.recordDryRun(["cp", `<${fileContent.length} characters of generated content>`, `${this.containerName}:${containerFileName}`]);
+            return;
+        }
+
         // add a random delay between 0.1 and 2 seconds to make sure the file is copied
         await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 1900));
         if (!this.containerName) {
@@ -266,8 +724,8 @@ export class DockerInstance {
             // Create the directory structure in the container if it doesn't exist
             const containerDir = containerFileName.substring(0, containerFileName.lastIndexOf('/'));
             if (containerDir) {
-                const mkdirResult = spawnSync([
-                    "docker", "exec", this.containerName, "mkdir", "-p", containerDir
+                const mkdirResult = this.spawnRuntimeSync([
+                    "exec", this.containerName, "mkdir", "-p", containerDir
                 ]);
 
                 if (mkdirResult.exitCode !== 0) {
@@ -277,8 +735,8 @@ export class DockerInstance {
             }
 
             // Copy the file from host to container
-            const copyResult = spawnSync([
-                "docker", "cp", tempLocalPath, `${this.containerName}:${containerFileName}`
+            const copyResult = this.spawnRuntimeSync([
+                "cp", tempLocalPath, `${this.containerName}:${containerFileName}`
             ]);
 
             if (copyResult.exitCode !== 0) {
@@ -304,6 +762,11 @@ export class DockerInstance {
             throw new Error(`Container name is null, cannot copy files`);
         }
 
+        if (this.options.dryRun) {
+            this.recordDryRun(["cp", "-a", localPath, `${this.containerName}:${containerTargetPath}`]);
+            return;
+        }
+
         // Check if local path exists (works for both files and directories)
         const checkResult = spawnSync(["test", "-e", localPath]);
         if (checkResult.exitCode !== 0) {
@@ -316,8 +779,8 @@ export class DockerInstance {
         try {
             // Create the target directory structure in the container
             console.log(`Creating target directory ${containerTargetPath} in container`);
-            const mkdirResult = spawnSync([
-                "docker", "exec", this.containerName, "mkdir", "-p", containerTargetPath
+            const mkdirResult = this.spawnRuntimeSync([
+                "exec", this.containerName, "mkdir", "-p", containerTargetPath
             ]);
 
             if (mkdirResult.exitCode !== 0) {
@@ -332,14 +795,14 @@ export class DockerInstance {
 
             if (isFile) {
                 // Copy single file directly
-                copyResult = spawnSync([
-                    "docker", "cp", localPath, `${this.containerName}:${containerTargetPath}/`
+                copyResult = this.spawnRuntimeSync([
+                    "cp", localPath, `${this.containerName}:${containerTargetPath}/`
                 ]);
             } else {
                 // Copy directory contents recursively
                 const normalizedLocalPath = localPath.endsWith('/') ? localPath.slice(0, -1) : localPath;
-                copyResult = spawnSync([
-                    "docker", "cp", "-a", normalizedLocalPath + "/.", `${this.containerName}:${containerTargetPath}`
+                copyResult = this.spawnRuntimeSync([
+                    "cp", "-a", normalizedLocalPath + "/.", `${this.containerName}:${containerTargetPath}`
                 ]);
             }
 
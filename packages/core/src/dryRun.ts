@@ -0,0 +1,83 @@
+import { maskSecrets } from './utils/maskSecrets';
+
+/**
+ * A command recorded instead of executed during a dry run
+ */
+export interface RecordedCommand {
+    /**
+     * What would have issued the command, e.g. "docker" or "git"
+     */
+    source: string;
+
+    /**
+     * The command, with secrets masked
+     */
+    command: string;
+
+    /**
+     * Unix timestamp (in milliseconds) when the command was recorded
+     */
+    recordedAt: number;
+}
+
+/**
+ * Quote a command argument for display, the way a shell would need it
+ */
+function quoteArgument(argument: string): string {
+    if (/^[A-Za-z0-9_\-.,:/=@%+]+$/.test(argument)) {
+        return argument;
+    }
+    return `'${argument.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format the arguments of a command as a single shell command line
+ * @param args The command and its arguments
+ * @returns The command line
+ */
+export function formatCommand(args: string[]): string {
+    return args.map(quoteArgument).join(' ');
+}
+
+/**
+ * DryRunRecorder collects the docker and git commands that would have been issued
+ * during a dry run, and prints each of them as it is recorded
+ */
+export class DryRunRecorder {
+    private commands: RecordedCommand[] = [];
+
+    /**
+     * Record a command that would have been executed
+     * @param source What would have issued the command, e.g. "docker" or "git"
+     * @param command The command
+     * @param secrets Secret values to mask in the command
+     */
+    record(source: string, command: string, secrets: string[] = []): void {
+        const recordedCommand: RecordedCommand = {
+            source,
+            command: maskSecrets(command, secrets),
+            recordedAt: Date.now(),
+        };
+        this.commands.push(recordedCommand);
+        console.log(`[dry-run] ${recordedCommand.command}`);
+    }
+
+    /**
+     * Get all commands recorded so far, in order
+     */
+    getCommands(): RecordedCommand[] {
+        return [...this.commands];
+    }
+
+    /**
+     * Forget all recorded commands
+     */
+    clear(): void {
+        this.commands = [];
+    }
+}
+
+/**
+ * The recorder shared by the analyzer, the task solvers and the code committer
+ */
+export const dryRunRecorder = new DryRunRecorder();
@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from './config';
+import type { ContainerStartOptions, DockerInstance } from './dockerInstance';
+import { RepoSource } from './repoSource';
+
+/**
+ * How the containers authenticate to the git host when they clone the repository
+ */
+export enum GitCredentialStrategy {
+    /**
+     * No credentials, for public repositories
+     */
+    NONE = 'none',
+
+    /**
+     * A single SSH key, e.g. a read-only deploy key of the repository, configured in gitDeployKeyPath
+     */
+    DEPLOY_KEY = 'deploy-key',
+
+    /**
+     * The ssh-agent of the host, whose socket is mounted into the container. The keys never leave the host.
+     */
+    SSH_AGENT = 'ssh-agent',
+
+    /**
+     * An HTTPS token, configured in gitHttpsToken, served by a git credential helper
+     */
+    HTTPS_TOKEN = 'https-token',
+}
+
+/**
+ * Path of the deploy key inside the container
+ */
+export const DEPLOY_KEY_CONTAINER_PATH = '/root/.ssh/fsc_deploy_key';
+
+/**
+ * Path of the mounted ssh-agent socket inside the container
+ */
+export const SSH_AGENT_SOCKET_CONTAINER_PATH = '/run/fsc-ssh-agent.sock';
+
+/**
+ * Environment variable that holds the HTTPS token inside the container
+ */
+export const GIT_TOKEN_ENV_VAR = 'FSC_GIT_TOKEN';
+
+/**
+ * The containers do not get the known_hosts of the host, so accept the key of a host on first use
+ */
+const SSH_HOST_KEY_OPTIONS = '-o StrictHostKeyChecking=accept-new';
+
+/**
+ * Get the credential strategy of a configuration. A repository copied from the
+ * local checkout is not cloned in the container, so it never needs credentials.
+ * @param config The configuration object
+ * @returns The strategy, GitCredentialStrategy.NONE by default
+ */
+export function getGitCredentialStrategy(config: Config): GitCredentialStrategy {
+    if (config.repoSource === RepoSource.LOCAL) {
+        return GitCredentialStrategy.NONE;
+    }
+    return config.gitCredentialStrategy || GitCredentialStrategy.NONE;
+}
+
+/**
+ * Add what the credential strategy needs when the container starts: the ssh-agent socket mount,
+ * or the HTTPS token as an environment variable
+ * @param config The configuration object
+ * @param startOptions The other start options of the container, e.g. the environment of the agent
+ * @returns The start options with the credentials added
+ * @throws Error if the ssh-agent strategy is used without a running ssh-agent
+ */
+export function withGitCredentials(config: Config, startOptions: ContainerStartOptions = {}): ContainerStartOptions {
+    switch (getGitCredentialStrategy(config)) {
+        case GitCredentialStrategy.SSH_AGENT: {
+            const socketPath = process.env.SSH_AUTH_SOCK;
+            if (!socketPath) {
+                throw new Error(`gitCredentialStrategy is ${GitCredentialStrategy.SSH_AGENT}, but SSH_AUTH_SOCK is not set. Start an ssh-agent and add your key with ssh-add`);
+            }
+            return {
+                ...startOptions,
+                environment: { ...startOptions.environment, SSH_AUTH_SOCK: SSH_AGENT_SOCKET_CONTAINER_PATH },
+                mounts: [...(startOptions.mounts || []), `${socketPath}:${SSH_AGENT_SOCKET_CONTAINER_PATH}`],
+            };
+        }
+        case GitCredentialStrategy.HTTPS_TOKEN:
+            return {
+                ...startOptions,
+                environment: { ...startOptions.environment, [GIT_TOKEN_ENV_VAR]: config.gitHttpsToken || '' },
+            };
+        default:
+            return startOptions;
+    }
+}
+
+/**
+ * Get the commands that configure git inside the container for the credential strategy.
+ * They only reference the token variable and the key path, never the secrets themselves.
+ * @param config The configuration object
+ * @returns The commands to run inside the container
+ */
+export function getGitCredentialCommands(config: Config): string[] {
+    switch (getGitCredentialStrategy(config)) {
+        case GitCredentialStrategy.DEPLOY_KEY:
+            return [
+                `chmod 600 ${DEPLOY_KEY_CONTAINER_PATH}`,
+                `git config --global core.sshCommand "ssh -i ${DEPLOY_KEY_CONTAINER_PATH} -o IdentitiesOnly=yes ${SSH_HOST_KEY_OPTIONS}"`,
+            ];
+        case GitCredentialStrategy.SSH_AGENT:
+            return [
+                `git config --global core.sshCommand "ssh ${SSH_HOST_KEY_OPTIONS}"`,
+            ];
+        case GitCredentialStrategy.HTTPS_TOKEN:
+            return [
+                `git config --global credential.helper '!f() { echo username=${config.gitHttpsUsername || 'x-access-token'}; echo "password=$${GIT_TOKEN_ENV_VAR}"; }; f'`,
+            ];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Get the commands that remove the credentials the agent must not read. They run after the
+ * repository is cloned and before the agent starts, which runs with bypassed permissions.
+ * @param config The configuration object
+ * @returns The commands to run inside the container
+ */
+export function getGitCredentialCleanupCommands(config: Config): string[] {
+    if (getGitCredentialStrategy(config) === GitCredentialStrategy.DEPLOY_KEY) {
+        return [`rm -f ${DEPLOY_KEY_CONTAINER_PATH}`];
+    }
+    return [];
+}
+
+/**
+ * Expand a leading ~ of a path to the home directory
+ */
+function expandHomeDirectory(filePath: string): string {
+    return filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+/**
+ * Set up the git credentials of the configured strategy in a started container.
+ * Nothing from ~/.ssh or ~/.gitconfig of the host is copied, apart from the configured deploy key.
+ * @param docker The docker instance of the container, started with withGitCredentials
+ * @param config The configuration object
+ * @throws Error if the deploy key cannot be read
+ */
+export async function setupGitCredentials(docker: DockerInstance, config: Config): Promise<void> {
+    const strategy = getGitCredentialStrategy(config);
+    console.log(`Using git credential strategy: ${strategy}`);
+
+    if (strategy === GitCredentialStrategy.DEPLOY_KEY) {
+        const keyPath = expandHomeDirectory(config.gitDeployKeyPath || '');
+        let keyContent: string;
+        try {
+            keyContent = await fs.promises.readFile(keyPath, 'utf8');
+        } catch (error) {
+            throw new Error(`Failed to read deploy key ${keyPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await docker.runCommands(['mkdir -p /root/.ssh && chmod 700 /root/.ssh']);
+        await docker.copyFileToContainer(keyContent, DEPLOY_KEY_CONTAINER_PATH);
+    }
+
+    const commands = getGitCredentialCommands(config);
+    if (commands.length > 0) {
+        await docker.runCommands(commands);
+    }
+}
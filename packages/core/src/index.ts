@@ -1,35 +1,59 @@
 // Core functionality exports for the full-self-coding library
 
 // Main engines
-export { default as analyzeCodebase } from './analyzer';
-export { TaskSolver } from './taskSolver';
+export { default as analyzeCodebase, DRY_RUN_PLACEHOLDER_TASK } from './analyzer';
+export { TaskSolver, createTaskSolver, type TaskSolverFactory } from './taskSolver';
 export { TaskSolverManager } from './taskSolverManager';
-export { CodeCommitter } from './codeCommitter';
-export { DockerInstance } from './dockerInstance';
+export { CodeCommitter, type CommitSummary, type TaskCommitResult, type GitStateOptions } from './codeCommitter';
+export { DockerInstance, getContainerResourceLimits, getResourceLimitArgs, type DockerInstanceOptions, type ContainerStartOptions, type ContainerResourceLimits } from './dockerInstance';
+export * from './dryRun';
+export * from './runStore';
+export * from './runReport';
+export * from './ciReport';
+export * from './repoSource';
+export * from './gitCredentials';
+export * from './networkPolicy';
+export * from './agentImage';
+export * from './containerPool';
+export * from './containerRuntime';
+export * from './agentRouter';
+export * from './bestOfN';
+export * from './retryPolicy';
 
 // Configuration
 export { createConfig, type Config } from './config';
 export { readConfigWithEnv } from './configReader';
 
 // Types and interfaces
-export type { Task } from './task';
+export { TaskStatus, type Task, type TaskResult, type TaskCandidate } from './task';
 export type { CodingStyle } from './codingStyle';
 export type { WorkStyle } from './workStyle';
 
+// Task files
+export * from './taskFile';
+
 // Utilities
 export * from './utils/getDateAndTime';
 export * from './utils/trimJSON';
 export * from './utils/git';
+export * from './utils/outputDirectory';
+export * from './utils/maskSecrets';
 
 // Prompts
 export * from './prompts/analyzerPrompt';
 export * from './prompts/taskSolverPrompt';
+export * from './prompts/reviewerPrompt';
 export * from './prompts/codingStylePrompt';
 export * from './prompts/diff_nodejs';
 
 // SWE Agent commands
+export * from './SWEAgent/SWEAgentAdapter';
+export * from './SWEAgent/SWEAgentAdapterRegistry';
+export * from './SWEAgent/agentModel';
 export * from './SWEAgent/claudeCodeCommands';
 export * from './SWEAgent/codexCommands';
 export * from './SWEAgent/cursorCommands';
 export * from './SWEAgent/geminiCodeCommands';
+export * from './SWEAgent/aiderCommands';
+export * from './SWEAgent/customAgentCommands';
 export * from './SWEAgent/SWEAgentTaskSolverCommands';
\ No newline at end of file
@@ -0,0 +1,184 @@
+import type { Config } from './config';
+import type { ContainerStartOptions } from './dockerInstance';
+import type { SWEAgentAdapter } from './SWEAgent/SWEAgentAdapter';
+import { RepoSource } from './repoSource';
+import { parseGitUrl } from './utils/git';
+
+/**
+ * What the solver containers can reach on the network
+ */
+export enum NetworkPolicy {
+    /**
+     * Unrestricted network access
+     */
+    FULL = 'full',
+
+    /**
+     * Only the hosts of the allow-list, through an egress proxy container. The solver container
+     * is attached to an internal network that has no other route out.
+     */
+    ALLOW_LIST = 'allow-list',
+
+    /**
+     * Full access while the repository and the agent are set up, no network while the agent solves the task.
+     * Only suitable for agents that do not call a remote API.
+     */
+    NONE = 'none',
+}
+
+/**
+ * Port the egress proxy listens on
+ */
+export const EGRESS_PROXY_PORT = 3128;
+
+/**
+ * Hosts the setup commands of the containers download from: the Debian and NodeSource
+ * package repositories, and the npm and PyPI registries
+ */
+export const DEFAULT_ALLOWED_HOSTS = [
+    'deb.debian.org',
+    'security.debian.org',
+    'deb.nodesource.com',
+    'registry.npmjs.org',
+    'pypi.org',
+    'files.pythonhosted.org',
+];
+
+/**
+ * Get the host of a URL
+ * @param url The URL, e.g. the API base URL of an agent
+ * @returns The host name, or undefined if the URL cannot be parsed
+ */
+export function getUrlHost(url: string): string | undefined {
+    try {
+        return new URL(url).hostname || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the hosts a solver container may reach under the allow-list policy: the package registries,
+ * the hosts of the agent, the git host of the repository and config.networkAllowList
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @param gitRemoteUrl The URL the container clones the repository from
+ * @returns The allowed hosts without duplicates. "*.example.com" allows every subdomain of example.com.
+ */
+export function getAllowedHosts(config: Config, adapter: SWEAgentAdapter, gitRemoteUrl: string): string[] {
+    const hosts = [...DEFAULT_ALLOWED_HOSTS, ...(adapter.getNetworkHosts ? adapter.getNetworkHosts(config) : [])];
+
+    if (config.repoSource !== RepoSource.LOCAL) {
+        try {
+            const parsed = parseGitUrl(gitRemoteUrl);
+            if (parsed.protocol === 'https' || parsed.protocol === 'http') {
+                hosts.push(parsed.host);
+            } else if (parsed.host) {
+                console.warn(`The egress proxy only forwards HTTP(S), so the ${parsed.protocol} remote ${parsed.host} cannot be cloned under the ${NetworkPolicy.ALLOW_LIST} network policy. Use an https remote or repoSource local.`);
+            }
+        } catch (error) {
+            console.warn(`Could not add the git host to the network allow-list: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    hosts.push(...(config.networkAllowList || []));
+    return [...new Set(hosts.map(host => host.trim().toLowerCase()).filter(host => host !== ''))];
+}
+
+/**
+ * Source code of the egress proxy, a Node.js HTTP proxy without dependencies. It tunnels HTTPS
+ * with CONNECT and forwards plain HTTP, for the allowed hosts only, and logs the denied hosts.
+ * @param allowedHosts The hosts the proxy connects to
+ * @returns The source code of the proxy
+ */
+export function egressProxySourceCode(allowedHosts: string[]): string {
+    return `
+const http = require('http');
+const net = require('net');
+
+const ALLOWED_HOSTS = ${JSON.stringify(allowedHosts)};
+
+function isAllowed(host) {
+  const name = String(host || '').toLowerCase().replace(/^\\[|\\]$/g, '');
+  return ALLOWED_HOSTS.some(pattern => pattern.startsWith('*.')
+    ? name === pattern.slice(2) || name.endsWith(pattern.slice(1))
+    : name === pattern);
+}
+
+function deny(host) {
+  console.log('denied ' + host);
+}
+
+const server = http.createServer((request, response) => {
+  let url;
+  try {
+    url = new URL(request.url);
+  } catch {
+    response.writeHead(400);
+    response.end();
+    return;
+  }
+  if (!isAllowed(url.hostname)) {
+    deny(url.hostname);
+    response.writeHead(403);
+    response.end('Host not allowed by the network policy: ' + url.hostname);
+    return;
+  }
+  const upstream = http.request({
+    host: url.hostname,
+    port: url.port || 80,
+    path: url.pathname + url.search,
+    method: request.method,
+    headers: request.headers,
+  }, upstreamResponse => {
+    response.writeHead(upstreamResponse.statusCode, upstreamResponse.headers);
+    upstreamResponse.pipe(response);
+  });
+  upstream.on('error', () => {
+    response.writeHead(502);
+    response.end();
+  });
+  request.pipe(upstream);
+});
+
+server.on('connect', (request, socket, head) => {
+  const separatorIndex = request.url.lastIndexOf(':');
+  const host = separatorIndex === -1 ? request.url : request.url.slice(0, separatorIndex);
+  const port = separatorIndex === -1 ? 443 : Number(request.url.slice(separatorIndex + 1)) || 443;
+  if (!isAllowed(host)) {
+    deny(host);
+    socket.end('HTTP/1.1 403 Forbidden\\r\\n\\r\\n');
+    return;
+  }
+  const upstream = net.connect(port, host.replace(/^\\[|\\]$/g, ''), () => {
+    socket.write('HTTP/1.1 200 Connection Established\\r\\n\\r\\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', () => socket.destroy());
+  socket.on('error', () => upstream.destroy());
+});
+
+server.listen(${EGRESS_PROXY_PORT});
+`;
+}
+
+/**
+ * Get the network start options of a solver container for the configured policy
+ * @param config The configuration object, with the agentType of the adapter
+ * @param adapter The agent adapter
+ * @param gitRemoteUrl The URL the container clones the repository from
+ * @returns The networkPolicy, allowedHosts and egressProxyImage start options
+ */
+export function getNetworkStartOptions(config: Config, adapter: SWEAgentAdapter, gitRemoteUrl: string): ContainerStartOptions {
+    const networkPolicy = config.networkPolicy || NetworkPolicy.FULL;
+    if (networkPolicy !== NetworkPolicy.ALLOW_LIST) {
+        return { networkPolicy };
+    }
+    return {
+        networkPolicy,
+        allowedHosts: getAllowedHosts(config, adapter, gitRemoteUrl),
+        egressProxyImage: config.networkProxyImage,
+    };
+}
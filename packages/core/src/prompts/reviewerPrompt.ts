@@ -0,0 +1,46 @@
+import type { Task, TaskCandidate } from '../task';
+import { DEFAULT_AGENT_OUTPUT_PATHS } from '../SWEAgent/SWEAgentAdapter';
+
+/**
+ * Build the prompt of the reviewer agent that votes for the best candidate of a best-of-N task
+ * @param task The task the candidates solve
+ * @param candidates The successful candidates
+ * @param finalReportPath Where the reviewer agent writes its vote, the final report path of its adapter
+ */
+export function reviewerPrompt(task: Task, candidates: TaskCandidate[], finalReportPath: string = DEFAULT_AGENT_OUTPUT_PATHS.finalReport): string {
+    const candidateSections = candidates.map(candidate => `
+### Candidate ${candidate.attemptId} (agent: ${candidate.agentType})
+
+Report of the agent:
+${candidate.report}
+
+Git diff:
+${candidate.gitDiff || '(no changes)'}
+`).join('\n');
+
+    return `
+The path of the source code is located at /app/repo.
+
+You are a reviewer. Several agents tried to solve the same task independently, and you need to pick the best solution.
+Here are the rules:
+1. Read the task and every candidate below. You may inspect the source code in /app/repo, but DO NOT change it, create a branch, commit, or push.
+2. Pick the candidate that solves the task most correctly and completely, with the cleanest and smallest change that does so.
+3. Save your decision at ${finalReportPath}, in following format:
+
+{
+    "winner": "the attempt ID of the best candidate, e.g. ${candidates[0]?.attemptId ?? 'attempt-1'}",
+    "reason": "A short explanation of why this candidate is the best."
+}
+
+4. Please double check the ${finalReportPath} file to make sure it is correct in JSON format and can be parsed successfully.
+5. For any string field in the JSON object, please double check that only use single quotes, and make sure that it does not contain any double quotes.
+
+Task title: ${task.title}
+
+Task description: ${task.description}
+
+Task ID: ${task.ID}
+
+## Candidates
+${candidateSections}`;
+}
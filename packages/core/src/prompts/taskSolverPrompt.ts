@@ -1,6 +1,7 @@
 import type {Config} from '../config';
 import type {Task} from '../task';
 import { getCodingStyle } from '../codingStyle';
+import { formatPreviousAttempts } from '../retryPolicy';
 
 export function taskSolverPrompt(task: Task, config: Config): string {
     // return test_string;
@@ -39,7 +40,7 @@ ${config.workStyle}
 
 Below is your coding style. When writing code, please follow it as much as possible:
 ${getCodingStyle(config.codingStyleLevel || 0)}
-
+${formatPreviousAttempts(task.previousAttempts)}
 And here is your task information, in JSON format, please use it as the reference, and start your work.
 
 Task title: ${task.title}
@@ -0,0 +1,204 @@
+import { spawnSync } from "bun";
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from './config';
+import type { DockerInstance } from './dockerInstance';
+import { dryRunRecorder, formatCommand } from './dryRun';
+
+/**
+ * Where the containers get the repository they work on from
+ */
+export enum RepoSource {
+    /**
+     * Clone the git remote URL inside the container
+     */
+    REMOTE = 'remote',
+
+    /**
+     * Copy the local checkout into the container as a git bundle,
+     * so unpushed commits are visible and no access to the git host is needed
+     */
+    LOCAL = 'local',
+}
+
+/**
+ * Path of the git bundle of the local checkout inside the container
+ */
+export const LOCAL_REPO_BUNDLE_PATH = '/app/repo.bundle';
+
+/**
+ * The ref the chosen commit is bundled under. It only exists in the local
+ * checkout while the bundle is being created.
+ */
+export const LOCAL_REPO_BUNDLE_REF = 'refs/fsc/local-repo';
+
+/**
+ * Name of the branch checked out in /app/repo when seeding from the local checkout
+ */
+export const LOCAL_REPO_BRANCH = 'fsc-local';
+
+function streamToTextSync(stream: Uint8Array | null | undefined): string {
+    if (!stream) return "";
+    return new TextDecoder().decode(stream);
+}
+
+/**
+ * Run a git command in a local repository
+ * @returns The trimmed standard output
+ * @throws Error if the command fails
+ */
+function runGit(repoPath: string, args: string[]): string {
+    const result = spawnSync(["git", ...args], { cwd: repoPath });
+    if (result.exitCode !== 0) {
+        throw new Error(`git ${args.join(' ')} failed: ${streamToTextSync(result.stderr).trim() || "Unknown error"}`);
+    }
+    return streamToTextSync(result.stdout).trim();
+}
+
+/**
+ * Get the local repository path of a configuration
+ * @param config The configuration object
+ * @returns Absolute path of the local checkout, the current working directory by default
+ */
+export function resolveLocalRepoPath(config: Pick<Config, 'localRepoPath'>): string {
+    return path.resolve(config.localRepoPath || process.cwd());
+}
+
+/**
+ * Create a git bundle that contains the history of the given commit of a local checkout
+ * @param repoPath Path of the local checkout
+ * @param commit The commit, branch or tag to bundle
+ * @param bundlePath Path of the bundle file to create
+ * @returns The full hash of the bundled commit
+ * @throws Error if the commit does not exist or the bundle cannot be created
+ */
+export function createLocalRepoBundle(repoPath: string, commit: string, bundlePath: string): string {
+    let commitHash: string;
+    try {
+        commitHash = runGit(repoPath, ["rev-parse", "--verify", `${commit}^{commit}`]);
+    } catch (error) {
+        throw new Error(`Commit ${commit} not found in ${repoPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // git bundle only accepts refs, so point a temporary ref at the commit while bundling
+    runGit(repoPath, ["update-ref", LOCAL_REPO_BUNDLE_REF, commitHash]);
+    try {
+        runGit(repoPath, ["bundle", "create", bundlePath, LOCAL_REPO_BUNDLE_REF]);
+    } finally {
+        runGit(repoPath, ["update-ref", "-d", LOCAL_REPO_BUNDLE_REF]);
+    }
+    return commitHash;
+}
+
+/**
+ * Get the commands that create /app/repo inside the container
+ * @param config The configuration object
+ * @param gitRemoteUrl The git remote URL to clone when the repository source is remote
+ * @returns The commands to run inside the container
+ */
+export function getRepoCloneCommands(config: Config, gitRemoteUrl: string): string[] {
+    if (config.repoSource === RepoSource.LOCAL) {
+        return [
+            `git init -q /app/repo`,
+            `cd /app/repo && git fetch -q ${LOCAL_REPO_BUNDLE_PATH} ${LOCAL_REPO_BUNDLE_REF} && git checkout -q -b ${LOCAL_REPO_BRANCH} FETCH_HEAD`,
+        ];
+    }
+    const commands = [formatCommand(["git", "clone", gitRemoteUrl, "/app/repo"])];
+    if (config.gitRef) {
+        commands.push(`cd /app/repo && ${formatCommand(["git", "checkout", "-q", config.gitRef])}`);
+    }
+    return commands;
+}
+
+/**
+ * Get the commit the repository in the containers starts from, so that the task
+ * branches can be created from the same commit
+ * @param config The configuration object
+ * @returns The chosen commit, branch or tag, or undefined for the default
+ */
+export function getBaseRef(config: Config): string | undefined {
+    if (config.repoSource === RepoSource.LOCAL) {
+        return config.localRepoCommit || config.gitRef;
+    }
+    return config.gitRef;
+}
+
+/**
+ * Make sure a local clone of a repository exists, is up to date and has the given ref checked out
+ * @param gitRemoteUrl The URL to clone or fetch from
+ * @param clonePath Path of the local clone
+ * @param gitRef Branch, tag or commit to check out
+ * @param dryRun Record the git commands instead of running them
+ * @throws Error if the path is not a git repository or cloning or checking out fails
+ */
+export function prepareLocalClone(gitRemoteUrl: string, clonePath: string, gitRef?: string, dryRun: boolean = false): void {
+    const commands: string[][] = [];
+    const cloneExists = fs.existsSync(clonePath) && fs.readdirSync(clonePath).length > 0;
+    if (!cloneExists) {
+        commands.push(["clone", "-q", gitRemoteUrl, clonePath]);
+    } else if (!fs.existsSync(path.join(clonePath, '.git'))) {
+        throw new Error(`${clonePath} exists but is not a git repository`);
+    } else {
+        // an existing clone may miss the branches and commits pushed since it was made
+        commands.push(["-C", clonePath, "fetch", "-q", "--tags", gitRemoteUrl, "+refs/heads/*:refs/remotes/origin/*"]);
+    }
+    if (gitRef) {
+        commands.push(["-C", clonePath, "checkout", "-q", gitRef]);
+    }
+
+    for (const args of commands) {
+        if (dryRun) {
+            dryRunRecorder.record("git", formatCommand(["git", ...args]));
+        } else {
+            runGit(process.cwd(), args);
+        }
+    }
+
+    // a branch checked out in an existing clone still points to the commit of the last run
+    if (cloneExists && gitRef && !dryRun && hasFetchedRemoteBranch(clonePath, gitRef)) {
+        runGit(clonePath, ["merge", "-q", "--ff-only", `refs/remotes/origin/${gitRef}`]);
+    }
+}
+
+/**
+ * Check whether the checked out branch of a clone has a fetched remote branch of the same name
+ */
+function hasFetchedRemoteBranch(clonePath: string, branch: string): boolean {
+    const currentBranch = spawnSync(["git", "symbolic-ref", "-q", "--short", "HEAD"], { cwd: clonePath });
+    if (currentBranch.exitCode !== 0 || streamToTextSync(currentBranch.stdout).trim() !== branch) {
+        return false;
+    }
+    return spawnSync(["git", "rev-parse", "-q", "--verify", `refs/remotes/origin/${branch}`], { cwd: clonePath }).exitCode === 0;
+}
+
+/**
+ * Copy the local checkout into the container as a git bundle at LOCAL_REPO_BUNDLE_PATH,
+ * if the repository source is local. The bundle is turned into /app/repo by getRepoCloneCommands.
+ * @param docker The docker instance of the container
+ * @param config The configuration object
+ */
+export async function copyLocalRepoToContainer(docker: DockerInstance, config: Config): Promise<void> {
+    if (config.repoSource !== RepoSource.LOCAL) {
+        return;
+    }
+
+    const repoPath = resolveLocalRepoPath(config);
+    const commit = getBaseRef(config) || 'HEAD';
+
+    if (config.dryRun) {
+        dryRunRecorder.record("git", formatCommand(["git", "-C", repoPath, "bundle", "create", "<local temporary file>", commit]));
+        await docker.copyFilesToContainer(`<git bundle of ${repoPath} at ${commit}>`, path.dirname(LOCAL_REPO_BUNDLE_PATH));
+        return;
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fsc-repo-bundle-'));
+    try {
+        const bundlePath = path.join(tempDir, path.basename(LOCAL_REPO_BUNDLE_PATH));
+        const commitHash = createLocalRepoBundle(repoPath, commit, bundlePath);
+        console.log(`Copying ${repoPath} at commit ${commitHash} to container ${docker.getContainerName()}...`);
+        await docker.copyFilesToContainer(bundlePath, path.dirname(LOCAL_REPO_BUNDLE_PATH));
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,156 @@
+import { TaskStatus, type TaskResult } from './task';
+
+/**
+ * Outcomes of an attempt that can be retried
+ */
+export enum RetryCondition {
+    /**
+     * Solving the task threw, e.g. a docker command failed or the final report could not be parsed
+     */
+    ERROR = 'error',
+
+    /**
+     * The agent reported the task as failed
+     */
+    FAILED = 'failed',
+}
+
+/**
+ * Configuration of retrying failed tasks. Every retry runs in a fresh container,
+ * with the reports of the previous attempts in the task solver prompt.
+ */
+export interface RetryPolicy {
+    /**
+     * Total number of attempts per task, including the first one
+     */
+    maxAttempts: number;
+
+    /**
+     * Seconds to wait before the first retry
+     * @default 0
+     */
+    backoffSeconds?: number;
+
+    /**
+     * Factor the wait grows by with every further retry
+     * @default 2
+     */
+    backoffMultiplier?: number;
+
+    /**
+     * Outcomes that are retried
+     * @default every RetryCondition
+     */
+    retryOn?: RetryCondition[];
+
+    /**
+     * Regular expressions, if set only errors whose message matches one of them are retried,
+     * e.g. ["timeout", "rate limit"]. Failures reported by the agent are not affected.
+     */
+    errorPatterns?: string[];
+}
+
+/**
+ * A previous attempt at a task that did not succeed, passed to the next attempt as feedback
+ */
+export interface FailedAttempt {
+    /**
+     * Number of the attempt, starting at 1
+     */
+    attempt: number;
+
+    /**
+     * The agent type that made the attempt
+     */
+    agentType?: string;
+
+    /**
+     * The status of the attempt
+     */
+    status: TaskStatus;
+
+    /**
+     * The report of the agent, if it wrote one
+     */
+    report: string;
+
+    /**
+     * The error the attempt failed with, including the output of the failing command
+     */
+    error?: string;
+}
+
+/**
+ * Get the number of attempts per task
+ * @param policy The retry policy
+ * @returns The total number of attempts, 1 without a retry policy
+ */
+export function getMaxAttempts(policy?: RetryPolicy): number {
+    return policy ? Math.max(1, policy.maxAttempts) : 1;
+}
+
+/**
+ * Check whether the outcome of an attempt qualifies for a retry under the policy.
+ * The number of attempts is checked separately with getMaxAttempts.
+ * @param policy The retry policy
+ * @param result The result of the attempt
+ * @param error The error the attempt threw, if any
+ * @returns True if the task should be retried
+ */
+export function isRetryable(policy: RetryPolicy | undefined, result: TaskResult, error?: unknown): boolean {
+    if (!policy) {
+        return false;
+    }
+    const retryOn = policy.retryOn || Object.values(RetryCondition);
+
+    if (error !== undefined) {
+        if (!retryOn.includes(RetryCondition.ERROR)) {
+            return false;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return !policy.errorPatterns?.length || policy.errorPatterns.some(pattern => new RegExp(pattern, 'i').test(message));
+    }
+
+    return result.status === TaskStatus.FAILURE && retryOn.includes(RetryCondition.FAILED);
+}
+
+/**
+ * Get how long to wait before the next attempt
+ * @param policy The retry policy
+ * @param attempt The number of the attempt that just failed, starting at 1
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+    const backoffSeconds = policy.backoffSeconds || 0;
+    const backoffMultiplier = policy.backoffMultiplier ?? 2;
+    return backoffSeconds * Math.pow(backoffMultiplier, attempt - 1) * 1000;
+}
+
+/**
+ * Describe the previous attempts of a task for the task solver prompt
+ * @param previousAttempts The previous attempts
+ * @returns The prompt section, or an empty string if there were no previous attempts
+ */
+export function formatPreviousAttempts(previousAttempts?: FailedAttempt[]): string {
+    if (!previousAttempts || previousAttempts.length === 0) {
+        return '';
+    }
+
+    const attemptSections = previousAttempts.map(previous => {
+        const lines = [`### Attempt ${previous.attempt}${previous.agentType ? ` (agent: ${previous.agentType})` : ''}, status: ${previous.status}`];
+        if (previous.report) {
+            lines.push('', 'Report:', previous.report);
+        }
+        if (previous.error) {
+            lines.push('', 'Error output:', previous.error);
+        }
+        return lines.join('\n');
+    });
+
+    return `
+This task has been attempted before without success. Read the reports and errors of the previous attempts below,
+find out why they failed, and do not repeat the same mistakes. The repository has been reset, changes of previous attempts are not present.
+
+${attemptSections.join('\n\n')}
+`;
+}
@@ -0,0 +1,363 @@
+import { TaskStatus, type TaskResult } from './task';
+import type { TaskCommitResult } from './codeCommitter';
+
+/**
+ * Formats a run report can be rendered in
+ */
+export enum ReportFormat {
+    JSON = 'json',
+    MARKDOWN = 'markdown',
+    HTML = 'html',
+}
+
+/**
+ * Everything needed to render the report of a run
+ */
+export interface RunReportData {
+    /**
+     * The ID of the run, if the run is persisted
+     */
+    runId?: string;
+
+    /**
+     * The git remote URL the task solvers cloned
+     */
+    gitRemoteUrl?: string;
+
+    /**
+     * Unix timestamp (in milliseconds) when the report was generated
+     */
+    generatedAt: number;
+
+    /**
+     * The results of all tasks of the run
+     */
+    taskResults: TaskResult[];
+
+    /**
+     * The results of committing the task changes, matched to tasks by ID
+     */
+    commitResults?: TaskCommitResult[];
+}
+
+/**
+ * Number of added and deleted lines of a single file in a diff
+ */
+export interface FileDiffStat {
+    path: string;
+    additions: number;
+    deletions: number;
+}
+
+/**
+ * Summary of the changes in a git diff, similar to `git diff --stat`
+ */
+export interface DiffStat {
+    files: FileDiffStat[];
+    additions: number;
+    deletions: number;
+}
+
+/**
+ * Compute the diffstat of a unified git diff
+ * @param gitDiff The git diff text
+ * @returns Added and deleted lines per file and in total
+ */
+export function computeDiffStat(gitDiff?: string): DiffStat {
+    const files: FileDiffStat[] = [];
+    let current: FileDiffStat | undefined;
+    let inHunk = false;
+
+    for (const line of (gitDiff || '').split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+            current = { path: match ? match[2] : line.substring('diff --git '.length), additions: 0, deletions: 0 };
+            files.push(current);
+            inHunk = false;
+        } else if (line.startsWith('@@')) {
+            inHunk = true;
+        } else if (!current || !inHunk) {
+            // File headers such as "--- a/file" and "+++ b/file" come before the first hunk
+            continue;
+        } else if (line.startsWith('+')) {
+            current.additions++;
+        } else if (line.startsWith('-')) {
+            current.deletions++;
+        }
+    }
+
+    return {
+        files,
+        additions: files.reduce((total, file) => total + file.additions, 0),
+        deletions: files.reduce((total, file) => total + file.deletions, 0),
+    };
+}
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+    [TaskStatus.SUCCESS]: '✅ Success',
+    [TaskStatus.FAILURE]: '❌ Failure',
+    [TaskStatus.SKIPPED]: '⏭️ Skipped',
+    [TaskStatus.RESOURCE_EXHAUSTED]: '💥 Resource exhausted',
+    [TaskStatus.ONGOING]: '⏳ Ongoing',
+    [TaskStatus.NOT_STARTED]: '⏸️ Not started',
+};
+
+/**
+ * Collect the per-task rows shared by the Markdown and HTML renderers
+ */
+function getReportRows(data: RunReportData) {
+    return data.taskResults.map(taskResult => {
+        const commitResult = data.commitResults?.find(result => result.taskId === taskResult.ID);
+        return {
+            taskResult,
+            status: STATUS_LABELS[taskResult.status] || taskResult.status,
+            branchName: commitResult?.branchName || '',
+            commitHash: commitResult?.commitHash ? commitResult.commitHash.substring(0, 10) : '',
+            commitError: commitResult?.error,
+            diffStat: computeDiffStat(taskResult.gitDiff),
+        };
+    });
+}
+
+/**
+ * Describe the test outcome of a best-of-N candidate
+ */
+function formatTestsPassed(testsPassed?: boolean): string {
+    return testsPassed === undefined ? '' : testsPassed ? 'passed' : 'failed';
+}
+
+function countByStatus(data: RunReportData, status: TaskStatus): number {
+    return data.taskResults.filter(result => result.status === status).length;
+}
+
+/**
+ * Escape a value for use inside a Markdown table cell
+ */
+function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render a run report as Markdown, suitable for pull request descriptions and chat
+ * @param data The run report data
+ * @returns The Markdown report
+ */
+export function renderMarkdownReport(data: RunReportData): string {
+    const rows = getReportRows(data);
+    const lines: string[] = [];
+
+    lines.push('# Full Self Coding Run Report', '');
+    if (data.runId) {
+        lines.push(`- **Run ID:** ${data.runId}`);
+    }
+    if (data.gitRemoteUrl) {
+        lines.push(`- **Repository:** ${data.gitRemoteUrl}`);
+    }
+    lines.push(`- **Generated:** ${new Date(data.generatedAt).toISOString()}`);
+    lines.push(`- **Tasks:** ${data.taskResults.length} total, ${countByStatus(data, TaskStatus.SUCCESS)} succeeded, ` +
+        `${countByStatus(data, TaskStatus.FAILURE)} failed, ${countByStatus(data, TaskStatus.SKIPPED)} skipped, ` +
+        `${countByStatus(data, TaskStatus.RESOURCE_EXHAUSTED)} resource exhausted`);
+    lines.push('');
+
+    lines.push('## Summary', '');
+    lines.push('| ID | Title | Status | Agent | Branch | Commit | Changes |');
+    lines.push('|----|-------|--------|-------|--------|--------|---------|');
+    for (const row of rows) {
+        const changes = row.diffStat.files.length > 0
+            ? `${row.diffStat.files.length} file(s), +${row.diffStat.additions} -${row.diffStat.deletions}`
+            : '';
+        lines.push(`| ${escapeMarkdownCell(row.taskResult.ID)} | ${escapeMarkdownCell(row.taskResult.title)} | ${row.status} | ${escapeMarkdownCell(row.taskResult.agentType || '')} | ` +
+            `${row.branchName ? `\`${row.branchName}\`` : ''} | ${row.commitHash ? `\`${row.commitHash}\`` : ''} | ${changes} |`);
+    }
+    lines.push('');
+
+    lines.push('## Tasks', '');
+    for (const row of rows) {
+        lines.push(`### ${row.taskResult.ID}: ${row.taskResult.title}`, '');
+        lines.push(`**Status:** ${row.status}`, '');
+        if (row.taskResult.description) {
+            lines.push(`**Description:** ${row.taskResult.description}`, '');
+        }
+        if (row.commitError) {
+            lines.push(`**Commit error:** ${row.commitError}`, '');
+        }
+        if (row.taskResult.candidates && row.taskResult.candidates.length > 0) {
+            lines.push('**Candidates:**', '');
+            lines.push('| Attempt | Agent | Status | Tests | Changes | Selected |');
+            lines.push('|---------|-------|--------|-------|---------|----------|');
+            for (const candidate of row.taskResult.candidates) {
+                const diffStat = computeDiffStat(candidate.gitDiff);
+                lines.push(`| ${escapeMarkdownCell(candidate.attemptId)} | ${escapeMarkdownCell(candidate.agentType)} | ${STATUS_LABELS[candidate.status] || candidate.status} | ` +
+                    `${formatTestsPassed(candidate.testsPassed)} | +${diffStat.additions} -${diffStat.deletions} | ${candidate.selected ? '✅' : ''} |`);
+            }
+            lines.push('');
+            if (row.taskResult.selectionReason) {
+                lines.push(`**Selection:** ${row.taskResult.selectionReason}`, '');
+            }
+        }
+        if (row.diffStat.files.length > 0) {
+            lines.push('**Diffstat:**', '', '```');
+            for (const file of row.diffStat.files) {
+                lines.push(`${file.path} | +${file.additions} -${file.deletions}`);
+            }
+            lines.push(`${row.diffStat.files.length} file(s) changed, ${row.diffStat.additions} insertion(s)(+), ${row.diffStat.deletions} deletion(s)(-)`);
+            lines.push('```', '');
+        }
+        if (row.taskResult.report) {
+            lines.push('**Report:**', '', row.taskResult.report, '');
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Escape a value for use in HTML text and attributes
+ */
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; padding: 0 1rem; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+th, td { border: 1px solid #d0d7de; padding: 6px 13px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 85%; }
+pre { background: #f6f8fa; padding: 12px; overflow: auto; white-space: pre-wrap; }
+.status-success { color: #1a7f37; }
+.status-failure, .status-resource_exhausted { color: #cf222e; }
+.status-skipped, .status-ongoing, .status-not_started { color: #9a6700; }
+.additions { color: #1a7f37; }
+.deletions { color: #cf222e; }
+section { border: 1px solid #d0d7de; border-radius: 6px; padding: 0 1rem 1rem; margin-bottom: 1rem; }
+`;
+
+/**
+ * Render a run report as a self-contained HTML page
+ * @param data The run report data
+ * @returns The HTML report
+ */
+export function renderHtmlReport(data: RunReportData): string {
+    const rows = getReportRows(data);
+
+    const metadata = [
+        data.runId ? `<li><strong>Run ID:</strong> ${escapeHtml(data.runId)}</li>` : '',
+        data.gitRemoteUrl ? `<li><strong>Repository:</strong> ${escapeHtml(data.gitRemoteUrl)}</li>` : '',
+        `<li><strong>Generated:</strong> ${escapeHtml(new Date(data.generatedAt).toISOString())}</li>`,
+        `<li><strong>Tasks:</strong> ${data.taskResults.length} total, ${countByStatus(data, TaskStatus.SUCCESS)} succeeded, ` +
+            `${countByStatus(data, TaskStatus.FAILURE)} failed, ${countByStatus(data, TaskStatus.SKIPPED)} skipped, ` +
+            `${countByStatus(data, TaskStatus.RESOURCE_EXHAUSTED)} resource exhausted</li>`,
+    ].filter(item => item).join('\n');
+
+    const summaryRows = rows.map(row => `<tr>
+<td><code>${escapeHtml(row.taskResult.ID)}</code></td>
+<td>${escapeHtml(row.taskResult.title)}</td>
+<td class="status-${row.taskResult.status}">${escapeHtml(row.status)}</td>
+<td>${escapeHtml(row.taskResult.agentType || '')}</td>
+<td>${row.branchName ? `<code>${escapeHtml(row.branchName)}</code>` : ''}</td>
+<td>${row.commitHash ? `<code>${escapeHtml(row.commitHash)}</code>` : ''}</td>
+<td>${row.diffStat.files.length > 0
+        ? `${row.diffStat.files.length} file(s), <span class="additions">+${row.diffStat.additions}</span> <span class="deletions">-${row.diffStat.deletions}</span>`
+        : ''}</td>
+</tr>`).join('\n');
+
+    const taskSections = rows.map(row => {
+        const parts = [
+            `<h3>${escapeHtml(row.taskResult.ID)}: ${escapeHtml(row.taskResult.title)}</h3>`,
+            `<p><strong>Status:</strong> <span class="status-${row.taskResult.status}">${escapeHtml(row.status)}</span></p>`,
+        ];
+        if (row.taskResult.description) {
+            parts.push(`<p><strong>Description:</strong> ${escapeHtml(row.taskResult.description)}</p>`);
+        }
+        if (row.commitError) {
+            parts.push(`<p><strong>Commit error:</strong> ${escapeHtml(row.commitError)}</p>`);
+        }
+        if (row.taskResult.candidates && row.taskResult.candidates.length > 0) {
+            const candidateRows = row.taskResult.candidates.map(candidate => {
+                const diffStat = computeDiffStat(candidate.gitDiff);
+                return `<tr><td><code>${escapeHtml(candidate.attemptId)}</code></td><td>${escapeHtml(candidate.agentType)}</td>` +
+                    `<td class="status-${candidate.status}">${escapeHtml(STATUS_LABELS[candidate.status] || candidate.status)}</td>` +
+                    `<td>${escapeHtml(formatTestsPassed(candidate.testsPassed))}</td>` +
+                    `<td><span class="additions">+${diffStat.additions}</span> <span class="deletions">-${diffStat.deletions}</span></td>` +
+                    `<td>${candidate.selected ? '✅' : ''}</td></tr>`;
+            }).join('\n');
+            parts.push(`<p><strong>Candidates:</strong></p>\n<table><tr><th>Attempt</th><th>Agent</th><th>Status</th><th>Tests</th><th>Changes</th><th>Selected</th></tr>\n${candidateRows}\n</table>`);
+            if (row.taskResult.selectionReason) {
+                parts.push(`<p><strong>Selection:</strong> ${escapeHtml(row.taskResult.selectionReason)}</p>`);
+            }
+        }
+        if (row.diffStat.files.length > 0) {
+            const fileRows = row.diffStat.files.map(file =>
+                `<tr><td><code>${escapeHtml(file.path)}</code></td><td class="additions">+${file.additions}</td><td class="deletions">-${file.deletions}</td></tr>`
+            ).join('\n');
+            parts.push(`<table><tr><th>File</th><th>Added</th><th>Deleted</th></tr>\n${fileRows}\n</table>`);
+        }
+        if (row.taskResult.report) {
+            parts.push(`<p><strong>Report:</strong></p>\n<pre>${escapeHtml(row.taskResult.report)}</pre>`);
+        }
+        return `<section>\n${parts.join('\n')}\n</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Full Self Coding Run Report${data.runId ? ` ${escapeHtml(data.runId)}` : ''}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Full Self Coding Run Report</h1>
+<ul>
+${metadata}
+</ul>
+<h2>Summary</h2>
+<table>
+<tr><th>ID</th><th>Title</th><th>Status</th><th>Agent</th><th>Branch</th><th>Commit</th><th>Changes</th></tr>
+${summaryRows}
+</table>
+<h2>Tasks</h2>
+${taskSections}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a run report in the given format
+ * @param data The run report data
+ * @param format The report format
+ * @returns The rendered report
+ */
+export function renderReport(data: RunReportData, format: ReportFormat): string {
+    switch (format) {
+        case ReportFormat.MARKDOWN:
+            return renderMarkdownReport(data);
+        case ReportFormat.HTML:
+            return renderHtmlReport(data);
+        case ReportFormat.JSON:
+            return JSON.stringify(data, null, 2);
+        default:
+            throw new Error(`Unsupported report format: ${format}`);
+    }
+}
+
+/**
+ * Get the file extension used for a report format
+ */
+export function getReportFileExtension(format: ReportFormat): string {
+    switch (format) {
+        case ReportFormat.MARKDOWN:
+            return 'md';
+        case ReportFormat.HTML:
+            return 'html';
+        default:
+            return 'json';
+    }
+}
@@ -0,0 +1,481 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskStatus, type Task, type TaskCandidate, type TaskResult } from './task';
+import { getYYMMDDHHMMSS } from './utils/getDateAndTime';
+import { getDefaultOutputDirectory } from './utils/outputDirectory';
+import { secretRedactor } from './utils/maskSecrets';
+import type { TaskCommitResult } from './codeCommitter';
+import type { Config } from './config';
+import { RepoSource, resolveLocalRepoPath } from './repoSource';
+
+/**
+ * Phase of a run, persisted so an interrupted run can be resumed
+ */
+export enum RunPhase {
+    ANALYZING = 'analyzing',
+    SOLVING = 'solving',
+    COMMITTING = 'committing',
+    COMPLETED = 'completed',
+}
+
+/**
+ * Settings of the repository a run works on, restored when the run is resumed
+ */
+export type RunRepositorySettings = Pick<Config, 'repoUrl' | 'repoSource' | 'localRepoPath' | 'localRepoCommit' | 'gitRef' | 'localClonePath' | 'gitRemoteName'>;
+
+/**
+ * Get the repository settings of a run from its configuration. Relative paths and the
+ * current directory of a local run are resolved, so a resume from another directory works on the same repository.
+ * @param config The loaded configuration
+ * @returns The settings that are set
+ */
+export function getRunRepositorySettings(config: Config): RunRepositorySettings {
+    const settings: RunRepositorySettings = {
+        repoUrl: config.repoUrl,
+        repoSource: config.repoSource,
+        localRepoPath: config.repoSource === RepoSource.LOCAL ? resolveLocalRepoPath(config) : config.localRepoPath,
+        localRepoCommit: config.localRepoCommit,
+        gitRef: config.gitRef,
+        localClonePath: config.localClonePath ? path.resolve(config.localClonePath) : undefined,
+        gitRemoteName: config.gitRemoteName,
+    };
+    return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Status of a run, saved as status.json in the run directory
+ */
+export interface RunStatus {
+    /**
+     * The ID of the run
+     */
+    runId: string;
+
+    /**
+     * The git remote URL the task solvers clone
+     */
+    gitRemoteUrl: string;
+
+    /**
+     * The current phase of the run
+     */
+    phase: RunPhase;
+
+    /**
+     * Unix timestamp (in milliseconds) when the run was created
+     */
+    createdAt: number;
+
+    /**
+     * Unix timestamp (in milliseconds) of the last status update
+     */
+    updatedAt: number;
+
+    /**
+     * Path of the final report, once it has been saved
+     */
+    reportPath?: string;
+
+    /**
+     * The repository the run works on, see getRunRepositorySettings
+     */
+    repository?: RunRepositorySettings;
+}
+
+/**
+ * Entry of the index of past runs, saved as index.json in the runs directory
+ */
+export interface RunIndexEntry extends RunStatus {
+    totalTasks: number;
+    successfulTasks: number;
+    failedTasks: number;
+    skippedTasks: number;
+    resourceExhaustedTasks: number;
+}
+
+/**
+ * Final report of a run, saved as finalReport.json in the run directory
+ */
+export interface FinalReport {
+    runId: string;
+    gitRemoteUrl: string;
+    createdAt: number;
+    generatedAt: number;
+    summary: {
+        totalTasks: number;
+        successfulTasks: number;
+        failedTasks: number;
+        skippedTasks: number;
+        resourceExhaustedTasks: number;
+    };
+    tasks: TaskResult[];
+    commits?: TaskCommitResult[];
+}
+
+/**
+ * Get the directory that holds all run directories
+ * @param outputDirectory The output directory, see resolveOutputDirectory
+ * @returns Path to <outputDirectory>/runs
+ */
+export function getRunsDirectory(outputDirectory: string = getDefaultOutputDirectory()): string {
+    return path.join(outputDirectory, 'runs');
+}
+
+/**
+ * Read the index of past runs, most recent first
+ * @param runsDirectory Directory that holds all run directories
+ * @returns The entries of the index, or an empty array if there is no index yet
+ */
+export function readRunIndex(runsDirectory: string = getRunsDirectory()): RunIndexEntry[] {
+    const indexPath = path.join(runsDirectory, 'index.json');
+    if (!fs.existsSync(indexPath)) {
+        return [];
+    }
+
+    try {
+        const entries: RunIndexEntry[] = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        return entries.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+        throw new Error(`Failed to read run index ${indexPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Count the task results per outcome
+ */
+function summarizeTaskResults(taskResults: TaskResult[]): FinalReport['summary'] {
+    return {
+        totalTasks: taskResults.length,
+        successfulTasks: taskResults.filter(result => result.status === TaskStatus.SUCCESS).length,
+        failedTasks: taskResults.filter(result => result.status === TaskStatus.FAILURE).length,
+        skippedTasks: taskResults.filter(result => result.status === TaskStatus.SKIPPED).length,
+        resourceExhaustedTasks: taskResults.filter(result => result.status === TaskStatus.RESOURCE_EXHAUSTED).length,
+    };
+}
+
+/**
+ * Generate a new, sortable run ID
+ * @returns A run ID such as 250101120000-k3f9
+ */
+export function generateRunId(): string {
+    return `${getYYMMDDHHMMSS()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Statuses of tasks that have finished and do not need to be solved again on resume
+ */
+const FINISHED_TASK_STATUSES: TaskStatus[] = [
+    TaskStatus.SUCCESS,
+    TaskStatus.FAILURE,
+    TaskStatus.SKIPPED,
+    TaskStatus.RESOURCE_EXHAUSTED,
+];
+
+/**
+ * RunStore persists the state of a run on disk, so that the tasks, per-task results,
+ * diffs and logs survive a crash of the CLI process and the run can be resumed.
+ *
+ * Layout of a run directory:
+ *   <runsDirectory>/<runId>/status.json        run status
+ *   <runsDirectory>/<runId>/tasks.json         tasks of the run
+ *   <runsDirectory>/<runId>/results/<ID>.json  TaskResult of each task, without the diff
+ *   <runsDirectory>/<runId>/diffs/<ID>.diff    git diff of each task
+ *   <runsDirectory>/<runId>/candidates/<ID>/<attemptId>.diff  git diff of each attempt of a best-of-N task
+ *   <runsDirectory>/<runId>/commits/<ID>.json  TaskCommitResult of each committed task
+ *   <runsDirectory>/<runId>/run.log            log of the run
+ *
+ * The secrets registered with the secretRedactor are masked in the results, reports and log.
+ * Diffs are stored as they are, so they can still be applied.
+ */
+export class RunStore {
+    private readonly runDirectory: string;
+    private status: RunStatus;
+
+    private constructor(runDirectory: string, status: RunStatus) {
+        this.runDirectory = runDirectory;
+        this.status = status;
+    }
+
+    /**
+     * Create a new run with its own run directory
+     * @param gitRemoteUrl The git remote URL the task solvers clone
+     * @param runsDirectory Directory that holds all run directories
+     * @param repository The repository settings of the run, see getRunRepositorySettings
+     * @returns The store of the new run
+     */
+    static create(gitRemoteUrl: string, runsDirectory: string = getRunsDirectory(), repository?: RunRepositorySettings): RunStore {
+        const runId = generateRunId();
+        const runDirectory = path.join(runsDirectory, runId);
+        fs.mkdirSync(path.join(runDirectory, 'results'), { recursive: true });
+        fs.mkdirSync(path.join(runDirectory, 'diffs'), { recursive: true });
+
+        const now = Date.now();
+        const store = new RunStore(runDirectory, {
+            runId,
+            gitRemoteUrl,
+            phase: RunPhase.ANALYZING,
+            createdAt: now,
+            updatedAt: now,
+            repository,
+        });
+        store.writeStatus();
+        return store;
+    }
+
+    /**
+     * Open an existing run
+     * @param runId The ID of the run
+     * @param runsDirectory Directory that holds all run directories
+     * @returns The store of the run
+     * @throws Error if the run does not exist
+     */
+    static open(runId: string, runsDirectory: string = getRunsDirectory()): RunStore {
+        const runDirectory = path.join(runsDirectory, runId);
+        const statusPath = path.join(runDirectory, 'status.json');
+        if (!fs.existsSync(statusPath)) {
+            throw new Error(`Run ${runId} not found in ${runsDirectory}`);
+        }
+
+        try {
+            const status: RunStatus = JSON.parse(fs.readFileSync(statusPath, 'utf8'));
+            return new RunStore(runDirectory, status);
+        } catch (error) {
+            throw new Error(`Failed to read status of run ${runId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    getRunId(): string {
+        return this.status.runId;
+    }
+
+    getRunDirectory(): string {
+        return this.runDirectory;
+    }
+
+    getStatus(): RunStatus {
+        return { ...this.status };
+    }
+
+    /**
+     * Update the phase of the run
+     */
+    setPhase(phase: RunPhase): void {
+        this.status = { ...this.status, phase, updatedAt: Date.now() };
+        this.writeStatus();
+        this.appendLog(`Run entered phase ${phase}`);
+    }
+
+    /**
+     * Save the tasks of the run
+     */
+    saveTasks(tasks: Task[]): void {
+        fs.writeFileSync(path.join(this.runDirectory, 'tasks.json'), JSON.stringify(tasks, null, 2), 'utf8');
+    }
+
+    /**
+     * Load the tasks of the run
+     * @returns The saved tasks, or an empty array if the run has no tasks yet
+     */
+    loadTasks(): Task[] {
+        const tasksPath = path.join(this.runDirectory, 'tasks.json');
+        if (!fs.existsSync(tasksPath)) {
+            return [];
+        }
+        return JSON.parse(fs.readFileSync(tasksPath, 'utf8'));
+    }
+
+    /**
+     * Save the result of a task. The git diff is stored separately in the diffs directory,
+     * the git diffs of best-of-N candidates in the candidates directory.
+     */
+    saveTaskResult(taskResult: TaskResult): void {
+        const { gitDiff, ...resultWithoutDiff } = taskResult;
+        const fileName = this.getTaskFileName(taskResult.ID);
+        if (resultWithoutDiff.candidates) {
+            resultWithoutDiff.candidates = this.saveCandidateDiffs(fileName, resultWithoutDiff.candidates);
+        }
+
+        fs.writeFileSync(
+            path.join(this.runDirectory, 'results', `${fileName}.json`),
+            secretRedactor.redact(JSON.stringify(resultWithoutDiff, null, 2)),
+            'utf8'
+        );
+        const diffPath = path.join(this.runDirectory, 'diffs', `${fileName}.diff`);
+        if (gitDiff) {
+            fs.writeFileSync(diffPath, gitDiff, 'utf8');
+        } else {
+            fs.rmSync(diffPath, { force: true });
+        }
+    }
+
+    /**
+     * Load all saved task results, including their git diffs
+     */
+    loadTaskResults(): TaskResult[] {
+        const resultsDirectory = path.join(this.runDirectory, 'results');
+        if (!fs.existsSync(resultsDirectory)) {
+            return [];
+        }
+
+        return fs.readdirSync(resultsDirectory)
+            .filter(fileName => fileName.endsWith('.json'))
+            .sort()
+            .map(fileName => {
+                const taskResult: TaskResult = JSON.parse(fs.readFileSync(path.join(resultsDirectory, fileName), 'utf8'));
+                const diffPath = path.join(this.runDirectory, 'diffs', fileName.replace(/\.json$/, '.diff'));
+                if (fs.existsSync(diffPath)) {
+                    taskResult.gitDiff = fs.readFileSync(diffPath, 'utf8');
+                }
+                taskResult.candidates = taskResult.candidates?.map(candidate => {
+                    const candidateDiffPath = this.getCandidateDiffPath(fileName.replace(/\.json$/, ''), candidate.attemptId);
+                    return fs.existsSync(candidateDiffPath)
+                        ? { ...candidate, gitDiff: fs.readFileSync(candidateDiffPath, 'utf8') }
+                        : candidate;
+                });
+                return taskResult;
+            });
+    }
+
+    /**
+     * Get the results of tasks that have already finished
+     */
+    getFinishedTaskResults(): TaskResult[] {
+        return this.loadTaskResults().filter(result => FINISHED_TASK_STATUSES.includes(result.status));
+    }
+
+    /**
+     * Get the tasks that still need to be solved, i.e. tasks without a result
+     * or whose result is still NOT_STARTED or ONGOING
+     */
+    getPendingTasks(): Task[] {
+        const finishedIDs = new Set(this.getFinishedTaskResults().map(result => result.ID));
+        return this.loadTasks().filter(task => !finishedIDs.has(task.ID));
+    }
+
+    /**
+     * Save the result of committing the changes of a task, so a resumed run does not commit them again
+     */
+    saveCommitResult(commitResult: TaskCommitResult): void {
+        fs.mkdirSync(path.join(this.runDirectory, 'commits'), { recursive: true });
+        fs.writeFileSync(
+            path.join(this.runDirectory, 'commits', `${this.getTaskFileName(commitResult.taskId)}.json`),
+            secretRedactor.redact(JSON.stringify(commitResult, null, 2)),
+            'utf8'
+        );
+    }
+
+    /**
+     * Load the saved results of the tasks whose changes have already been committed
+     */
+    loadCommitResults(): TaskCommitResult[] {
+        const commitsDirectory = path.join(this.runDirectory, 'commits');
+        if (!fs.existsSync(commitsDirectory)) {
+            return [];
+        }
+
+        return fs.readdirSync(commitsDirectory)
+            .filter(fileName => fileName.endsWith('.json'))
+            .sort()
+            .map(fileName => JSON.parse(fs.readFileSync(path.join(commitsDirectory, fileName), 'utf8')));
+    }
+
+    /**
+     * Save the final report of the run as JSON
+     * @param taskResults The results of all tasks of the run
+     * @param commitResults The results of committing the task changes
+     * @returns Path of the saved report
+     */
+    saveFinalReport(taskResults: TaskResult[], commitResults?: TaskCommitResult[]): string {
+        const report: FinalReport = {
+            runId: this.status.runId,
+            gitRemoteUrl: this.status.gitRemoteUrl,
+            createdAt: this.status.createdAt,
+            generatedAt: Date.now(),
+            summary: summarizeTaskResults(taskResults),
+            tasks: taskResults,
+            commits: commitResults,
+        };
+
+        const reportPath = path.join(this.runDirectory, 'finalReport.json');
+        fs.writeFileSync(reportPath, secretRedactor.redact(JSON.stringify(report, null, 2)), 'utf8');
+
+        this.status = { ...this.status, reportPath, updatedAt: Date.now() };
+        this.writeStatus();
+        return reportPath;
+    }
+
+    /**
+     * Save a rendered copy of the final report, e.g. as Markdown or HTML
+     * @param content The rendered report
+     * @param extension File extension of the report format
+     * @returns Path of the saved report
+     */
+    saveRenderedReport(content: string, extension: string): string {
+        const reportPath = path.join(this.runDirectory, `finalReport.${extension}`);
+        fs.writeFileSync(reportPath, secretRedactor.redact(content), 'utf8');
+        return reportPath;
+    }
+
+    /**
+     * Append a timestamped line to the run log
+     */
+    appendLog(message: string): void {
+        fs.appendFileSync(path.join(this.runDirectory, 'run.log'), `[${new Date().toISOString()}] ${secretRedactor.redact(message)}\n`, 'utf8');
+    }
+
+    private writeStatus(): void {
+        fs.writeFileSync(path.join(this.runDirectory, 'status.json'), JSON.stringify(this.status, null, 2), 'utf8');
+        this.updateRunIndex();
+    }
+
+    /**
+     * Add or refresh the entry of this run in the index of past runs
+     */
+    private updateRunIndex(): void {
+        const runsDirectory = path.dirname(this.runDirectory);
+        const entry: RunIndexEntry = {
+            ...this.status,
+            ...summarizeTaskResults(this.getFinishedTaskResults()),
+        };
+
+        try {
+            const entries = readRunIndex(runsDirectory).filter(existing => existing.runId !== entry.runId);
+            entries.push(entry);
+            fs.writeFileSync(path.join(runsDirectory, 'index.json'), JSON.stringify(entries, null, 2), 'utf8');
+        } catch (error) {
+            // The index is a convenience for the history command, never fail a run because of it
+            console.warn(`Warning: Could not update run index: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Write the git diff of each candidate to the candidates directory of the task
+     * @returns The candidates without their git diffs
+     */
+    private saveCandidateDiffs(fileName: string, candidates: TaskCandidate[]): TaskCandidate[] {
+        fs.mkdirSync(path.join(this.runDirectory, 'candidates', fileName), { recursive: true });
+        return candidates.map(({ gitDiff, ...candidateWithoutDiff }) => {
+            if (gitDiff) {
+                fs.writeFileSync(this.getCandidateDiffPath(fileName, candidateWithoutDiff.attemptId), gitDiff, 'utf8');
+            }
+            return candidateWithoutDiff;
+        });
+    }
+
+    private getCandidateDiffPath(fileName: string, attemptId: string): string {
+        return path.join(this.runDirectory, 'candidates', fileName, `${this.getTaskFileName(attemptId)}.diff`);
+    }
+
+    /**
+     * Task IDs are produced by the agent, so make them safe to use as file names. A short hash of the
+     * raw ID is appended when characters were replaced, so "a/b" and "a_b" do not share a file.
+     */
+    private getTaskFileName(taskID: string): string {
+        const fileName = taskID.replace(/[^A-Za-z0-9._-]/g, '_');
+        if (fileName === taskID) {
+            return fileName;
+        }
+        return `${fileName}-${createHash('sha256').update(taskID).digest('hex').substring(0, 8)}`;
+    }
+}
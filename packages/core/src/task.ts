@@ -1,3 +1,5 @@
+import type { FailedAttempt } from './retryPolicy';
+
 /**
  * Represents a task to be executed by the system
  */
@@ -27,6 +29,22 @@ export interface Task {
      * The ID of the task
      */
     ID: string;
+
+    /**
+     * The agent type that solves the task. When it is not set, the agent is chosen
+     * by the routing rules, round-robin or config.agentType.
+     */
+    agentType?: string;
+
+    /**
+     * Labels the agent routing rules can match, e.g. "frontend" or "docs"
+     */
+    labels?: string[];
+
+    /**
+     * Previous attempts at the task that did not succeed, set when the retry policy re-runs it
+     */
+    previousAttempts?: FailedAttempt[];
 }
 
 /**
@@ -38,6 +56,10 @@ export enum TaskStatus {
     ONGOING = 'ongoing',
     NOT_STARTED = 'not_started',
     SKIPPED = 'skipped',
+    /**
+     * The agent was killed for running out of memory, or its container ran out of disk space
+     */
+    RESOURCE_EXHAUSTED = 'resource_exhausted',
 }
 
 /**
@@ -77,4 +99,54 @@ export interface TaskResult extends Task {
      * The git diff of the changes made by this task
      */
     gitDiff?: string;
+
+    /**
+     * Every attempt of a task solved best-of-N, including the selected one
+     */
+    candidates?: TaskCandidate[];
+
+    /**
+     * Why the selected candidate of a best-of-N task was chosen
+     */
+    selectionReason?: string;
+}
+
+/**
+ * One attempt at solving a task in a best-of-N run
+ */
+export interface TaskCandidate {
+    /**
+     * The ID of the attempt, e.g. "attempt-2"
+     */
+    attemptId: string;
+
+    /**
+     * The agent type that made the attempt
+     */
+    agentType: string;
+
+    /**
+     * The status of the attempt
+     */
+    status: TaskStatus;
+
+    /**
+     * The report of the agent, or the error of a failed attempt
+     */
+    report: string;
+
+    /**
+     * The git diff of the attempt
+     */
+    gitDiff?: string;
+
+    /**
+     * Whether the test command passed after the attempt, if tests were run
+     */
+    testsPassed?: boolean;
+
+    /**
+     * Whether this attempt was selected as the result of the task
+     */
+    selected: boolean;
 }
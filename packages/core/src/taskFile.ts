@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import type { Task } from './task';
+
+/**
+ * Supported formats for task files
+ */
+export enum TaskFileFormat {
+    JSON = 'json',
+    YAML = 'yaml',
+}
+
+/**
+ * Determine the task file format from a file path
+ * @param filePath Path of the task file
+ * @returns YAML for .yaml/.yml files, JSON otherwise
+ */
+export function getTaskFileFormat(filePath: string): TaskFileFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.yaml' || extension === '.yml') {
+        return TaskFileFormat.YAML;
+    }
+    return TaskFileFormat.JSON;
+}
+
+/**
+ * Serialize a list of tasks into the given format
+ * @param tasks Tasks to serialize
+ * @param format Output format
+ * @returns Serialized task list
+ */
+export function serializeTasks(tasks: Task[], format: TaskFileFormat = TaskFileFormat.JSON): string {
+    switch (format) {
+        case TaskFileFormat.YAML:
+            return YAML.stringify(tasks);
+        case TaskFileFormat.JSON:
+            return JSON.stringify(tasks, null, 2) + '\n';
+        default:
+            throw new Error(`Unsupported task file format: ${format}`);
+    }
+}
+
+/**
+ * Write a list of tasks to a file, so they can be reviewed and edited before solving
+ * @param tasks Tasks to write
+ * @param filePath Destination path
+ * @param format Output format, derived from the file extension if not provided
+ */
+export function writeTasksFile(tasks: Task[], filePath: string, format?: TaskFileFormat): void {
+    const resolvedFormat = format || getTaskFileFormat(filePath);
+    try {
+        const directory = path.dirname(filePath);
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory, { recursive: true });
+        }
+        fs.writeFileSync(filePath, serializeTasks(tasks, resolvedFormat), 'utf8');
+    } catch (error) {
+        throw new Error(`Failed to write task file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Parse a serialized task list
+ * @param content Serialized task list
+ * @param format Format of the content
+ * @returns The validated tasks
+ */
+export function parseTasks(content: string, format: TaskFileFormat = TaskFileFormat.JSON): Task[] {
+    let parsed: unknown;
+    try {
+        parsed = format === TaskFileFormat.YAML ? YAML.parse(content) : JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid ${format.toUpperCase()} in task file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return validateTasks(parsed);
+}
+
+/**
+ * Read and validate a task file written by the analyzer or by hand
+ * @param filePath Path of the task file
+ * @param format Input format, derived from the file extension if not provided
+ * @returns The validated tasks
+ */
+export function readTasksFile(filePath: string, format?: TaskFileFormat): Task[] {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Task file not found: ${filePath}`);
+    }
+    const content = fs.readFileSync(filePath, 'utf8');
+    return parseTasks(content, format || getTaskFileFormat(filePath));
+}
+
+/**
+ * Validate that a parsed value is a list of tasks matching the Task interface
+ * @param value Parsed task file content
+ * @returns The validated tasks
+ * @throws Error describing the first invalid entry
+ */
+export function validateTasks(value: unknown): Task[] {
+    if (!Array.isArray(value)) {
+        throw new Error('Task file must contain an array of tasks');
+    }
+
+    const seenIDs = new Set<string>();
+    return value.map((entry, index) => {
+        const task = validateTask(entry, index);
+        if (seenIDs.has(task.ID)) {
+            throw new Error(`Task at index ${index} has a duplicate ID: ${task.ID}`);
+        }
+        seenIDs.add(task.ID);
+        return task;
+    });
+}
+
+/**
+ * Validate a single task entry
+ * @param entry Parsed task entry
+ * @param index Position of the entry in the task file, used in error messages
+ * @returns The validated task
+ */
+function validateTask(entry: unknown, index: number): Task {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        throw new Error(`Task at index ${index} must be an object`);
+    }
+
+    const task = entry as Record<string, unknown>;
+    for (const field of ['ID', 'title', 'description'] as const) {
+        if (typeof task[field] !== 'string') {
+            throw new Error(`Task at index ${index} must have a string field "${field}"`);
+        }
+    }
+    if ((task.ID as string).trim() === '') {
+        throw new Error(`Task at index ${index} has an empty ID`);
+    }
+    if ((task.title as string).trim() === '') {
+        throw new Error(`Task at index ${index} has an empty title`);
+    }
+    if (typeof task.priority !== 'number' || !Number.isInteger(task.priority)) {
+        throw new Error(`Task at index ${index} must have an integer field "priority"`);
+    }
+    if (task.agentType !== undefined && (typeof task.agentType !== 'string' || task.agentType.trim() === '')) {
+        throw new Error(`Task at index ${index} must have a non-empty string field "agentType" if it has one`);
+    }
+    if (task.labels !== undefined && (!Array.isArray(task.labels) || !task.labels.every(label => typeof label === 'string'))) {
+        throw new Error(`Task at index ${index} must have an array of strings in field "labels" if it has one`);
+    }
+
+    return entry as Task;
+}
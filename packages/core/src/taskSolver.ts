@@ -1,34 +1,68 @@
 import type { Config, SWEAgentType } from "./config";
 import type { Task, TaskResult } from "./task";
 import { TaskStatus } from "./task";
-import { DockerInstance, DockerRunStatus } from "./dockerInstance";
+import { DockerInstance, DockerRunStatus, getContainerResourceLimits } from "./dockerInstance";
 import { taskSolverCommands } from "./SWEAgent/SWEAgentTaskSolverCommands";
+import { getAgentEnvironment, getAgentOutputPaths } from "./SWEAgent/SWEAgentAdapter";
+import { sweAgentAdapterRegistry } from "./SWEAgent/SWEAgentAdapterRegistry";
 import { trimJSONSingleObject } from "./utils/trimJSON";
 import { taskSolverPrompt } from "./prompts/taskSolverPrompt";
+import { getConfigSecrets } from "./utils/maskSecrets";
+import { getContainerRuntime } from "./containerRuntime";
+import { copyLocalRepoToContainer } from "./repoSource";
+import { getGitCredentialCleanupCommands, setupGitCredentials, withGitCredentials } from "./gitCredentials";
+import { NetworkPolicy, getNetworkStartOptions } from "./networkPolicy";
+import { findAgentImage } from "./agentImage";
+import type { ContainerPool } from "./containerPool";
+/**
+ * Maximum number of characters of command output kept in error messages
+ */
+const MAX_ERROR_OUTPUT_LENGTH = 4000;
+
+/**
+ * Format the end of the error output of a failed command for an error message,
+ * so the report and the next attempt of the task can see why it failed
+ */
+function formatErrorOutput(result: { output: string; error?: string }): string {
+  const errorOutput = (result.error || result.output || '').trim();
+  if (!errorOutput) {
+    return '';
+  }
+  return `:\n${errorOutput.length > MAX_ERROR_OUTPUT_LENGTH ? `...${errorOutput.slice(-MAX_ERROR_OUTPUT_LENGTH)}` : errorOutput}`;
+}
+
 export class TaskSolver {
     private config: Config;
     private task: Task;
     private taskResult: TaskResult;
-    private agentType: SWEAgentType;
+    private agentType: SWEAgentType | string;
     private gitURL: string;
     private dockerInstance: DockerInstance;
     private dockerContainerName: string;
+    private containerPool?: ContainerPool;
 
-    constructor(config: Config, task: Task, agentType: SWEAgentType, gitURL: string) {
+    /**
+     * @param config The configuration object
+     * @param task The task to solve
+     * @param agentType The agent that solves the task
+     * @param gitURL The git remote URL the container clones
+     * @param containerPool Optional pool of warm containers, the solver sets up its own container if the pool has none
+     */
+    constructor(config: Config, task: Task, agentType: SWEAgentType | string, gitURL: string, containerPool?: ContainerPool) {
         this.config = config;
         this.task = task;
         this.taskResult = {
             ...task,
+            agentType,
             status: TaskStatus.NOT_STARTED,
             report: '',
             completedAt: 0,
         };
         this.agentType = agentType;
         this.gitURL = gitURL;
-        this.dockerInstance = new DockerInstance();
+        this.dockerInstance = new DockerInstance({ dryRun: config.dryRun, secrets: getConfigSecrets(config), runtime: getContainerRuntime(config) });
         this.dockerContainerName = "";
-
-        this.agentType = this.config.agentType;
+        this.containerPool = containerPool;
     }
 
     /**
@@ -36,150 +70,177 @@ export class TaskSolver {
      */
     async solve(shutdown: boolean = true){
 
-      const imageRef = this.config.dockerImageRef || "node:latest";
       console.log(`task solver is now solving task ${this.task.ID}`);
-      this.dockerContainerName = await this.dockerInstance.startContainer(imageRef, this.task.ID);
+      await sweAgentAdapterRegistry.loadModules(this.config.agentAdapterModules);
+      const adapter = sweAgentAdapterRegistry.get(this.agentType);
+      const agentConfig: Config = { ...this.config, agentType: this.agentType };
+      // first get the task prompt and save/copy to the docker container
+      const taskPrompt = taskSolverPrompt(this.task, this.config);
+      let commandArray: string[];
 
+      const warmContainer = this.containerPool ? await this.containerPool.acquire(this.agentType) : undefined;
+      // whatever happens from here on, the container must not be left running
+      try {
+        if (warmContainer) {
+          // the warm container has the repository cloned and the tools, the agent and the dependencies installed
+          this.dockerInstance = warmContainer;
+          this.dockerContainerName = warmContainer.getContainerName() || "";
+          await this.dockerInstance.copyFileToContainer(taskPrompt, "/app/taskSolverPrompt.txt");
+          commandArray = [adapter.getSolverCommand(agentConfig)];
+        }
+        else {
+          // the prebuilt image of the agent saves installing the tools and the agent in every task
+          const agentImage = findAgentImage(agentConfig, adapter, this.dockerInstance);
+          const imageRef = agentImage || this.config.dockerImageRef || "node:latest";
+          // the API keys of the agent are passed to the container as environment variables,
+          // so they never show up in the commands
+          const environment = getAgentEnvironment(adapter, agentConfig);
+          this.dockerContainerName = await this.dockerInstance.startContainer(imageRef, this.task.ID, withGitCredentials(this.config, {
+            environment,
+            resources: getContainerResourceLimits(this.config),
+            ...getNetworkStartOptions(agentConfig, adapter, this.gitURL),
+          }));
 
-      // 0.4 copy all files related to git to the container
-      const os = await import('os');
-      const fs = await import('fs');
-      const path = await import('path');
 
-      // 0.4.1 create ~/.ssh folder in the container
-      await this.dockerInstance.runCommands(['mkdir', '-p', '/root/.ssh']);
+          // 0.4 set up the git credentials of the configured strategy
+          await setupGitCredentials(this.dockerInstance, this.config);
 
-      // 0.4.2 copy all files in ~/.ssh to ~/.ssh (/root/.ssh) in the container
-      const sshPath = path.join(os.homedir(), '.ssh');
-      if (fs.existsSync(sshPath)) {
-          console.log(`Copying SSH files from ${sshPath} to container...`);
-          await this.dockerInstance.copyFilesToContainer(sshPath, '/root/.ssh');
-      } else {
-          console.warn(`SSH directory not found at ${sshPath}, skipping SSH file copy`);
-      }
+          // save the task prompt to the docker container
+          await this.dockerInstance.runCommands([
+            "mkdir -p /app"
+          ], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+          await this.dockerInstance.copyFileToContainer(taskPrompt, "/app/taskSolverPrompt.txt");
 
-      // 0.4.3 read ~/.gitconfig on local machine using fs
-      const gitConfigPath = path.join(os.homedir(), '.gitconfig');
-      if (fs.existsSync(gitConfigPath)) {
-          console.log(`Reading git config from ${gitConfigPath}...`);
-          const dotGitConfigFileText = await fs.promises.readFile(gitConfigPath, 'utf8');
-          // 0.4.4 copy ~/.gitconfig to ~/.gitconfig (/root/.gitconfig) in the container
-          await this.dockerInstance.copyFileToContainer(dotGitConfigFileText, '/root/.gitconfig');
-      } else {
-          console.warn(`Git config file not found at ${gitConfigPath}, skipping git config copy`);
-      }
+          // copy the local checkout into the container if the repository is not cloned from the remote
+          await copyLocalRepoToContainer(this.dockerInstance, this.config);
 
-      // 0.4.4 remove the ~/.ssh/config from the docker container if it exists
-      await this.dockerInstance.runCommands(['rm -f /root/.ssh/config']);
+          // get the command
+          commandArray = taskSolverCommands(this.agentType, this.config, this.task, this.gitURL, agentImage !== undefined);
+          // the repository is cloned by now, the agent must not be able to read the deploy key
+          commandArray.splice(-1, 0, ...getGitCredentialCleanupCommands(this.config));
+        }
 
+        // split the commandArray, the first N-1 commands to run using dockerInstance.runCommands
+        // the last command to run using dockerInstance.runCommandAsync
+        const lastCommand = commandArray.pop();
 
-      // first get the task prompt and save/copy to the docker container
-      const taskPrompt = taskSolverPrompt(this.task, this.config);
-      
-      // save the task prompt to the docker container
-      await this.dockerInstance.runCommands([
-        "mkdir -p /app"
-      ], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
-      await this.dockerInstance.copyFileToContainer(taskPrompt, "/app/taskSolverPrompt.txt");
-
-      // get the command
-      const commandArray = taskSolverCommands(this.agentType, this.config, this.task, this.gitURL);
-
-      // split the commandArray, the first N-1 commands to run using dockerInstance.runCommands
-      // the last command to run using dockerInstance.runCommandAsync
-      const lastCommand = commandArray.pop();
-
-      // run the first N-1 commands
-      // const dockerResult = await this.dockerInstance.runCommands(commandArray, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
-
-      for (const eachCommand of commandArray) {
-        const dockerResult = await this.dockerInstance.runCommandAsync(eachCommand, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
-        if (dockerResult.status !== DockerRunStatus.SUCCESS) {
-          console.error(`Docker run failed with status ${dockerResult.status}`);
-          throw new Error(`Docker run failed with status ${dockerResult.status}`);
+        // run the first N-1 commands
+        // const dockerResult = await this.dockerInstance.runCommands(commandArray, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+
+        for (const eachCommand of commandArray) {
+          const dockerResult = await this.dockerInstance.runCommandAsync(eachCommand, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+          if (dockerResult.status === DockerRunStatus.RESOURCE_EXHAUSTED) {
+            this.finishResourceExhausted(dockerResult);
+            return;
+          }
+          if (dockerResult.status !== DockerRunStatus.SUCCESS) {
+            console.error(`Docker run failed with status ${dockerResult.status}`);
+            throw new Error(`Docker run failed with status ${dockerResult.status}${formatErrorOutput(dockerResult)}`);
+          }
         }
-      }
 
-      let finalOutputOfTaskSolverCommand = null;
+        let finalOutputOfTaskSolverCommand = null;
 
-      // run the last command asynchronously
-      if (lastCommand) {
-        console.log(`Starting solving the task ${this.task.ID} with last command: ${lastCommand} at ${this.dockerContainerName}`);
-        finalOutputOfTaskSolverCommand = await this.dockerInstance.runCommandAsync(lastCommand, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
-      }
-      else {
-        throw new Error("Last command for running task solver is undefined.");
-      }
+        // the repository and the agent are set up, cut the container off the network before the agent runs
+        if (this.config.networkPolicy === NetworkPolicy.NONE) {
+          await this.dockerInstance.isolateNetwork();
+        }
 
-      // parse the output of the last command
-      if (finalOutputOfTaskSolverCommand.status !== DockerRunStatus.SUCCESS) {
-        console.error(`Docker run task solver command failed with status ${finalOutputOfTaskSolverCommand.status}`);
-        throw new Error(`Docker run task solver command failed with status ${finalOutputOfTaskSolverCommand.status}`);
-      }
+        // run the last command asynchronously
+        if (lastCommand) {
+          console.log(`Starting solving the task ${this.task.ID} with last command: ${lastCommand} at ${this.dockerContainerName}`);
+          finalOutputOfTaskSolverCommand = await this.dockerInstance.runCommandAsync(lastCommand, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+        }
+        else {
+          throw new Error("Last command for running task solver is undefined.");
+        }
 
-      // // parse the output
-      // if (dockerResult.status !== DockerRunStatus.SUCCESS) {
-      //   console.error(`Docker run failed with status ${dockerResult.status}`);
-      //   throw new Error(`Docker run failed with status ${dockerResult.status}`);
-      // }
+        // parse the output of the last command
+        if (finalOutputOfTaskSolverCommand.status === DockerRunStatus.RESOURCE_EXHAUSTED) {
+          this.finishResourceExhausted(finalOutputOfTaskSolverCommand);
+          return;
+        }
+        if (finalOutputOfTaskSolverCommand.status !== DockerRunStatus.SUCCESS) {
+          console.error(`Docker run task solver command failed with status ${finalOutputOfTaskSolverCommand.status}`);
+          throw new Error(`Docker run task solver command failed with status ${finalOutputOfTaskSolverCommand.status}${formatErrorOutput(finalOutputOfTaskSolverCommand)}`);
+        }
 
-      // console.log("All commands executed successfully.");
-      // console.log(dockerResult.output);
+        // // parse the output
+        // if (dockerResult.status !== DockerRunStatus.SUCCESS) {
+        //   console.error(`Docker run failed with status ${dockerResult.status}`);
+        //   throw new Error(`Docker run failed with status ${dockerResult.status}`);
+        // }
 
-      // read the generated final report from /app/finalReport.json
-      const readFinalReportCommand = `node /app/diff/run.js && cat /app/finalReport.json`;
+        // console.log("All commands executed successfully.");
+        // console.log(dockerResult.output);
 
-      const finalReportResult = await this.dockerInstance.runCommands([readFinalReportCommand], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+        // read the generated final report, /app/finalReport.json unless the agent adapter says otherwise
+        const finalReportPath = getAgentOutputPaths(adapter).finalReport;
+        const readFinalReportCommand = `node /app/diff/run.js && cat ${finalReportPath}`;
 
-      if (finalReportResult.status !== DockerRunStatus.SUCCESS) {
-        console.error(`Docker run failed with status ${finalReportResult.status}`);
-      }
-      
-      /**
-       * parse the output, here is an example:
-       *
-        {
-            "taskId": "the task ID",
-            "title": "the task title",
-            "description": "the task description",
-            "status": "success" | "skipped" | "failed",
-            "report": "A very detailed report of the task execution."
-        }
-       */
-      try {
+        const finalReportResult = await this.dockerInstance.runCommands([readFinalReportCommand], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
 
+        if (finalReportResult.status !== DockerRunStatus.SUCCESS) {
+          console.error(`Docker run failed with status ${finalReportResult.status}`);
+        }
+      
         /**
-         * Read the final report from the container
+         * parse the output, here is an example:
+         *
+          {
+              "taskId": "the task ID",
+              "title": "the task title",
+              "description": "the task description",
+              "status": "success" | "skipped" | "failed",
+              "report": "A very detailed report of the task execution."
+          }
          */
-        const finalReport = JSON.parse(trimJSONSingleObject(finalReportResult.output));
-        const { taskId, title, description, status,  report } = finalReport;
-        this.taskResult = {
-          ...this.taskResult,
-          title,
-          description,
-          status: status === "success" ? TaskStatus.SUCCESS : status === "skipped" ? TaskStatus.SKIPPED : TaskStatus.FAILURE,
-          report,
-          completedAt: Date.now(),
-        };
+        try {
 
-        /**
-         * Read the git diff from the container via file /app/git_diff.txt
-         * and parse it as JSON
-         */
-        if (status === "success") {
-          console.log("Start to read git diff from container...");
-          const gitDiffResult = await this.dockerInstance.copyFileFromContainer("/app/git_diff.txt");
-          this.taskResult.gitDiff = gitDiffResult;
-          console.log("Git diff read successfully.");
-        }
+          // In a dry run the agent never ran, so there is no final report to read
+          if (this.config.dryRun) {
+            this.taskResult = {
+              ...this.taskResult,
+              status: TaskStatus.SKIPPED,
+              report: "Dry run: the task solver commands were recorded but not executed",
+              completedAt: Date.now(),
+            };
+            return;
+          }
+
+          /**
+           * Read the final report from the container
+           */
+          const finalReport = JSON.parse(trimJSONSingleObject(finalReportResult.output));
+          const { taskId, title, description, status,  report } = finalReport;
+          this.taskResult = {
+            ...this.taskResult,
+            title,
+            description,
+            status: status === "success" ? TaskStatus.SUCCESS : status === "skipped" ? TaskStatus.SKIPPED : TaskStatus.FAILURE,
+            report,
+            completedAt: Date.now(),
+          };
 
-        // the last step, output "done" to "/app/done.txt"
-        await this.dockerInstance.runCommands([
-          "echo \"done\" > /app/done.txt"
-        ], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
-      } catch (error) {
-        console.error(`Failed to parse final report: ${error}`);
-        throw new Error(`Failed to parse final report: ${error}`);
+          /**
+           * Read the git diff from the container via file /app/git_diff.txt
+           * and parse it as JSON
+           */
+          if (status === "success") {
+            console.log("Start to read git diff from container...");
+            const gitDiffResult = await this.dockerInstance.copyFileFromContainer("/app/git_diff.txt");
+            this.taskResult.gitDiff = gitDiffResult;
+            console.log("Git diff read successfully.");
+          }
+
+          // the last step, output "done" to "/app/done.txt"
+          await this.dockerInstance.runCommands([
+            "echo \"done\" > /app/done.txt"
+          ], this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+        } catch (error) {
+          console.error(`Failed to parse final report: ${error}`);
+          throw new Error(`Failed to parse final report: ${error}`);
+        }
       }
       finally {
         if (shutdown) {
@@ -188,10 +249,54 @@ export class TaskSolver {
       }
     }
 
+    /**
+     * Record that the agent ran out of memory or disk space. Retrying with the same limits
+     * would fail the same way, so this is a result of the task and not an error.
+     * @param dockerResult The result of the command that exhausted the resources
+     */
+    private finishResourceExhausted(dockerResult: { output: string; error?: string }): void {
+      console.error(`Task ${this.task.ID} ran out of resources`);
+      const limits = getContainerResourceLimits(this.config);
+      this.taskResult = {
+        ...this.taskResult,
+        status: TaskStatus.RESOURCE_EXHAUSTED,
+        report: `The agent ran out of resources (memory limit: ${limits.memoryMB ? `${limits.memoryMB} MB` : 'none'}, disk quota: ${limits.diskQuotaGB ? `${limits.diskQuotaGB} GB` : 'none'})${formatErrorOutput(dockerResult)}`,
+        completedAt: Date.now(),
+      };
+    }
+
+    /**
+     * Run a command in the repository of the container, after solve(false) kept the container running
+     * @param command The command, e.g. the test command of the project
+     * @returns True if the command succeeded
+     */
+    async runCommandInRepository(command: string): Promise<boolean> {
+      const result = await this.dockerInstance.runCommandAsync(`cd /app/repo && ${command}`, this.config.dockerTimeoutSeconds? this.config.dockerTimeoutSeconds : 0);
+      return result.status === DockerRunStatus.SUCCESS;
+    }
+
+    /**
+     * Shut down the container of the task solver
+     */
+    async shutdown(): Promise<void> {
+      await this.dockerInstance.shutdownContainer();
+    }
+
     /**
      * Returns the result of the task solving process
      */
     getResult(){
       return this.taskResult;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates the TaskSolver of a task from the arguments of its constructor. Lets the
+ * TaskSolverManager and the BestOfNSolver be tested without starting containers.
+ */
+export type TaskSolverFactory = (...args: ConstructorParameters<typeof TaskSolver>) => TaskSolver;
+
+/**
+ * The TaskSolverFactory that creates a TaskSolver
+ */
+export const createTaskSolver: TaskSolverFactory = (...args) => new TaskSolver(...args);
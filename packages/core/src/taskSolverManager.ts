@@ -1,52 +1,147 @@
 import { TaskStatus, type Task, type TaskResult } from './task';
-import { TaskSolver } from './taskSolver';
+import { createTaskSolver, type TaskSolver, type TaskSolverFactory } from './taskSolver';
 import type { Config } from './config';
+import type { RunStore } from './runStore';
+import { AgentRouter } from './agentRouter';
+import { BestOfNSolver, usesBestOfN } from './bestOfN';
+import { getMaxAttempts, getRetryDelayMs, isRetryable, type FailedAttempt } from './retryPolicy';
+import { getConfigSecrets, redactTaskResult, secretRedactor } from './utils/maskSecrets';
+import { ContainerPool } from './containerPool';
 
 
 export class TaskSolverManager {
     private taskQueue: Task[] = [];
     private completedTasks: TaskResult[] = [];
-    private activeTasks: Map<string, TaskSolver> = new Map();
+    private activeTasks: Map<string, TaskSolver | BestOfNSolver> = new Map();
+    private activeContainers: number = 0;
     private maxParallelDockerContainers: number;
     private config: Config;
     private gitURL: string;
+    private runStore?: RunStore;
+    private agentRouter: AgentRouter;
+    private containerPool?: ContainerPool;
+    private createSolver: TaskSolverFactory;
 
-    constructor(config: Config, gitURL: string) {
+    /**
+     * @param config The configuration object.
+     * @param gitURL The git remote URL the task solvers clone.
+     * @param runStore Optional store that persists the state of every task, so an interrupted run can be resumed.
+     * @param createSolver Creates the TaskSolver of each task and of each best-of-N attempt.
+     */
+    constructor(config: Config, gitURL: string, runStore?: RunStore, createSolver: TaskSolverFactory = createTaskSolver) {
         this.config = config;
         this.gitURL = gitURL;
+        this.runStore = runStore;
+        this.createSolver = createSolver;
         this.maxParallelDockerContainers = config.maxParallelDockerContainers || 1;
+        this.agentRouter = new AgentRouter(config);
+        if (config.containerPool) {
+            this.containerPool = new ContainerPool(config, gitURL, () => this.taskQueue.length, () => this.activeContainers);
+        }
+        secretRedactor.register(getConfigSecrets(config));
     }
 
     addTask(task: Task) {
         this.taskQueue.push(task);
+        this.runStore?.saveTaskResult({
+            ...task,
+            status: TaskStatus.NOT_STARTED,
+            report: '',
+        });
     }
 
     async start() {
-        while (this.taskQueue.length > 0 || this.activeTasks.size > 0) {
-            while (this.activeTasks.size < this.maxParallelDockerContainers && this.taskQueue.length > 0) {
-                console.log(`Active tasks: ${this.activeTasks.size}, Task queue: ${this.taskQueue.length}`);
-                const task = this.taskQueue.shift();
-                if (task) {
-                    this.startTask(task);
-                    console.log(`Started task ${task.ID}`);
+        try {
+            while (this.taskQueue.length > 0 || this.activeTasks.size > 0) {
+                while (this.taskQueue.length > 0 && this.hasContainersFor(this.taskQueue[0]!)) {
+                    console.log(`Active tasks: ${this.activeTasks.size}, Task queue: ${this.taskQueue.length}`);
+                    const task = this.taskQueue.shift();
+                    if (task) {
+                        this.startTask(task).catch(error => this.recordTaskError(task, error));
+                        console.log(`Started task ${task.ID}`);
+                    }
                 }
+                await new Promise(resolve => setTimeout(resolve, 1000)); // Check every second
             }
-            await new Promise(resolve => setTimeout(resolve, 1000)); // Check every second
+        } finally {
+            await this.containerPool?.shutdown();
         }
     }
 
-    private async startTask(task: Task) {
-        console.log(`start task ${task.ID}`);
+    /**
+     * Number of containers a task runs at the same time, one per attempt of a best-of-N task.
+     * The reviewer of a best-of-N task starts after the attempts have finished.
+     */
+    private getContainerCount(task: Task): number {
+        return usesBestOfN(this.config, task) ? this.config.bestOfN!.attempts : 1;
+    }
+
+    /**
+     * Check whether a task can start without exceeding maxParallelDockerContainers.
+     * A task that needs more containers than the limit runs once no other task is active.
+     */
+    private hasContainersFor(task: Task): boolean {
+        return this.activeContainers === 0 || this.activeContainers + this.getContainerCount(task) <= this.maxParallelDockerContainers;
+    }
+
+    private async startTask(queuedTask: Task) {
+        // record the assigned agent with the task, so results and resumed runs show which agent solved it
+        let task: Task = { ...queuedTask, agentType: this.agentRouter.getAgentType(queuedTask) };
+        const containerCount = this.getContainerCount(task);
+        this.activeContainers += containerCount;
+        console.log(`start task ${task.ID} with agent ${task.agentType}`);
         // // wait for 20 seconds
         // await new Promise(resolve => setTimeout(resolve, 20000));
         // return;
-        const taskSolver = new TaskSolver(this.config, task, this.config.agentType, this.gitURL);
+        const retryPolicy = this.config.retryPolicy;
+        const maxAttempts = getMaxAttempts(retryPolicy);
+        try {
+            this.runStore?.saveTaskResult({
+                ...task,
+                status: TaskStatus.ONGOING,
+                report: '',
+            });
+            this.runStore?.appendLog(`Started task ${task.ID}`);
+            for (let attempt = 1; ; attempt++) {
+                const { result, error } = await this.solveTask(task);
+                if (attempt >= maxAttempts || !isRetryable(retryPolicy, result, error)) {
+                    this.recordResult(result);
+                    return;
+                }
+
+                // retry in a fresh container, with the outcome of this attempt as feedback for the agent
+                const failedAttempt: FailedAttempt = {
+                    attempt,
+                    agentType: result.agentType,
+                    status: result.status,
+                    report: error === undefined ? result.report : '',
+                    error: error === undefined ? undefined : (error instanceof Error ? error.message : String(error)),
+                };
+                task = { ...task, previousAttempts: [...(task.previousAttempts || []), failedAttempt] };
+                const delayMs = getRetryDelayMs(retryPolicy!, attempt);
+                console.log(`Task ${task.ID} failed in attempt ${attempt} of ${maxAttempts}, retrying in ${delayMs / 1000} seconds`);
+                this.runStore?.appendLog(`Retrying task ${task.ID} after attempt ${attempt} of ${maxAttempts} failed`);
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        } finally {
+            this.activeTasks.delete(task.ID);
+            this.activeContainers -= containerCount;
+        }
+    }
+
+    /**
+     * Solve a task once
+     * @returns The result, and the error if solving threw
+     */
+    private async solveTask(task: Task): Promise<{ result: TaskResult; error?: unknown }> {
+        const taskSolver = usesBestOfN(this.config, task)
+            ? new BestOfNSolver(this.config, task, this.gitURL, this.createSolver)
+            : this.createSolver(this.config, task, task.agentType!, this.gitURL, this.containerPool);
         this.activeTasks.set(task.ID, taskSolver);
         try {
             console.log(`try to solve task ${task.ID}`);
             await taskSolver.solve();
-            const result = taskSolver.getResult();
-            this.completedTasks.push(result);
+            return { result: taskSolver.getResult() };
         } catch (error) {
             console.error(`Error solving task ${task.ID}:`, error);
             const result: TaskResult = {
@@ -55,9 +150,41 @@ export class TaskSolverManager {
                 report: `Error solving task: ${error instanceof Error ? error.message : String(error)}`,
                 completedAt: Date.now(),
             };
-            this.completedTasks.push(result);
-        } finally {
-            this.activeTasks.delete(task.ID);
+            return { result, error };
+        }
+    }
+
+    /**
+     * Record the result of a finished task, in memory and in the run store if any
+     */
+    private recordResult(taskResult: TaskResult) {
+        // reports are written by the agent and may quote the credentials it saw
+        const result = redactTaskResult(taskResult, getConfigSecrets(this.config));
+        this.completedTasks.push(result);
+        this.runStore?.saveTaskResult(result);
+        this.runStore?.appendLog(`Finished task ${result.ID} with status ${result.status}`);
+    }
+
+    /**
+     * Record a task whose bookkeeping failed, e.g. the run store could not be written,
+     * so it still shows up as failed in the reports instead of getting lost
+     */
+    private recordTaskError(task: Task, error: unknown) {
+        console.error(`Error running task ${task.ID}:`, error);
+        if (this.completedTasks.some(result => result.ID === task.ID)) {
+            return;
+        }
+        const result = redactTaskResult({
+            ...task,
+            status: TaskStatus.FAILURE,
+            report: `Error running task: ${error instanceof Error ? error.message : String(error)}`,
+            completedAt: Date.now(),
+        }, getConfigSecrets(this.config));
+        this.completedTasks.push(result);
+        try {
+            this.runStore?.saveTaskResult(result);
+        } catch (storeError) {
+            console.warn(`Warning: Could not save the result of task ${task.ID}: ${storeError instanceof Error ? storeError.message : String(storeError)}`);
         }
     }
 
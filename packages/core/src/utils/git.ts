@@ -6,19 +6,200 @@ function streamToTextSync(stream: Uint8Array | null | undefined): string {
 }
 
 /**
- * Get the fetch and push URLs of the 'origin' remote.
- * If useSSHInsteadOfHTTPS is true, it will return ssh URLs.
- * If useSSHInsteadOfHTTPS is false, it will return https URLs.
- * 
+ * The parts of a git remote URL
+ */
+export interface ParsedGitUrl {
+    /**
+     * The transport: ssh (including scp-style URLs), https, http, git or file
+     */
+    protocol: 'ssh' | 'https' | 'http' | 'git' | 'file';
+
+    /**
+     * The user, e.g. "git" in git@github.com:user/repo.git
+     */
+    user?: string;
+
+    /**
+     * The password or token of https URLs with credentials
+     */
+    password?: string;
+
+    /**
+     * The host name, empty for file URLs
+     */
+    host: string;
+
+    /**
+     * The port, if the URL has one
+     */
+    port?: number;
+
+    /**
+     * The repository path without leading slash, e.g. "group/subgroup/repo.git"
+     */
+    path: string;
+
+    /**
+     * Whether the URL is in scp-style syntax, e.g. git@github.com:user/repo.git
+     */
+    scpStyle: boolean;
+}
+
+const SCP_STYLE_URL = /^(?:([^@/:]+)@)?([^@/:]+):(?!\/\/)(.+)$/;
+const STANDARD_URL = /^(ssh|git\+ssh|ssh\+git|https|http|git):\/\/(?:([^@/]+)@)?(\[[^\]]+\]|[^/:]+)(?::(\d+))?\/(.+)$/;
+
+/**
+ * Parse a git remote URL. Supports scp-style URLs (git@host:path), ssh://, git://,
+ * http(s):// with ports and credentials, file:// URLs and local paths, for any host.
+ * @param url The git remote URL
+ * @returns The parts of the URL
+ * @throws Error if the URL cannot be parsed
+ */
+export function parseGitUrl(url: string): ParsedGitUrl {
+    const trimmed = url.trim();
+
+    if (trimmed.startsWith('file://')) {
+        return { protocol: 'file', host: '', path: trimmed.slice('file://'.length), scpStyle: false };
+    }
+    if (trimmed.startsWith('/') || trimmed.startsWith('./') || trimmed.startsWith('../')) {
+        return { protocol: 'file', host: '', path: trimmed, scpStyle: false };
+    }
+
+    const standardMatch = trimmed.match(STANDARD_URL);
+    if (standardMatch) {
+        const [, scheme, userInfo, host, port, path] = standardMatch;
+        const protocol = scheme === 'git+ssh' || scheme === 'ssh+git' ? 'ssh' : scheme as ParsedGitUrl['protocol'];
+        let user: string | undefined;
+        let password: string | undefined;
+        if (userInfo) {
+            const separatorIndex = userInfo.indexOf(':');
+            user = decodeURIComponent(separatorIndex === -1 ? userInfo : userInfo.slice(0, separatorIndex));
+            password = separatorIndex === -1 ? undefined : decodeURIComponent(userInfo.slice(separatorIndex + 1));
+        }
+        return {
+            protocol,
+            user,
+            password,
+            host,
+            port: port ? parseInt(port, 10) : undefined,
+            path,
+            scpStyle: false,
+        };
+    }
+
+    // scp-style URLs must be checked after standard URLs, since "https://host/path" also contains a colon
+    const scpMatch = trimmed.match(SCP_STYLE_URL);
+    if (scpMatch) {
+        const [, user, host, path] = scpMatch;
+        return { protocol: 'ssh', user, host, path: path.replace(/^\/+/, ''), scpStyle: true };
+    }
+
+    throw new Error(`Unsupported git URL: ${url}`);
+}
+
+/**
+ * Format parsed git URL parts back into a URL
+ * @param parsed The parts of the URL
+ * @returns The git remote URL
+ */
+export function formatGitUrl(parsed: ParsedGitUrl): string {
+    if (parsed.protocol === 'file') {
+        return parsed.path.startsWith('/') ? `file://${parsed.path}` : parsed.path;
+    }
+    if (parsed.protocol === 'ssh' && parsed.scpStyle) {
+        return `${parsed.user ? `${parsed.user}@` : ''}${parsed.host}:${parsed.path}`;
+    }
+
+    let userInfo = '';
+    if (parsed.user) {
+        userInfo = encodeURIComponent(parsed.user);
+        if (parsed.password) {
+            userInfo += `:${encodeURIComponent(parsed.password)}`;
+        }
+        userInfo += '@';
+    }
+    return `${parsed.protocol}://${userInfo}${parsed.host}${parsed.port ? `:${parsed.port}` : ''}/${parsed.path}`;
+}
+
+/**
+ * Convert a git remote URL to SSH. https/http/git URLs become scp-style URLs with the "git" user,
+ * dropping credentials and the port, since the SSH port of a host is unrelated to its web port.
+ * SSH URLs and local paths are returned unchanged.
+ * @param url The git remote URL
+ * @returns The SSH URL
+ */
+export function toSSHGitUrl(url: string): string {
+    const parsed = parseGitUrl(url);
+    if (parsed.protocol === 'ssh' || parsed.protocol === 'file') {
+        return url;
+    }
+    return formatGitUrl({ protocol: 'ssh', user: 'git', host: parsed.host, path: parsed.path, scpStyle: true });
+}
+
+/**
+ * Convert a git remote URL to HTTPS. SSH and git URLs become https URLs on the same host,
+ * dropping the user and the port. https URLs and local paths are returned unchanged.
+ * @param url The git remote URL
+ * @returns The HTTPS URL
+ */
+export function toHTTPSGitUrl(url: string): string {
+    const parsed = parseGitUrl(url);
+    if (parsed.protocol === 'https' || parsed.protocol === 'file') {
+        return url;
+    }
+    if (parsed.protocol === 'http') {
+        return formatGitUrl({ ...parsed, protocol: 'https' });
+    }
+    return formatGitUrl({ protocol: 'https', host: parsed.host, path: parsed.path, scpStyle: false });
+}
+
+/**
+ * Normalize a git remote URL for comparison: lower-case host, no credentials,
+ * no default port, no trailing ".git" or slash
+ * @param url The git remote URL
+ * @returns A string that is equal for URLs of the same repository on the same transport
+ */
+export function normalizeGitUrl(url: string): string {
+    const parsed = parseGitUrl(url);
+    const defaultPorts: Record<string, number> = { ssh: 22, https: 443, http: 80, git: 9418 };
+    const port = parsed.port && parsed.port !== defaultPorts[parsed.protocol] ? `:${parsed.port}` : '';
+    const path = parsed.path.replace(/\/+$/, '').replace(/\.git$/, '');
+    if (parsed.protocol === 'file') {
+        return `file://${path}`;
+    }
+    return `${parsed.protocol}://${parsed.host.toLowerCase()}${port}/${path}`;
+}
+
+/**
+ * Convert a remote URL to SSH, keeping URLs that cannot be parsed as they are
+ */
+function convertToSSHOrKeep(url: string): string {
+    try {
+        return toSSHGitUrl(url);
+    } catch (error) {
+        console.warn(`Could not convert git URL ${url} to SSH: ${error instanceof Error ? error.message : String(error)}`);
+        return url;
+    }
+}
+
+/**
+ * Get the fetch and push URLs of a git remote.
+ * If useSSHInsteadOfHTTPS is true, https URLs are converted to SSH URLs on the same host,
+ * for GitHub as well as GitLab, Gitea or any other git host.
+ *
  * @param useSSHInsteadOfHTTPS Whether to use ssh URLs instead of https URLs.
- * @returns An object containing the fetchUrl and pushUrl.  
- * 
+ * @param remoteName The name of the remote, 'origin' by default.
+ * @returns An object containing the fetchUrl and pushUrl.
+ *
  * Here is an example:
- * Github in URL: https://github.com/user/repo.git
- * SSH URL: git@github.com:user/repo.git
+ * HTTPS URL: https://gitlab.example.com:8443/group/repo.git
+ * SSH URL: git@gitlab.example.com:group/repo.git
  */
 
-export async function getGitRemoteUrls(useSSHInsteadOfHTTPS: boolean = false): Promise<{ fetchUrl?: string; pushUrl?: string }> {
+export async function getGitRemoteUrls(
+    useSSHInsteadOfHTTPS: boolean = false,
+    remoteName: string = 'origin'
+): Promise<{ fetchUrl?: string; pushUrl?: string }> {
 
     try {
         const gitRemoteResult = spawnSync(["git", "remote", "-v"]);
@@ -35,7 +216,7 @@ export async function getGitRemoteUrls(useSSHInsteadOfHTTPS: boolean = false): P
 
         for (const line of lines) {
             const parts = line.split(/\s+/);
-            if (parts.length >= 2 && parts[0] === 'origin') {
+            if (parts.length >= 2 && parts[0] === remoteName) {
                 const url = parts[1];
                 const type = parts[2];
                 if (type === '(fetch)') {
@@ -46,14 +227,12 @@ export async function getGitRemoteUrls(useSSHInsteadOfHTTPS: boolean = false): P
             }
         }
         if (!fetchUrl && !pushUrl) {
-            console.warn("No git remote 'origin' found.");
+            console.warn(`No git remote '${remoteName}' found.`);
         }
 
-        if (useSSHInsteadOfHTTPS && fetchUrl && fetchUrl.startsWith('https://github.com/')) {
-            fetchUrl = fetchUrl.replace('https://github.com/', 'git@github.com:');
-        }
-        if (useSSHInsteadOfHTTPS && pushUrl && pushUrl.startsWith('https://github.com/')) {
-            pushUrl = pushUrl.replace('https://github.com/', 'git@github.com:');
+        if (useSSHInsteadOfHTTPS) {
+            fetchUrl = fetchUrl && convertToSSHOrKeep(fetchUrl);
+            pushUrl = pushUrl && convertToSSHOrKeep(pushUrl);
         }
 
         return { fetchUrl, pushUrl };
@@ -0,0 +1,177 @@
+import { format } from 'util';
+import type { Config } from '../config';
+import type { TaskResult } from '../task';
+
+/**
+ * Configuration fields whose value is a plain string
+ */
+type StringConfigField = {
+    [K in keyof Config]-?: Config[K] extends string | undefined ? (string extends Config[K] ? K : never) : never;
+}[keyof Config];
+
+/**
+ * Configuration fields that hold secrets
+ */
+export const SECRET_CONFIG_FIELDS: StringConfigField[] = [
+    'anthropicAPIKey',
+    'googleGeminiApiKey',
+    'openAICodexApiKey',
+    'cursorAPIKey',
+    'gitHttpsToken',
+];
+
+/**
+ * Replacement for masked secrets
+ */
+export const SECRET_MASK = '********';
+
+/**
+ * Collect the secret values of a configuration: the secret fields, the environment
+ * of the custom agent and the user-declared extraSecrets
+ * @param config The configuration object
+ * @returns The non-empty secret values
+ */
+export function getConfigSecrets(config: Partial<Config>): string[] {
+    return [
+        ...SECRET_CONFIG_FIELDS.map(fieldName => config[fieldName]),
+        ...Object.values(config.customAgent?.environment || {}),
+        ...(config.extraSecrets || []),
+    ].filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+}
+
+/**
+ * Mask all occurrences of the given secrets in a text
+ * @param text The text to mask, e.g. a command
+ * @param secrets The secret values to mask
+ * @returns The text with every secret replaced by SECRET_MASK
+ */
+export function maskSecrets(text: string, secrets: string[]): string {
+    // Mask longer secrets first, so a secret that contains another one is masked as a whole
+    return [...secrets]
+        .filter(secret => secret)
+        .sort((a, b) => b.length - a.length)
+        .reduce((masked, secret) => masked.split(secret).join(SECRET_MASK), text);
+}
+
+/**
+ * Get a copy of a configuration that is safe to print, with every secret masked
+ * @param config The configuration object
+ * @returns The configuration with the secret fields, the custom agent environment and extraSecrets masked
+ */
+export function redactConfig(config: Partial<Config>): Partial<Config> {
+    const redacted: Partial<Config> = { ...config };
+    for (const fieldName of SECRET_CONFIG_FIELDS) {
+        if (redacted[fieldName]) {
+            redacted[fieldName] = SECRET_MASK;
+        }
+    }
+    if (config.customAgent?.environment) {
+        redacted.customAgent = {
+            ...config.customAgent,
+            environment: Object.fromEntries(Object.keys(config.customAgent.environment).map(name => [name, SECRET_MASK])),
+        };
+    }
+    if (config.extraSecrets) {
+        redacted.extraSecrets = config.extraSecrets.map(() => SECRET_MASK);
+    }
+    return redacted;
+}
+
+/**
+ * Mask secrets in the texts of a task result that come from the agent or from command output:
+ * the report, the selection reason and the reports and errors of candidates and previous attempts
+ * @param taskResult The task result
+ * @param secrets The secret values to mask
+ * @returns A copy of the task result with the secrets masked
+ */
+export function redactTaskResult(taskResult: TaskResult, secrets: string[]): TaskResult {
+    if (secrets.length === 0) {
+        return taskResult;
+    }
+    const mask = (text: string) => maskSecrets(text, secrets);
+    return {
+        ...taskResult,
+        report: mask(taskResult.report || ''),
+        selectionReason: taskResult.selectionReason && mask(taskResult.selectionReason),
+        candidates: taskResult.candidates?.map(candidate => ({ ...candidate, report: mask(candidate.report || '') })),
+        previousAttempts: taskResult.previousAttempts?.map(attempt => ({
+            ...attempt,
+            report: mask(attempt.report || ''),
+            error: attempt.error && mask(attempt.error),
+        })),
+    };
+}
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+/**
+ * SecretRedactor collects the secrets of the running process, so that everything written to
+ * the console and to the run output can be masked, also where no configuration is at hand.
+ */
+export class SecretRedactor {
+    private secrets: Set<string> = new Set();
+    private restoreConsole?: () => void;
+
+    /**
+     * Register secrets to mask
+     * @param secrets The secret values, empty values are ignored
+     */
+    register(secrets: string[]): void {
+        for (const secret of secrets) {
+            if (secret && secret.trim() !== '') {
+                this.secrets.add(secret);
+            }
+        }
+    }
+
+    getSecrets(): string[] {
+        return [...this.secrets];
+    }
+
+    /**
+     * Mask every registered secret in a text
+     */
+    redact(text: string): string {
+        return maskSecrets(text, this.getSecrets());
+    }
+
+    /**
+     * Mask the registered secrets in everything written with console.log, info, warn, error and debug.
+     * Installing twice has no further effect.
+     * @returns A function that restores the original console methods
+     */
+    installConsoleRedaction(): () => void {
+        if (!this.restoreConsole) {
+            const originals = CONSOLE_METHODS.map(method => console[method]);
+            for (const [index, method] of CONSOLE_METHODS.entries()) {
+                const original = originals[index];
+                console[method] = (...args: unknown[]) => {
+                    if (this.secrets.size === 0) {
+                        original(...args);
+                    } else {
+                        original(this.redact(format(...args)));
+                    }
+                };
+            }
+            this.restoreConsole = () => {
+                CONSOLE_METHODS.forEach((method, index) => {
+                    console[method] = originals[index];
+                });
+                this.restoreConsole = undefined;
+            };
+        }
+        return this.restoreConsole;
+    }
+
+    /**
+     * Forget all registered secrets
+     */
+    clear(): void {
+        this.secrets.clear();
+    }
+}
+
+/**
+ * The secret redactor of the process
+ */
+export const secretRedactor = new SecretRedactor();
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import * as os from 'os';
+import type { Config } from '../config';
+
+/**
+ * Get the platform-specific default directory for reports, logs and run state.
+ *
+ * - Linux and other Unix systems: $XDG_STATE_HOME/full-self-coding (~/.local/state/full-self-coding)
+ * - macOS: ~/Library/Logs/full-self-coding
+ * - Windows: %LOCALAPPDATA%\full-self-coding
+ *
+ * @param platform The platform to resolve the directory for
+ * @param env The environment variables to read XDG_STATE_HOME / LOCALAPPDATA from
+ * @returns The default output directory
+ */
+export function getDefaultOutputDirectory(
+    platform: NodeJS.Platform = process.platform,
+    env: NodeJS.ProcessEnv = process.env
+): string {
+    const homeDirectory = os.homedir();
+
+    switch (platform) {
+        case 'darwin':
+            return path.join(homeDirectory, 'Library', 'Logs', 'full-self-coding');
+        case 'win32':
+            return path.join(env.LOCALAPPDATA || path.join(homeDirectory, 'AppData', 'Local'), 'full-self-coding');
+        default:
+            // The XDG spec requires the variable to be an absolute path, otherwise it is ignored
+            if (env.XDG_STATE_HOME && path.isAbsolute(env.XDG_STATE_HOME)) {
+                return path.join(env.XDG_STATE_HOME, 'full-self-coding');
+            }
+            return path.join(homeDirectory, '.local', 'state', 'full-self-coding');
+    }
+}
+
+/**
+ * Resolve the output directory for a configuration,
+ * falling back to the platform default when none is configured
+ * @param config The configuration object
+ * @returns Absolute path of the output directory
+ */
+export function resolveOutputDirectory(config: Pick<Config, 'outputDirectory'>): string {
+    if (!config.outputDirectory) {
+        return getDefaultOutputDirectory();
+    }
+    if (config.outputDirectory === '~' || config.outputDirectory.startsWith('~/')) {
+        return path.join(os.homedir(), config.outputDirectory.slice(1));
+    }
+    return path.resolve(config.outputDirectory);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+    buildAgentImage,
+    findAgentImage,
+    getAgentImageTag,
+    getAgentSetupCommands,
+    getConfiguredAgentTypes,
+    renderAgentDockerfile,
+} from "../src/agentImage";
+import { DockerInstance } from "../src/dockerInstance";
+import { dryRunRecorder } from "../src/dryRun";
+import { claudeCodeAdapter } from "../src/SWEAgent/claudeCodeCommands";
+import { taskSolverCommands } from "../src/SWEAgent/SWEAgentTaskSolverCommands";
+import { SWEAgentType, type Config } from "../src/config";
+
+describe('agent images', () => {
+    const config: Config = { agentType: SWEAgentType.CLAUDE_CODE, anthropicAPIKey: 'sk-ant-123' };
+    const task = { ID: 'task-1', title: 'Task', description: 'Task', priority: 1 };
+
+    beforeEach(() => {
+        dryRunRecorder.clear();
+    });
+
+    it('should render every setup command as a RUN instruction', () => {
+        const lines = renderAgentDockerfile(config, claudeCodeAdapter).trim().split('\n');
+
+        expect(lines[0]).toBe('FROM node:latest');
+        const runCommands = lines
+            .filter(line => line.startsWith('RUN ['))
+            .map(line => JSON.parse(line.slice('RUN '.length))[2]);
+        expect(runCommands).toEqual(getAgentSetupCommands(config, claudeCodeAdapter));
+        expect(runCommands).toContain('npm install -g @anthropic-ai/claude-code');
+    });
+
+    it('should tag images with a hash of their Dockerfile', () => {
+        const tag = getAgentImageTag(config, claudeCodeAdapter);
+
+        expect(tag).toMatch(/^full-self-coding-agent-claude-code:[0-9a-f]{12}$/);
+        expect(getAgentImageTag({ ...config, anthropicAPIKey: 'sk-other' }, claudeCodeAdapter)).toBe(tag);
+        expect(getAgentImageTag({ ...config, dockerImageRef: 'node:20' }, claudeCodeAdapter)).not.toBe(tag);
+    });
+
+    it('should skip the tool and agent installs in a prebuilt image', () => {
+        const commands = taskSolverCommands(SWEAgentType.CLAUDE_CODE, config, task, 'https://github.com/example/repo.git', true);
+
+        expect(commands).toEqual([
+            'git clone https://github.com/example/repo.git /app/repo',
+            'mkdir /app/repo/fsc',
+            claudeCodeAdapter.getSolverCommand(config),
+        ]);
+    });
+
+    it('should only use images that exist and are not disabled', () => {
+        expect(findAgentImage(config, claudeCodeAdapter, new DockerInstance({ dryRun: true }))).toBeUndefined();
+        expect(findAgentImage({ ...config, useAgentImages: false }, claudeCodeAdapter, new DockerInstance())).toBeUndefined();
+    });
+
+    it('should record the image build in a dry run', async () => {
+        const tag = await buildAgentImage(config, claudeCodeAdapter, new DockerInstance({ dryRun: true }));
+
+        const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+        expect(commands).toHaveLength(1);
+        expect(commands[0]).toStartWith(`docker build -t ${tag} `);
+    });
+
+    it('should collect every agent type of the configuration', () => {
+        expect(getConfiguredAgentTypes({
+            ...config,
+            roundRobinAgentTypes: [SWEAgentType.CLAUDE_CODE, SWEAgentType.CODEX],
+            agentRoutingRules: [{ agentType: SWEAgentType.GEMINI_CLI, labels: ['docs'] }],
+            bestOfN: { attempts: 2, reviewerAgentType: SWEAgentType.AIDER },
+        })).toEqual([SWEAgentType.CLAUDE_CODE, SWEAgentType.CODEX, SWEAgentType.GEMINI_CLI, SWEAgentType.AIDER]);
+    });
+});
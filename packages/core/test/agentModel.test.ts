@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test";
+import { getAgentModel, getModelFlag } from "../src/SWEAgent/agentModel";
+import { sweAgentAdapterRegistry } from "../src/SWEAgent/SWEAgentAdapterRegistry";
+import { createConfig, SWEAgentType } from "../src/config";
+
+describe('agent models', () => {
+    describe('getAgentModel', () => {
+        it('should use the model of the phase', () => {
+            const config = createConfig({ agentType: SWEAgentType.CLAUDE_CODE, analyzerModel: 'haiku', solverModel: 'opus' });
+
+            expect(getAgentModel(config, SWEAgentType.CLAUDE_CODE, true)).toBe('haiku');
+            expect(getAgentModel(config, SWEAgentType.CLAUDE_CODE, false)).toBe('opus');
+        });
+
+        it('should prefer the model configured for the agent', () => {
+            const config = createConfig({
+                agentType: SWEAgentType.CODEX,
+                solverModel: 'opus',
+                agentModels: { [SWEAgentType.CODEX]: { solver: 'gpt-5' } },
+            });
+
+            expect(getAgentModel(config, SWEAgentType.CODEX, false)).toBe('gpt-5');
+            expect(getAgentModel(config, SWEAgentType.CODEX, true)).toBeUndefined();
+            expect(getAgentModel(config, SWEAgentType.CLAUDE_CODE, false)).toBe('opus');
+        });
+
+        it('should quote a model name the shell would split or expand', () => {
+            const config = createConfig({ agentType: SWEAgentType.CODEX, solverModel: 'gpt-5; rm -rf /' });
+
+            expect(getModelFlag(config, SWEAgentType.CODEX, false)).toBe(" --model 'gpt-5; rm -rf /'");
+        });
+
+        it('should leave the flag out without a model', () => {
+            expect(getModelFlag(createConfig({ agentType: SWEAgentType.CLAUDE_CODE }), SWEAgentType.CLAUDE_CODE, true)).toBe('');
+        });
+    });
+
+    describe('agent commands', () => {
+        const models = { analyzer: 'cheap-model', solver: 'strong-model' };
+
+        it('should pass the model of each phase to every built-in agent', () => {
+            for (const agentType of [SWEAgentType.CLAUDE_CODE, SWEAgentType.GEMINI_CLI, SWEAgentType.CODEX, SWEAgentType.CURSOR, SWEAgentType.AIDER]) {
+                const config = createConfig({
+                    agentType,
+                    anthropicAPIKey: 'sk-ant',
+                    anthropicAPIKeyExportNeeded: true,
+                    agentModels: { [agentType]: models },
+                });
+                const adapter = sweAgentAdapterRegistry.get(agentType);
+
+                expect(adapter.getAnalyzerCommand(config)).toContain('--model cheap-model');
+                expect(adapter.getSolverCommand(config)).toContain('--model strong-model');
+            }
+        });
+
+        it('should fill in the model placeholder of the custom agent', () => {
+            const config = createConfig({
+                agentType: SWEAgentType.CUSTOM,
+                customAgent: { analyzerCommand: 'agent -m {{model}}', solverCommand: 'agent -m {{model}}', model: 'fallback' },
+                solverModel: 'strong-model',
+            });
+            const adapter = sweAgentAdapterRegistry.get(SWEAgentType.CUSTOM);
+
+            expect(adapter.getAnalyzerCommand(config)).toBe('agent -m fallback');
+            expect(adapter.getSolverCommand(config)).toBe('agent -m strong-model');
+        });
+    });
+});
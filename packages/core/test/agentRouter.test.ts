@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { AgentRouter, matchesRoutingRule } from "../src/agentRouter";
+import { createConfig, SWEAgentType } from "../src/config";
+import type { Task } from "../src/task";
+
+function createTask(ID: string, priority: number, extra: Partial<Task> = {}): Task {
+    return { ID, title: `Task ${ID}`, description: 'Description', priority, ...extra };
+}
+
+describe('AgentRouter', () => {
+    it('should use config.agentType by default', () => {
+        const router = new AgentRouter(createConfig({ agentType: SWEAgentType.GEMINI_CLI }));
+        expect(router.getAgentType(createTask('1', 1))).toBe(SWEAgentType.GEMINI_CLI);
+    });
+
+    it('should prefer the agent type of the task', () => {
+        const router = new AgentRouter(createConfig({
+            agentType: SWEAgentType.GEMINI_CLI,
+            agentRoutingRules: [{ agentType: SWEAgentType.CODEX }],
+        }));
+        expect(router.getAgentType(createTask('1', 1, { agentType: SWEAgentType.AIDER }))).toBe(SWEAgentType.AIDER);
+    });
+
+    it('should use the first routing rule that matches labels and priority', () => {
+        const router = new AgentRouter(createConfig({
+            agentType: SWEAgentType.GEMINI_CLI,
+            agentRoutingRules: [
+                { agentType: SWEAgentType.CLAUDE_CODE, minPriority: 4 },
+                { agentType: SWEAgentType.CODEX, labels: ['frontend', 'css'] },
+            ],
+        }));
+
+        expect(router.getAgentType(createTask('1', 5, { labels: ['css'] }))).toBe(SWEAgentType.CLAUDE_CODE);
+        expect(router.getAgentType(createTask('2', 2, { labels: ['css'] }))).toBe(SWEAgentType.CODEX);
+        expect(router.getAgentType(createTask('3', 2, { labels: ['docs'] }))).toBe(SWEAgentType.GEMINI_CLI);
+    });
+
+    it('should assign the round-robin agents in turn to unrouted tasks', () => {
+        const router = new AgentRouter(createConfig({
+            agentType: SWEAgentType.GEMINI_CLI,
+            agentRoutingRules: [{ agentType: SWEAgentType.CURSOR, labels: ['ui'] }],
+            roundRobinAgentTypes: [SWEAgentType.CLAUDE_CODE, SWEAgentType.CODEX],
+        }));
+
+        expect([
+            router.getAgentType(createTask('1', 1)),
+            router.getAgentType(createTask('2', 1, { labels: ['ui'] })),
+            router.getAgentType(createTask('3', 1)),
+            router.getAgentType(createTask('4', 1)),
+        ]).toEqual([SWEAgentType.CLAUDE_CODE, SWEAgentType.CURSOR, SWEAgentType.CODEX, SWEAgentType.CLAUDE_CODE]);
+    });
+
+    it('should match a rule without conditions for every task', () => {
+        expect(matchesRoutingRule(createTask('1', 3), { agentType: SWEAgentType.CODEX })).toBe(true);
+        expect(matchesRoutingRule(createTask('1', 3), { agentType: SWEAgentType.CODEX, maxPriority: 2 })).toBe(false);
+    });
+});
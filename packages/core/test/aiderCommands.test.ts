@@ -0,0 +1,38 @@
+import { describe, it, expect } from "bun:test";
+import { getAiderCommand, aiderAdapter, AIDER_EXECUTABLE_PATH } from "../src/SWEAgent/aiderCommands";
+import { createConfig, SWEAgentType } from "../src/config";
+
+describe('aider commands', () => {
+    it('should run the analyzer prompt and let aider write the tasks file', () => {
+        const command = getAiderCommand(createConfig({ agentType: SWEAgentType.AIDER }), true);
+
+        expect(command).toBe(`cd /app/repo && touch /app/tasks.json && ${AIDER_EXECUTABLE_PATH} --yes-always --no-auto-commits --no-check-update --no-show-model-warnings --file /app/tasks.json --message-file /app/codeAnalyzerPrompt.txt`);
+    });
+
+    it('should run the task solver prompt and let aider write the final report', () => {
+        const command = getAiderCommand(createConfig({ agentType: SWEAgentType.AIDER }), false);
+
+        expect(command).toContain('--file /app/finalReport.json --message-file /app/taskSolverPrompt.txt');
+    });
+
+    it('should pass every API key that needs exporting through the container environment', () => {
+        const config = createConfig({
+            agentType: SWEAgentType.AIDER,
+            anthropicAPIKey: 'sk-ant',
+            anthropicAPIKeyExportNeeded: true,
+            anthropicAPIBaseUrl: 'https://proxy.example.com',
+            openAICodexApiKey: 'sk-openai',
+            openAICodexAPIKeyExportNeeded: false,
+            googleGeminiApiKey: 'gemini-key',
+            googleGeminiAPIKeyExportNeeded: true,
+        });
+
+        expect(aiderAdapter.getEnvironment!(config)).toEqual({
+            ANTHROPIC_API_KEY: 'sk-ant',
+            ANTHROPIC_BASE_URL: 'https://proxy.example.com',
+            GEMINI_API_KEY: 'gemini-key',
+        });
+        expect(aiderAdapter.getSolverCommand(config)).toStartWith('cd /app/repo');
+        expect(aiderAdapter.getSolverCommand(config)).not.toContain('sk-ant');
+    });
+});
@@ -0,0 +1,36 @@
+import { expect, test, mock } from "bun:test";
+import { analyzeCodebase } from "../src/analyzer";
+import { type Config, SWEAgentType } from "../src/config";
+import type { Task } from "../src/task";
+import { WorkStyle } from "../src/workStyle";
+import { DockerInstance, DockerRunStatus } from "../src/dockerInstance";
+import {OPENAI_API_KEY} from "./apiKeySetup";
+
+
+test("analyzeCodebase generates tasks correctly with aider agent in real Docker",  async () => {
+    const config: Config = {
+        agentType: SWEAgentType.AIDER,
+        dockerImageRef: "node:latest", // Use a real Docker image
+        dockerTimeoutSeconds: 10000, // Increased timeout for real Docker operations
+        maxDockerContainers: 5,
+        maxParallelDockerContainers: 1,
+        maxTasks: 5,
+        minTasks: 1,
+        dockerMemoryMB: 512,
+        dockerCpuCores: 1,
+        workStyle: WorkStyle.DEFAULT, // WorkStyle is imported from workStyle.ts in analyzer.ts
+        openAICodexAPIKeyExportNeeded: true,
+        openAICodexApiKey: OPENAI_API_KEY,
+        codingStyleLevel: 0,
+    };
+    const gitRemoteUrl = "https://github.com/TinyCC/tinycc"; // Real Git repo
+
+    const tasks = await analyzeCodebase(config, gitRemoteUrl, true,);
+
+    // Assertions
+    expect(tasks).toBeArray();
+    expect(tasks.length).toBeGreaterThan(0); // Expect at least one task
+    expect(tasks[0]).toHaveProperty("ID");
+    expect(tasks[0]).toHaveProperty("title");
+    expect(tasks[0]).toHaveProperty("description");
+}, 100000000);
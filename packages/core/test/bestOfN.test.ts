@@ -0,0 +1,218 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import type { Config } from "../src/config";
+import { SWEAgentType } from "../src/config";
+import { TaskStatus, type Task, type TaskCandidate, type TaskResult } from "../src/task";
+import { NetworkPolicy } from "../src/networkPolicy";
+import { dryRunRecorder } from "../src/dryRun";
+import { reviewerPrompt } from "../src/prompts/reviewerPrompt";
+import type { TaskSolverFactory } from "../src/taskSolver";
+import {
+    BestOfNSolver,
+    SelectionStrategy,
+    getAttemptAgentTypes,
+    parseReviewerVote,
+    selectSmallestDiff,
+    selectTestsPass,
+    usesBestOfN,
+} from "../src/bestOfN";
+
+const attemptResults: Record<string, Partial<TaskResult>> = {};
+const testResults: Record<string, boolean> = {};
+const solvedAttempts: { ID: string; agentType: string; shutdown: boolean }[] = [];
+
+const mockTaskSolver = mock((config: Config, task: Task, agentType: string, gitURL: string) => ({
+    solve: mock((shutdown: boolean = true) => {
+        solvedAttempts.push({ ID: task.ID, agentType, shutdown });
+        return attemptResults[task.ID] ? Promise.resolve() : Promise.reject(new Error('container crashed'));
+    }),
+    getResult: mock(() => ({ ...task, report: '', ...attemptResults[task.ID] })),
+    runCommandInRepository: mock(() => Promise.resolve(testResults[task.ID] ?? false)),
+    shutdown: mock(() => Promise.resolve()),
+}));
+
+const createMockTaskSolver = mockTaskSolver as unknown as TaskSolverFactory;
+
+function diffWithLines(lineCount: number): string {
+    return [
+        'diff --git a/file.ts b/file.ts',
+        '--- a/file.ts',
+        '+++ b/file.ts',
+        `@@ -0,0 +1,${lineCount} @@`,
+        ...Array.from({ length: lineCount }, (_, index) => `+line ${index}`),
+    ].join('\n');
+}
+
+function candidate(attemptId: string, status: TaskStatus, lineCount: number, testsPassed?: boolean): TaskCandidate {
+    return {
+        attemptId,
+        agentType: SWEAgentType.CLAUDE_CODE,
+        status,
+        report: `report of ${attemptId}`,
+        gitDiff: lineCount > 0 ? diffWithLines(lineCount) : '',
+        testsPassed,
+        selected: false,
+    };
+}
+
+describe('bestOfN', () => {
+    const task: Task = { ID: 'task-1', title: 'Fix bug', description: 'Fix the bug', priority: 4, agentType: SWEAgentType.CLAUDE_CODE };
+    let config: Config;
+
+    beforeEach(() => {
+        mockTaskSolver.mockClear();
+        solvedAttempts.length = 0;
+        for (const key of Object.keys(attemptResults)) delete attemptResults[key];
+        for (const key of Object.keys(testResults)) delete testResults[key];
+        config = {
+            agentType: SWEAgentType.GEMINI_CLI,
+            bestOfN: { attempts: 3 },
+        };
+    });
+
+    describe('usesBestOfN', () => {
+        it('should apply to every task when no minimum priority is set', () => {
+            expect(usesBestOfN(config, task)).toBe(true);
+            expect(usesBestOfN({ agentType: SWEAgentType.GEMINI_CLI }, task)).toBe(false);
+        });
+
+        it('should only apply to tasks with at least the minimum priority', () => {
+            config.bestOfN = { attempts: 2, minPriority: 5 };
+            expect(usesBestOfN(config, task)).toBe(false);
+            expect(usesBestOfN(config, { ...task, priority: 5 })).toBe(true);
+        });
+    });
+
+    describe('getAttemptAgentTypes', () => {
+        it('should repeat the agent of the task by default', () => {
+            expect(getAttemptAgentTypes(config, task)).toEqual([SWEAgentType.CLAUDE_CODE, SWEAgentType.CLAUDE_CODE, SWEAgentType.CLAUDE_CODE]);
+        });
+
+        it('should use the configured agent types in turn', () => {
+            config.bestOfN = { attempts: 3, agentTypes: [SWEAgentType.CODEX, SWEAgentType.AIDER] };
+            expect(getAttemptAgentTypes(config, task)).toEqual([SWEAgentType.CODEX, SWEAgentType.AIDER, SWEAgentType.CODEX]);
+        });
+    });
+
+    describe('selection strategies', () => {
+        it('should select the successful candidate with the smallest non-empty diff', () => {
+            const selection = selectSmallestDiff([
+                candidate('attempt-1', TaskStatus.SUCCESS, 5),
+                candidate('attempt-2', TaskStatus.FAILURE, 1),
+                candidate('attempt-3', TaskStatus.SUCCESS, 0),
+                candidate('attempt-4', TaskStatus.SUCCESS, 2),
+            ]);
+            expect(selection?.candidate.attemptId).toBe('attempt-4');
+        });
+
+        it('should select nothing when no candidate succeeded', () => {
+            expect(selectSmallestDiff([candidate('attempt-1', TaskStatus.FAILURE, 1)])).toBeUndefined();
+        });
+
+        it('should prefer candidates that pass the tests', () => {
+            const selection = selectTestsPass([
+                candidate('attempt-1', TaskStatus.SUCCESS, 1, false),
+                candidate('attempt-2', TaskStatus.SUCCESS, 4, true),
+            ]);
+            expect(selection?.candidate.attemptId).toBe('attempt-2');
+        });
+
+        it('should fall back to the smallest diff when no candidate passes the tests', () => {
+            const selection = selectTestsPass([
+                candidate('attempt-1', TaskStatus.SUCCESS, 1, false),
+                candidate('attempt-2', TaskStatus.SUCCESS, 4, false),
+            ]);
+            expect(selection?.candidate.attemptId).toBe('attempt-1');
+            expect(selection?.reason).toContain('No candidate passed the tests');
+        });
+
+        it('should ask the reviewer for its vote at the final report path of its adapter', () => {
+            const candidates = [candidate('attempt-1', TaskStatus.SUCCESS, 1), candidate('attempt-2', TaskStatus.SUCCESS, 2)];
+            const prompt = reviewerPrompt(task, candidates, '/app/echo/report.json');
+            expect(prompt).toContain('Save your decision at /app/echo/report.json');
+            expect(prompt).not.toContain('/app/finalReport.json');
+        });
+
+                it('should parse the vote of the reviewer', () => {
+            const candidates = [candidate('attempt-1', TaskStatus.SUCCESS, 1), candidate('attempt-2', TaskStatus.SUCCESS, 2)];
+            const selection = parseReviewerVote('{"winner": "attempt-2", "reason": "handles the edge case"}', candidates);
+            expect(selection.candidate.attemptId).toBe('attempt-2');
+            expect(selection.reason).toBe('Reviewer vote: handles the edge case');
+            expect(() => parseReviewerVote('{"winner": "attempt-9"}', candidates)).toThrow('not a successful candidate');
+        });
+    });
+
+    describe('BestOfNSolver', () => {
+        it('should solve each attempt in its own container and keep every candidate', async () => {
+            config.bestOfN = { attempts: 3, agentTypes: [SWEAgentType.CODEX, SWEAgentType.AIDER] };
+            attemptResults['task-1-attempt-1'] = { status: TaskStatus.SUCCESS, report: 'big', gitDiff: diffWithLines(3) };
+            attemptResults['task-1-attempt-2'] = { status: TaskStatus.SUCCESS, report: 'small', gitDiff: diffWithLines(1) };
+
+            const solver = new BestOfNSolver(config, task, 'https://github.com/example/repo.git', createMockTaskSolver);
+            await solver.solve();
+            const result = solver.getResult();
+
+            expect(solvedAttempts.map(attempt => attempt.ID).sort()).toEqual(['task-1-attempt-1', 'task-1-attempt-2', 'task-1-attempt-3']);
+            expect(result.ID).toBe('task-1');
+            expect(result.status).toBe(TaskStatus.SUCCESS);
+            expect(result.agentType).toBe(SWEAgentType.AIDER);
+            expect(result.report).toBe('small');
+            expect(result.gitDiff).toBe(diffWithLines(1));
+            expect(result.candidates?.map(current => [current.attemptId, current.status, current.selected])).toEqual([
+                ['attempt-1', TaskStatus.SUCCESS, false],
+                ['attempt-2', TaskStatus.SUCCESS, true],
+                ['attempt-3', TaskStatus.FAILURE, false],
+            ]);
+            expect(result.candidates?.[2].report).toContain('container crashed');
+        });
+
+        it('should run the test command before shutting down the attempts', async () => {
+            config.bestOfN = { attempts: 2, strategy: SelectionStrategy.TESTS_PASS, testCommand: 'npm test' };
+            attemptResults['task-1-attempt-1'] = { status: TaskStatus.SUCCESS, report: 'small', gitDiff: diffWithLines(1) };
+            attemptResults['task-1-attempt-2'] = { status: TaskStatus.SUCCESS, report: 'tested', gitDiff: diffWithLines(3) };
+            testResults['task-1-attempt-2'] = true;
+
+            const solver = new BestOfNSolver(config, task, 'https://github.com/example/repo.git', createMockTaskSolver);
+            await solver.solve();
+            const result = solver.getResult();
+
+            expect(solvedAttempts.every(attempt => attempt.shutdown === false)).toBe(true);
+            expect(result.report).toBe('tested');
+            expect(result.candidates?.map(current => current.testsPassed)).toEqual([false, true]);
+        });
+
+        it('should run the reviewer under the network policy of the task solvers', async () => {
+            config = {
+                ...config,
+                dryRun: true,
+                useAgentImages: false,
+                anthropicAPIKey: 'sk-ant-123',
+                networkPolicy: NetworkPolicy.NONE,
+                bestOfN: { attempts: 2, strategy: SelectionStrategy.REVIEWER_VOTE, reviewerAgentType: SWEAgentType.CLAUDE_CODE },
+            };
+            attemptResults['task-1-attempt-1'] = { status: TaskStatus.SUCCESS, report: 'first', gitDiff: diffWithLines(1) };
+            attemptResults['task-1-attempt-2'] = { status: TaskStatus.SUCCESS, report: 'second', gitDiff: diffWithLines(2) };
+            dryRunRecorder.clear();
+
+            const solver = new BestOfNSolver(config, task, 'https://github.com/example/repo.git', createMockTaskSolver);
+            await solver.solve();
+
+            const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+            const disconnectIndex = commands.indexOf('docker network disconnect bridge task-1-review');
+            expect(disconnectIndex).toBeGreaterThan(0);
+            expect(commands.findIndex(command => command.includes('claude -p'))).toBeGreaterThan(disconnectIndex);
+            expect(solver.getResult().selectionReason).toContain('Dry run');
+        });
+
+        it('should fail the task when no attempt succeeds', async () => {
+            config.bestOfN = { attempts: 2 };
+
+            const solver = new BestOfNSolver(config, task, 'https://github.com/example/repo.git', createMockTaskSolver);
+            await solver.solve();
+            const result = solver.getResult();
+
+            expect(result.status).toBe(TaskStatus.FAILURE);
+            expect(result.report).toContain('None of the 2 attempts succeeded');
+            expect(result.candidates).toHaveLength(2);
+        });
+    });
+});
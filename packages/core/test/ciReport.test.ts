@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+    renderJUnitReport,
+    writeJUnitReport,
+    parseFailureThreshold,
+    computeExitCode,
+    countFailedTasks,
+    FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE,
+} from "../src/ciReport";
+import { TaskStatus, type TaskResult } from "../src/task";
+import type { TaskCommitResult } from "../src/codeCommitter";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ciReport', () => {
+    const taskResults: TaskResult[] = [
+        { ID: 'task-1', title: 'Add tests', description: 'd', priority: 1, status: TaskStatus.SUCCESS, report: 'Added 3 tests' },
+        { ID: 'task-2', title: 'Fix "quotes" & <tags>', description: 'd', priority: 1, status: TaskStatus.FAILURE, report: 'Build broke' },
+        { ID: 'task-3', title: 'Refactor', description: 'd', priority: 1, status: TaskStatus.SKIPPED, report: 'Not needed' },
+        { ID: 'task-4', title: 'Docs', description: 'd', priority: 1, status: TaskStatus.SUCCESS, report: 'Updated docs' },
+    ];
+    const commitResults: TaskCommitResult[] = [
+        { taskId: 'task-1', taskTitle: 'Add tests', branchName: 'fsc-task-1', commitHash: 'abc123', success: true },
+        { taskId: 'task-4', taskTitle: 'Docs', branchName: 'fsc-task-4', success: false, error: 'merge conflict' },
+    ];
+
+    describe('renderJUnitReport', () => {
+        it('should render one testcase per task with failures and skips mapped from the status', () => {
+            const xml = renderJUnitReport({ runId: 'run-1', generatedAt: 0, taskResults, commitResults });
+
+            expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+            expect(xml).toContain('<testsuite name="full-self-coding run-1" tests="4" failures="2" errors="0" skipped="1"');
+            expect(xml.match(/<testcase /g)?.length).toBe(4);
+            expect(xml).toContain('<failure message="Task failed" type="failure">Build broke</failure>');
+            expect(xml).toContain('<skipped message="Not needed"/>');
+            expect(xml).toContain('<failure message="Commit failed: merge conflict" type="success">');
+            expect(xml).toContain('Branch: fsc-task-1\nCommit: abc123');
+        });
+
+        it('should escape XML special characters', () => {
+            const xml = renderJUnitReport({ generatedAt: 0, taskResults: [taskResults[1]] });
+            expect(xml).toContain('name="task-2: Fix &quot;quotes&quot; &amp; &lt;tags&gt;"');
+        });
+    });
+
+    describe('writeJUnitReport', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ci-report-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should create missing parent directories', () => {
+            const filePath = path.join(tempDir, 'reports', 'junit.xml');
+            writeJUnitReport({ generatedAt: 0, taskResults }, filePath);
+            expect(fs.readFileSync(filePath, 'utf8')).toContain('<testsuites');
+        });
+    });
+
+    describe('parseFailureThreshold', () => {
+        it('should parse counts and percentages', () => {
+            expect(parseFailureThreshold('0')).toEqual({ maxFailures: 0 });
+            expect(parseFailureThreshold('3')).toEqual({ maxFailures: 3 });
+            expect(parseFailureThreshold('25%')).toEqual({ maxFailurePercentage: 25 });
+        });
+
+        it('should reject invalid thresholds', () => {
+            expect(() => parseFailureThreshold('-1')).toThrow('Invalid failure threshold');
+            expect(() => parseFailureThreshold('1.5')).toThrow('Invalid failure threshold');
+            expect(() => parseFailureThreshold('150%')).toThrow('between 0% and 100%');
+            expect(() => parseFailureThreshold('many')).toThrow('Invalid failure threshold');
+        });
+    });
+
+    describe('computeExitCode', () => {
+        it('should count failed tasks, unfinished tasks and failed commits', () => {
+            const unfinished: TaskResult = { ...taskResults[0], ID: 'task-5', status: TaskStatus.ONGOING };
+            expect(countFailedTasks([...taskResults, unfinished], commitResults)).toBe(3);
+        });
+
+        it('should count tasks that ran out of resources as failed', () => {
+            const exhausted: TaskResult = { ...taskResults[0], ID: 'task-5', status: TaskStatus.RESOURCE_EXHAUSTED };
+            expect(countFailedTasks([...taskResults, exhausted], commitResults)).toBe(3);
+        });
+
+        it('should never fail without a threshold', () => {
+            expect(computeExitCode(taskResults, commitResults)).toBe(0);
+        });
+
+        it('should fail when the failed tasks exceed a count threshold', () => {
+            expect(computeExitCode(taskResults, commitResults, { maxFailures: 2 })).toBe(0);
+            expect(computeExitCode(taskResults, commitResults, { maxFailures: 1 })).toBe(FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE);
+        });
+
+        it('should fail when the failed tasks exceed a percentage threshold', () => {
+            expect(computeExitCode(taskResults, commitResults, { maxFailurePercentage: 50 })).toBe(0);
+            expect(computeExitCode(taskResults, commitResults, { maxFailurePercentage: 25 })).toBe(FAILURE_THRESHOLD_EXCEEDED_EXIT_CODE);
+        });
+    });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, mock, beforeEach, afterEach, test } from "bun:tes
 import { CodeCommitter, type GitStateOptions } from "../src/codeCommitter";
 import type { TaskResult } from "../src/task";
 import { TaskStatus } from "../src/task";
+import { dryRunRecorder } from "../src/dryRun";
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -359,6 +360,54 @@ index 1234567..abcdefg 100644
             // Should not throw error even with backup option
             expect(committer.getTaskResults()).toHaveLength(0);
         });
+
+        it('should create task branches from the base ref', async () => {
+            const baseCommit = execSync('git rev-parse HEAD', { cwd: tempRepoDir, encoding: 'utf8' }).trim();
+            fs.writeFileSync(path.join(tempRepoDir, 'later.txt'), 'later');
+            execSync('git add later.txt && git commit -q -m "later"', { cwd: tempRepoDir });
+
+            const committer = new CodeCommitter([sampleTaskResults[0]], tempRepoDir, { baseRef: baseCommit });
+            const result = await committer.commitAllChanges();
+            const parent = execSync(`git rev-parse ${result.results[0].branchName}^`, { cwd: tempRepoDir, encoding: 'utf8' }).trim();
+
+            expect(committer.getOriginalGitNode()).toBe(baseCommit);
+            expect(parent).toBe(baseCommit);
+        });
+
+        it('should not pass the base ref through a shell', () => {
+            const markerPath = path.join(tempRepoDir, 'injected');
+
+            expect(() => new CodeCommitter([], tempRepoDir, { baseRef: `HEAD"; touch "${markerPath}` })).toThrow('Failed to resolve git ref');
+            expect(fs.existsSync(markerPath)).toBe(false);
+        });
+
+        it('should report every committed task', async () => {
+            const committedTaskIDs: string[] = [];
+            const committer = new CodeCommitter([sampleTaskResults[0]], tempRepoDir, {
+                onTaskCommitted: commitResult => committedTaskIDs.push(commitResult.taskId),
+            });
+
+            const result = await committer.commitAllChanges();
+
+            expect(result.successfulTasks).toBe(1);
+            expect(committedTaskIDs).toEqual([sampleTaskResults[0].ID]);
+        });
+
+        it('should only record git commands in dry run mode', async () => {
+            dryRunRecorder.clear();
+            const committer = new CodeCommitter([sampleTaskResults[0]], tempRepoDir, { dryRun: true });
+
+            const result = await committer.commitAllChanges();
+            const branches = execSync('git branch', { cwd: tempRepoDir, encoding: 'utf8' });
+            const recordedCommands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+
+            expect(result.successfulTasks).toBe(1);
+            expect(result.results[0].branchName).toStartWith('task-task-1-');
+            expect(result.results[0].commitHash).toBeUndefined();
+            expect(branches).not.toContain('task-task-1-');
+            expect(recordedCommands).toContain(`git checkout -b ${result.results[0].branchName}`);
+            expect(fs.existsSync(path.join(tempRepoDir, 'new-feature.js'))).toBe(false);
+        });
     });
 
     describe('Static Factory Methods', () => {
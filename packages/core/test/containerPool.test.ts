@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { ContainerPool } from "../src/containerPool";
+import { dryRunRecorder } from "../src/dryRun";
+import { SWEAgentType, type Config } from "../src/config";
+
+describe('ContainerPool', () => {
+    const config: Config = {
+        agentType: SWEAgentType.CLAUDE_CODE,
+        anthropicAPIKey: 'sk-ant-123',
+        dryRun: true,
+        useAgentImages: false,
+        maxParallelDockerContainers: 3,
+        containerPool: { size: 2, installCommand: 'npm ci' },
+    };
+    const gitURL = 'https://github.com/example/repo.git';
+
+    beforeEach(() => {
+        dryRunRecorder.clear();
+    });
+
+    function recordedCommands(): string[] {
+        return dryRunRecorder.getCommands().map(recorded => recorded.command);
+    }
+
+    it('should set up a template container once and commit it to a snapshot', async () => {
+        const pool = new ContainerPool(config, gitURL, () => 0);
+
+        const container = await pool.acquire(SWEAgentType.CLAUDE_CODE);
+        await pool.acquire(SWEAgentType.CLAUDE_CODE);
+
+        expect(container).toBeDefined();
+        const commands = recordedCommands();
+        const snapshotCommits = commands.filter(command => command.startsWith('docker commit '));
+        expect(snapshotCommits).toHaveLength(1);
+        const snapshot = snapshotCommits[0]!.split(' ').pop();
+        expect(snapshot).toMatch(/^fsc-pool-[a-z0-9]+-claude-code:snapshot$/);
+
+        expect(commands).toContain(`docker exec ${commands[0]!.split(' ')[4]} sh -c 'git clone ${gitURL} /app/repo'`);
+        expect(commands).toContain(`docker exec ${commands[0]!.split(' ')[4]} sh -c 'cd /app/repo && npm ci'`);
+        // the template container does not get the API key, the warm containers do
+        expect(commands[0]).not.toContain('ANTHROPIC');
+        const warmStarts = commands.filter(command => command.startsWith('docker run ') && command.includes(` ${snapshot} `));
+        expect(warmStarts).toHaveLength(2);
+        expect(warmStarts[0]).toContain('-e ANTHROPIC_AUTH_TOKEN');
+
+        await pool.shutdown();
+    });
+
+    it('should warm up containers for the pending tasks only', async () => {
+        let pendingTasks = 5;
+        const pool = new ContainerPool(config, gitURL, () => pendingTasks);
+
+        await pool.acquire(SWEAgentType.CLAUDE_CODE);
+        pendingTasks = 0;
+        await pool.shutdown();
+
+        const commands = recordedCommands();
+        const snapshot = commands.find(command => command.startsWith('docker commit '))!.split(' ').pop();
+        // one container for the task and size idle containers for the pending tasks
+        expect(commands.filter(command => command.startsWith('docker run ') && command.includes(` ${snapshot} `))).toHaveLength(3);
+        // the idle containers are removed, the acquired one belongs to its task solver
+        const removed = commands.filter(command => command.startsWith('docker rm -f fsc-pool-') && !command.includes('-template-'));
+        expect(removed).toHaveLength(2);
+        expect(commands[commands.length - 1]).toBe(`docker rmi -f ${snapshot}`);
+    });
+
+    it('should keep the idle, template and active containers within maxParallelDockerContainers', async () => {
+        const pool = new ContainerPool({ ...config, maxParallelDockerContainers: 3, containerPool: { size: 3 } }, gitURL, () => 5, () => 1);
+
+        await pool.acquire(SWEAgentType.CLAUDE_CODE);
+        await pool.shutdown();
+
+        const commands = recordedCommands();
+        const snapshot = commands.find(command => command.startsWith('docker commit '))!.split(' ').pop();
+        // the active task and the template container of the snapshot leave room for one idle container
+        expect(commands.filter(command => command.startsWith('docker run ') && command.includes(` ${snapshot} `))).toHaveLength(2);
+    });
+
+    it('should not provide containers after shutdown', async () => {
+        const pool = new ContainerPool(config, gitURL);
+
+        await pool.shutdown();
+
+        expect(await pool.acquire(SWEAgentType.CLAUDE_CODE)).toBeUndefined();
+        expect(recordedCommands()).toEqual([]);
+    });
+});
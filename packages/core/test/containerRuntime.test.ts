@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+    ContainerRuntimeType,
+    DEFAULT_CONTAINER_RUNTIME,
+    getContainerRuntime,
+    getRootlessDockerHost,
+} from "../src/containerRuntime";
+import { DockerInstance } from "../src/dockerInstance";
+import { dryRunRecorder } from "../src/dryRun";
+import { NetworkPolicy } from "../src/networkPolicy";
+import { SWEAgentType, type Config } from "../src/config";
+
+describe('container runtimes', () => {
+    const config: Config = { agentType: SWEAgentType.CLAUDE_CODE };
+
+    beforeEach(() => {
+        dryRunRecorder.clear();
+    });
+
+    function recordedCommands(): string[] {
+        return dryRunRecorder.getCommands().map(recorded => recorded.command);
+    }
+
+    it('should use docker by default', () => {
+        expect(getContainerRuntime(config)).toEqual(DEFAULT_CONTAINER_RUNTIME);
+    });
+
+    it('should reach a rootless Docker daemon on the socket of the user', () => {
+        const runtime = getContainerRuntime({ ...config, containerRuntimeRootless: true });
+
+        expect(runtime.environment).toEqual({ DOCKER_HOST: getRootlessDockerHost() });
+        expect(runtime.supportsDiskQuota).toBe(false);
+        expect(getContainerRuntime({ ...config, containerRuntimeRootless: true, containerRuntimeHost: 'tcp://builder:2375' }).environment)
+            .toEqual({ DOCKER_HOST: 'tcp://builder:2375' });
+    });
+
+    it('should use the remote client for a Podman service', () => {
+        const runtime = getContainerRuntime({
+            ...config,
+            containerRuntime: ContainerRuntimeType.PODMAN,
+            containerRuntimePath: '/usr/bin/podman',
+            containerRuntimeHost: 'unix:///run/user/1000/podman/podman.sock',
+        });
+
+        expect(runtime.command).toEqual(['/usr/bin/podman', '--remote']);
+        expect(runtime.environment).toEqual({ CONTAINER_HOST: 'unix:///run/user/1000/podman/podman.sock' });
+    });
+
+    it('should issue the container commands with the configured runtime', async () => {
+        const docker = new DockerInstance({ dryRun: true, runtime: getContainerRuntime({ ...config, containerRuntime: ContainerRuntimeType.PODMAN }) });
+
+        await docker.startContainer('node:latest', 'task-1', { resources: { memoryMB: 512, diskQuotaGB: 10 } });
+        await docker.runCommands(['ls /app']);
+        await docker.isolateNetwork();
+        await docker.shutdownContainer();
+
+        expect(recordedCommands()).toEqual([
+            'podman run -d --name task-1 --memory 512m node:latest sleep infinity',
+            "podman exec task-1 sh -c 'ls /app'",
+            'podman network disconnect podman task-1',
+            'podman rm -f task-1',
+        ]);
+        expect(dryRunRecorder.getCommands()[0]!.source).toBe(ContainerRuntimeType.PODMAN);
+    });
+
+    it('should start the egress proxy of nerdctl on both networks', async () => {
+        const docker = new DockerInstance({ dryRun: true, runtime: getContainerRuntime({ ...config, containerRuntime: ContainerRuntimeType.NERDCTL }) });
+
+        await docker.startContainer('node:latest', 'task-2', { networkPolicy: NetworkPolicy.ALLOW_LIST, allowedHosts: ['api.anthropic.com'] });
+
+        const commands = recordedCommands();
+        expect(commands[0]).toBe('nerdctl network create --internal task-2-net');
+        expect(commands[1]).toBe('nerdctl run -d --name task-2-proxy --network bridge --network task-2-net node:latest sleep infinity');
+        expect(commands.some(command => command.includes('network connect'))).toBe(false);
+        await expect(docker.isolateNetwork()).rejects.toThrow('cannot disconnect');
+    });
+});
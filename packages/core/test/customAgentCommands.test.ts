@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { getCustomAgentCommand, renderCustomAgentCommand, customAgentAdapter } from "../src/SWEAgent/customAgentCommands";
+import { taskSolverCommands } from "../src/SWEAgent/SWEAgentTaskSolverCommands";
+import { createConfig, SWEAgentType } from "../src/config";
+import { ConfigReader } from "../src/configReader";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const customAgent = {
+    installCommands: ['npm install -g opencode-ai'],
+    analyzerCommand: 'cd {{repoPath}} && opencode run --model {{model}} "$(cat {{promptPath}})"',
+    solverCommand: 'cd {{ repoPath }} && opencode run "$(cat {{promptPath}})"',
+    model: 'anthropic/claude-sonnet-4',
+};
+
+describe('custom agent commands', () => {
+    it('should fill in the placeholders of the analyzer and solver commands', () => {
+        const config = createConfig({ agentType: SWEAgentType.CUSTOM, customAgent });
+
+        expect(getCustomAgentCommand(config, true))
+            .toBe('cd /app/repo && opencode run --model anthropic/claude-sonnet-4 "$(cat /app/codeAnalyzerPrompt.txt)"');
+        expect(getCustomAgentCommand(config, false))
+            .toBe('cd /app/repo && opencode run "$(cat /app/taskSolverPrompt.txt)"');
+    });
+
+    it('should install the CLI before solving', () => {
+        const config = createConfig({ agentType: SWEAgentType.CUSTOM, customAgent });
+        const task = { ID: 'task-1', title: 'Title', description: 'Description', priority: 1 };
+
+        const commands = taskSolverCommands(SWEAgentType.CUSTOM, config, task, 'https://github.com/example/repo.git');
+
+        expect(commands).toContain('npm install -g opencode-ai');
+        expect(commands[commands.length - 1]).toBe('cd /app/repo && opencode run "$(cat /app/taskSolverPrompt.txt)"');
+    });
+
+    it('should throw for unknown placeholders and placeholders without a value', () => {
+        expect(() => renderCustomAgentCommand('agent {{prompt}}', { promptPath: '/app/p.txt' }))
+            .toThrow('Unknown placeholder {{prompt}}');
+        expect(() => renderCustomAgentCommand('agent --model {{model}}', { model: undefined }))
+            .toThrow('no model is configured');
+    });
+
+    it('should throw when the custom agent is not configured', () => {
+        expect(() => customAgentAdapter.getSolverCommand(createConfig({ agentType: SWEAgentType.CUSTOM })))
+            .toThrow('config.customAgent must be provided');
+    });
+
+    describe('config validation', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-agent-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should reject a custom agent without a solver command', () => {
+            fs.writeFileSync(path.join(tempDir, 'config.json'), JSON.stringify({
+                agentType: SWEAgentType.CUSTOM,
+                customAgent: { analyzerCommand: 'agent analyze' },
+            }));
+            const reader = new ConfigReader({ configDir: tempDir, throwOnMissing: true, readSupplementaryConfig: false });
+
+            expect(() => reader.readConfig()).toThrow('customAgent.solverCommand must be a non-empty string');
+        });
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { DryRunRecorder, dryRunRecorder, formatCommand } from "../src/dryRun";
+import { DockerInstance, DockerRunStatus, getContainerResourceLimits } from "../src/dockerInstance";
+import { getConfigSecrets, maskSecrets, SECRET_MASK } from "../src/utils/maskSecrets";
+import { DEFAULT_CONFIG, SWEAgentType, type Config } from "../src/config";
+import analyzeCodebase, { DRY_RUN_PLACEHOLDER_TASK } from "../src/analyzer";
+import { TaskSolverManager } from "../src/taskSolverManager";
+import { TaskSolver } from "../src/taskSolver";
+import type { ContainerPool } from "../src/containerPool";
+import { CodeCommitter } from "../src/codeCommitter";
+
+describe('dry run', () => {
+    describe('maskSecrets', () => {
+        it('should collect the non-empty secret fields of a config', () => {
+            const secrets = getConfigSecrets({
+                agentType: SWEAgentType.CLAUDE_CODE,
+                anthropicAPIKey: 'sk-ant-123',
+                googleGeminiApiKey: '',
+                anthropicAPIBaseUrl: 'https://api.example.com',
+            });
+            expect(secrets).toEqual(['sk-ant-123']);
+        });
+
+        it('should mask every occurrence of each secret', () => {
+            const masked = maskSecrets('export A=sk-1 && export B=sk-1-long && echo sk-1', ['sk-1', 'sk-1-long']);
+            expect(masked).toBe(`export A=${SECRET_MASK} && export B=${SECRET_MASK} && echo ${SECRET_MASK}`);
+        });
+    });
+
+    describe('formatCommand', () => {
+        it('should quote arguments that need quoting', () => {
+            expect(formatCommand(['docker', 'exec', 'box', 'sh', '-c', "echo 'hi' && ls"]))
+                .toBe(`docker exec box sh -c 'echo '\\''hi'\\'' && ls'`);
+        });
+    });
+
+    describe('DryRunRecorder', () => {
+        it('should record commands in order with secrets masked', () => {
+            const recorder = new DryRunRecorder();
+            recorder.record('docker', 'export ANTHROPIC_AUTH_TOKEN=sk-ant-123 && claude', ['sk-ant-123']);
+            recorder.record('git', 'git checkout -b task-1');
+
+            expect(recorder.getCommands().map(recorded => recorded.command)).toEqual([
+                `export ANTHROPIC_AUTH_TOKEN=${SECRET_MASK} && claude`,
+                'git checkout -b task-1',
+            ]);
+
+            recorder.clear();
+            expect(recorder.getCommands()).toEqual([]);
+        });
+    });
+
+    describe('DockerInstance', () => {
+        beforeEach(() => {
+            dryRunRecorder.clear();
+        });
+
+        it('should record container commands without running docker', async () => {
+            const docker = new DockerInstance({ dryRun: true, secrets: ['sk-secret'] });
+
+            const containerName = await docker.startContainer('node:latest', 'dry-run-container');
+            const result = await docker.runCommands(['git clone https://github.com/example/repo.git /app/repo']);
+            const asyncResult = await docker.runCommandAsync('export KEY=sk-secret && claude -p "solve"');
+            await docker.copyFileToContainer('prompt', '/app/prompt.txt');
+            const fileContent = await docker.copyFileFromContainer('/app/git_diff.txt');
+            await docker.shutdownContainer();
+
+            expect(containerName).toBe('dry-run-container');
+            expect(result.status).toBe(DockerRunStatus.SUCCESS);
+            expect(asyncResult.success).toBe(true);
+            expect(fileContent).toBe('');
+
+            const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+            expect(commands).toHaveLength(6);
+            expect(commands[0]).toBe('docker run -d --name dry-run-container node:latest sleep infinity');
+            expect(commands[1]).toBe("docker exec dry-run-container sh -c 'git clone https://github.com/example/repo.git /app/repo'");
+            expect(commands[2]).toContain(`export KEY=${SECRET_MASK}`);
+            expect(commands[2]).not.toContain('sk-secret');
+            expect(commands[5]).toBe('docker rm -f dry-run-container');
+        });
+
+        it('should pass the container environment by name only', async () => {
+            const docker = new DockerInstance({ dryRun: true, secrets: ['sk-secret'] });
+
+            await docker.startContainer('node:latest', 'env-container', { environment: { ANTHROPIC_AUTH_TOKEN: 'sk-secret' } });
+
+            expect(dryRunRecorder.getCommands()[0].command).toBe('docker run -d --name env-container -e ANTHROPIC_AUTH_TOKEN node:latest sleep infinity');
+            await expect(docker.startContainer('node:latest', 'env-container', { environment: { 'BAD NAME': 'x' } })).rejects.toThrow('Invalid environment variable name');
+        });
+
+        it('should start containers with the configured resource limits', async () => {
+            const docker = new DockerInstance({ dryRun: true });
+            const resources = getContainerResourceLimits({
+                ...DEFAULT_CONFIG,
+                agentType: SWEAgentType.CLAUDE_CODE,
+                dockerMemoryMB: 512,
+                dockerCpuCores: 1,
+                dockerPidsLimit: 1024,
+                dockerDiskQuotaGB: 20,
+            });
+
+            await docker.startContainer('node:latest', 'limited-container', { resources });
+
+            expect(dryRunRecorder.getCommands()[0].command).toBe(
+                'docker run -d --name limited-container --memory 512m --cpus 1 --pids-limit 1024 --storage-opt size=20G node:latest sleep infinity'
+            );
+        });
+
+        it('should not limit the containers unless limits are configured', async () => {
+            const docker = new DockerInstance({ dryRun: true });
+
+            await docker.startContainer('node:latest', 'unlimited-container', { resources: getContainerResourceLimits(DEFAULT_CONFIG) });
+
+            expect(dryRunRecorder.getCommands()[0].command).toBe('docker run -d --name unlimited-container node:latest sleep infinity');
+        });
+    });
+
+    describe('run', () => {
+        beforeEach(() => {
+            dryRunRecorder.clear();
+        });
+
+        it('should record the git commands of the tasks from analysis to commit', async () => {
+            const config: Config = { ...DEFAULT_CONFIG, agentType: SWEAgentType.CLAUDE_CODE, anthropicAPIKey: 'sk-ant-123', dryRun: true, useAgentImages: false };
+            const gitURL = 'https://github.com/example/repo.git';
+
+            const tasks = await analyzeCodebase(config, gitURL);
+            const taskSolverManager = new TaskSolverManager(config, gitURL);
+            for (const task of tasks) {
+                taskSolverManager.addTask(task);
+            }
+            await taskSolverManager.start();
+            // the repository of a --repo run is not cloned in a dry run
+            const committer = new CodeCommitter(taskSolverManager.getReports(), '/nonexistent/repo', { dryRun: true });
+            const summary = await committer.commitAllChanges();
+
+            expect(tasks).toEqual([DRY_RUN_PLACEHOLDER_TASK]);
+            expect(summary.results[0]!.branchName).toStartWith(`task-${DRY_RUN_PLACEHOLDER_TASK.ID}-`);
+            const gitCommands = dryRunRecorder.getCommands().filter(recorded => recorded.source === 'git').map(recorded => recorded.command);
+            expect(gitCommands).toContain(`git checkout -b ${summary.results[0]!.branchName}`);
+            expect(gitCommands).toContain(`git apply --whitespace=fix '<git diff of task ${DRY_RUN_PLACEHOLDER_TASK.ID}>'`);
+            expect(gitCommands.some(command => command.startsWith('git commit -m '))).toBe(true);
+        }, 30000);
+
+        it('should only run the extra commands before the analysis of the Gemini CLI', async () => {
+            const recordAnalysis = async (config: Config): Promise<string> => {
+                dryRunRecorder.clear();
+                await analyzeCodebase({ ...config, dryRun: true, useAgentImages: false }, 'https://github.com/example/repo.git', true, 'echo extra-command');
+                return dryRunRecorder.getCommands().map(recorded => recorded.command).join('\n');
+            };
+
+            expect(await recordAnalysis({ ...DEFAULT_CONFIG, agentType: SWEAgentType.GEMINI_CLI, googleGeminiApiKey: 'gemini-key' })).toContain('echo extra-command');
+            expect(await recordAnalysis({ ...DEFAULT_CONFIG, agentType: SWEAgentType.CLAUDE_CODE, anthropicAPIKey: 'sk-ant-123' })).not.toContain('echo extra-command');
+        });
+
+        it('should remove the container of a task whose command fails', async () => {
+            const config: Config = { ...DEFAULT_CONFIG, agentType: SWEAgentType.CLAUDE_CODE, anthropicAPIKey: 'sk-ant-123', dryRun: true };
+            const docker = new DockerInstance({ dryRun: true });
+            await docker.startContainer('node:latest', 'failing-task');
+            docker.runCommandAsync = async () => ({ status: DockerRunStatus.FAILURE, success: false, output: '', error: 'agent crashed' });
+            const containerPool = { acquire: async () => docker } as unknown as ContainerPool;
+
+            const taskSolver = new TaskSolver(config, DRY_RUN_PLACEHOLDER_TASK, SWEAgentType.CLAUDE_CODE, 'https://github.com/example/repo.git', containerPool);
+            await expect(taskSolver.solve()).rejects.toThrow('agent crashed');
+
+            expect(dryRunRecorder.getCommands().map(recorded => recorded.command)).toContain('docker rm -f failing-task');
+        });
+    });
+});
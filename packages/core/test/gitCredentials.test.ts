@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+    DEPLOY_KEY_CONTAINER_PATH,
+    GIT_TOKEN_ENV_VAR,
+    GitCredentialStrategy,
+    SSH_AGENT_SOCKET_CONTAINER_PATH,
+    getGitCredentialStrategy,
+    setupGitCredentials,
+    withGitCredentials,
+} from "../src/gitCredentials";
+import { DockerInstance } from "../src/dockerInstance";
+import analyzeCodebase from "../src/analyzer";
+import { dryRunRecorder } from "../src/dryRun";
+import { RepoSource } from "../src/repoSource";
+import { SWEAgentType, type Config } from "../src/config";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('git credentials', () => {
+    const baseConfig: Config = { agentType: SWEAgentType.CLAUDE_CODE };
+    const originalSocket = process.env.SSH_AUTH_SOCK;
+
+    beforeEach(() => {
+        dryRunRecorder.clear();
+    });
+
+    afterEach(() => {
+        if (originalSocket === undefined) {
+            delete process.env.SSH_AUTH_SOCK;
+        } else {
+            process.env.SSH_AUTH_SOCK = originalSocket;
+        }
+    });
+
+    async function recordSetup(config: Config): Promise<string[]> {
+        const docker = new DockerInstance({ dryRun: true, secrets: ['ghp_token'] });
+        await docker.startContainer('node:latest', 'credentials-container', withGitCredentials(config));
+        await setupGitCredentials(docker, config);
+        return dryRunRecorder.getCommands().map(recorded => recorded.command);
+    }
+
+    it('should use no credentials by default and for local repositories', async () => {
+        expect(getGitCredentialStrategy(baseConfig)).toBe(GitCredentialStrategy.NONE);
+        expect(getGitCredentialStrategy({
+            ...baseConfig,
+            repoSource: RepoSource.LOCAL,
+            gitCredentialStrategy: GitCredentialStrategy.SSH_AGENT,
+        })).toBe(GitCredentialStrategy.NONE);
+
+        const commands = await recordSetup(baseConfig);
+        expect(commands).toEqual(['docker run -d --name credentials-container node:latest sleep infinity']);
+    });
+
+    it('should copy only the configured deploy key', async () => {
+        const keyDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'git-credentials-test-'));
+        try {
+            const keyPath = path.join(keyDirectory, 'deploy_key');
+            fs.writeFileSync(keyPath, 'PRIVATE KEY');
+
+            const commands = await recordSetup({ ...baseConfig, gitCredentialStrategy: GitCredentialStrategy.DEPLOY_KEY, gitDeployKeyPath: keyPath });
+
+            expect(commands.some(command => command.includes(`credentials-container:${DEPLOY_KEY_CONTAINER_PATH}`))).toBe(true);
+            expect(commands.join('\n')).toContain(`ssh -i ${DEPLOY_KEY_CONTAINER_PATH} -o IdentitiesOnly=yes`);
+            expect(commands.join('\n')).not.toContain('PRIVATE KEY');
+            expect(commands.join('\n')).not.toContain('.gitconfig');
+        } finally {
+            fs.rmSync(keyDirectory, { recursive: true, force: true });
+        }
+    });
+
+    it('should remove the deploy key before the agent runs', async () => {
+        const keyDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'git-credentials-test-'));
+        try {
+            const keyPath = path.join(keyDirectory, 'deploy_key');
+            fs.writeFileSync(keyPath, 'PRIVATE KEY');
+
+            await analyzeCodebase({
+                ...baseConfig,
+                anthropicAPIKey: 'sk-ant-123',
+                dryRun: true,
+                useAgentImages: false,
+                gitCredentialStrategy: GitCredentialStrategy.DEPLOY_KEY,
+                gitDeployKeyPath: keyPath,
+            }, 'git@github.com:example/repo.git');
+
+            const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+            const cloneIndex = commands.findIndex(command => command.includes('git clone'));
+            const removeIndex = commands.findIndex(command => command.includes(`rm -f ${DEPLOY_KEY_CONTAINER_PATH}`));
+            const agentIndex = commands.findIndex(command => command.includes('claude -p'));
+            expect(cloneIndex).toBeGreaterThan(0);
+            expect(removeIndex).toBeGreaterThan(cloneIndex);
+            expect(agentIndex).toBeGreaterThan(removeIndex);
+        } finally {
+            fs.rmSync(keyDirectory, { recursive: true, force: true });
+        }
+    });
+
+    it('should mount the ssh-agent socket of the host', async () => {
+        process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+
+        const commands = await recordSetup({ ...baseConfig, gitCredentialStrategy: GitCredentialStrategy.SSH_AGENT });
+
+        expect(commands[0]).toBe(`docker run -d --name credentials-container -e SSH_AUTH_SOCK -v /tmp/agent.sock:${SSH_AGENT_SOCKET_CONTAINER_PATH} node:latest sleep infinity`);
+    });
+
+    it('should fail the ssh-agent strategy without a running ssh-agent', () => {
+        delete process.env.SSH_AUTH_SOCK;
+
+        expect(() => withGitCredentials({ ...baseConfig, gitCredentialStrategy: GitCredentialStrategy.SSH_AGENT })).toThrow('SSH_AUTH_SOCK is not set');
+    });
+
+    it('should pass the HTTPS token by name to a credential helper', async () => {
+        const config = { ...baseConfig, gitCredentialStrategy: GitCredentialStrategy.HTTPS_TOKEN, gitHttpsToken: 'ghp_token' };
+
+        expect(withGitCredentials(config, { environment: { ANTHROPIC_AUTH_TOKEN: 'sk' } }).environment).toEqual({
+            ANTHROPIC_AUTH_TOKEN: 'sk',
+            [GIT_TOKEN_ENV_VAR]: 'ghp_token',
+        });
+
+        const commands = await recordSetup(config);
+        expect(commands[0]).toContain(`-e ${GIT_TOKEN_ENV_VAR}`);
+        expect(commands.join('\n')).toContain('credential.helper');
+        expect(commands.join('\n')).not.toContain('ghp_token');
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+    DEFAULT_ALLOWED_HOSTS,
+    NetworkPolicy,
+    egressProxySourceCode,
+    getAllowedHosts,
+    getNetworkStartOptions,
+} from "../src/networkPolicy";
+import { DockerInstance } from "../src/dockerInstance";
+import { dryRunRecorder } from "../src/dryRun";
+import { claudeCodeAdapter } from "../src/SWEAgent/claudeCodeCommands";
+import { RepoSource } from "../src/repoSource";
+import { SWEAgentType, type Config } from "../src/config";
+
+describe('network policy', () => {
+    const config: Config = {
+        agentType: SWEAgentType.CLAUDE_CODE,
+        anthropicAPIKey: 'sk-ant-123',
+        anthropicAPIBaseUrl: 'https://llm-gateway.example.com/v1',
+        networkPolicy: NetworkPolicy.ALLOW_LIST,
+        networkAllowList: ['*.internal.example.com'],
+    };
+
+    beforeEach(() => {
+        dryRunRecorder.clear();
+    });
+
+    it('should allow the registries, the agent API, the git host and the configured hosts', () => {
+        const hosts = getAllowedHosts(config, claudeCodeAdapter, 'https://gitlab.example.com/group/repo.git');
+
+        expect(hosts).toEqual([
+            ...DEFAULT_ALLOWED_HOSTS,
+            'llm-gateway.example.com',
+            'gitlab.example.com',
+            '*.internal.example.com',
+        ]);
+    });
+
+    it('should not allow the git host of a local repository or an ssh remote', () => {
+        expect(getAllowedHosts({ ...config, repoSource: RepoSource.LOCAL }, claudeCodeAdapter, 'https://github.com/example/repo.git'))
+            .not.toContain('github.com');
+        expect(getAllowedHosts(config, claudeCodeAdapter, 'git@github.com:example/repo.git')).not.toContain('github.com');
+    });
+
+    it('should only compute an allow-list for the allow-list policy', () => {
+        expect(getNetworkStartOptions({ agentType: SWEAgentType.CLAUDE_CODE }, claudeCodeAdapter, '')).toEqual({ networkPolicy: NetworkPolicy.FULL });
+        expect(getNetworkStartOptions(config, claudeCodeAdapter, '').allowedHosts).toContain('llm-gateway.example.com');
+    });
+
+    it('should embed the allowed hosts in the egress proxy', () => {
+        const source = egressProxySourceCode(['api.anthropic.com']);
+
+        expect(source).toContain('const ALLOWED_HOSTS = ["api.anthropic.com"];');
+        expect(source).toContain("'HTTP/1.1 403 Forbidden\\r\\n\\r\\n'");
+    });
+
+    it('should put an allow-list container behind an egress proxy on an internal network', async () => {
+        const docker = new DockerInstance({ dryRun: true });
+
+        await docker.startContainer('node:latest', 'task-1', { networkPolicy: NetworkPolicy.ALLOW_LIST, allowedHosts: ['api.anthropic.com'] });
+        await docker.shutdownContainer();
+
+        const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+        expect(commands[0]).toBe('docker network create --internal task-1-net');
+        expect(commands[1]).toBe('docker run -d --name task-1-proxy node:latest sleep infinity');
+        expect(commands[2]).toBe('docker network connect task-1-net task-1-proxy');
+        expect(commands).toContain('docker run -d --name task-1 --network task-1-net -e HTTP_PROXY -e HTTPS_PROXY -e http_proxy -e https_proxy -e NO_PROXY -e no_proxy node:latest sleep infinity');
+        expect(commands.slice(-3)).toEqual(['docker rm -f task-1', 'docker rm -f task-1-proxy', 'docker network rm task-1-net']);
+    });
+
+    it('should disconnect an isolated container from the network', async () => {
+        const docker = new DockerInstance({ dryRun: true });
+
+        await docker.startContainer('node:latest', 'task-2', { networkPolicy: NetworkPolicy.NONE });
+        await docker.isolateNetwork();
+
+        expect(dryRunRecorder.getCommands().map(recorded => recorded.command)).toEqual([
+            'docker run -d --name task-2 node:latest sleep infinity',
+            'docker network disconnect bridge task-2',
+        ]);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "bun:test";
+import { getDefaultOutputDirectory, resolveOutputDirectory } from "../src/utils/outputDirectory";
+import * as path from 'path';
+import * as os from 'os';
+
+describe('outputDirectory', () => {
+    describe('getDefaultOutputDirectory', () => {
+        it('should use XDG_STATE_HOME on Linux', () => {
+            expect(getDefaultOutputDirectory('linux', { XDG_STATE_HOME: '/var/state' })).toBe('/var/state/full-self-coding');
+        });
+
+        it('should fall back to ~/.local/state on Linux', () => {
+            expect(getDefaultOutputDirectory('linux', {})).toBe(path.join(os.homedir(), '.local', 'state', 'full-self-coding'));
+        });
+
+        it('should ignore a relative XDG_STATE_HOME', () => {
+            expect(getDefaultOutputDirectory('linux', { XDG_STATE_HOME: 'state' })).toBe(path.join(os.homedir(), '.local', 'state', 'full-self-coding'));
+        });
+
+        it('should use ~/Library/Logs on macOS', () => {
+            expect(getDefaultOutputDirectory('darwin', {})).toBe(path.join(os.homedir(), 'Library', 'Logs', 'full-self-coding'));
+        });
+
+        it('should use LOCALAPPDATA on Windows', () => {
+            expect(getDefaultOutputDirectory('win32', { LOCALAPPDATA: '/appdata' })).toBe(path.join('/appdata', 'full-self-coding'));
+        });
+    });
+
+    describe('resolveOutputDirectory', () => {
+        it('should use the configured directory', () => {
+            expect(resolveOutputDirectory({ outputDirectory: '/tmp/fsc-output' })).toBe('/tmp/fsc-output');
+        });
+
+        it('should expand a leading tilde', () => {
+            expect(resolveOutputDirectory({ outputDirectory: '~/fsc' })).toBe(path.join(os.homedir(), 'fsc'));
+        });
+
+        it('should fall back to the platform default', () => {
+            expect(resolveOutputDirectory({})).toBe(getDefaultOutputDirectory());
+        });
+    });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+    RepoSource,
+    LOCAL_REPO_BUNDLE_REF,
+    LOCAL_REPO_BUNDLE_PATH,
+    createLocalRepoBundle,
+    getRepoCloneCommands,
+    getBaseRef,
+    prepareLocalClone,
+    copyLocalRepoToContainer,
+} from "../src/repoSource";
+import { createConfig, SWEAgentType } from "../src/config";
+import { DockerInstance } from "../src/dockerInstance";
+import { dryRunRecorder } from "../src/dryRun";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+
+describe('repoSource', () => {
+    let tempDir: string;
+    let repoDir: string;
+    let firstCommit: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-source-test-'));
+        repoDir = path.join(tempDir, 'repo');
+        fs.mkdirSync(repoDir);
+
+        execSync('git init -q', { cwd: repoDir });
+        execSync('git config user.name "Test User"', { cwd: repoDir });
+        execSync('git config user.email "test@example.com"', { cwd: repoDir });
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'first');
+        execSync('git add README.md && git commit -q -m "first"', { cwd: repoDir });
+        firstCommit = execSync('git rev-parse HEAD', { cwd: repoDir, encoding: 'utf8' }).trim();
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'unpushed');
+        execSync('git commit -q -am "unpushed"', { cwd: repoDir });
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Seed a fresh repository from a bundle the same way the container does
+     */
+    function seedFromBundle(bundlePath: string): string {
+        const targetDir = path.join(tempDir, 'target');
+        execSync(`git init -q "${targetDir}"`);
+        execSync(`git fetch -q "${bundlePath}" ${LOCAL_REPO_BUNDLE_REF} && git checkout -q -b fsc-local FETCH_HEAD`, { cwd: targetDir });
+        return targetDir;
+    }
+
+    describe('createLocalRepoBundle', () => {
+        it('should bundle unpushed commits of the local checkout', () => {
+            const bundlePath = path.join(tempDir, 'repo.bundle');
+            const commitHash = createLocalRepoBundle(repoDir, 'HEAD', bundlePath);
+
+            const targetDir = seedFromBundle(bundlePath);
+            expect(execSync('git rev-parse HEAD', { cwd: targetDir, encoding: 'utf8' }).trim()).toBe(commitHash);
+            expect(fs.readFileSync(path.join(targetDir, 'README.md'), 'utf8')).toBe('unpushed');
+        });
+
+        it('should bundle a chosen commit', () => {
+            const bundlePath = path.join(tempDir, 'repo.bundle');
+            expect(createLocalRepoBundle(repoDir, firstCommit, bundlePath)).toBe(firstCommit);
+
+            const targetDir = seedFromBundle(bundlePath);
+            expect(fs.readFileSync(path.join(targetDir, 'README.md'), 'utf8')).toBe('first');
+        });
+
+        it('should remove the temporary ref from the local checkout', () => {
+            createLocalRepoBundle(repoDir, 'HEAD', path.join(tempDir, 'repo.bundle'));
+            const refs = execSync('git for-each-ref', { cwd: repoDir, encoding: 'utf8' });
+            expect(refs).not.toContain(LOCAL_REPO_BUNDLE_REF);
+        });
+
+        it('should throw for an unknown commit', () => {
+            expect(() => createLocalRepoBundle(repoDir, 'no-such-branch', path.join(tempDir, 'repo.bundle')))
+                .toThrow('Commit no-such-branch not found');
+        });
+    });
+
+    describe('getRepoCloneCommands', () => {
+        it('should clone the remote by default', () => {
+            const config = createConfig({ agentType: SWEAgentType.CLAUDE_CODE });
+            expect(getRepoCloneCommands(config, 'https://github.com/example/repo.git'))
+                .toEqual(['git clone https://github.com/example/repo.git /app/repo']);
+        });
+
+        it('should check out the configured ref after cloning', () => {
+            const config = createConfig({ agentType: SWEAgentType.CLAUDE_CODE, gitRef: 'release/1.2' });
+            expect(getRepoCloneCommands(config, 'https://github.com/example/repo.git')).toEqual([
+                'git clone https://github.com/example/repo.git /app/repo',
+                'cd /app/repo && git checkout -q release/1.2',
+            ]);
+        });
+
+        it('should quote the remote URL and the ref for the shell', () => {
+            const config = createConfig({ agentType: SWEAgentType.CLAUDE_CODE, gitRef: 'main; rm -rf /' });
+            expect(getRepoCloneCommands(config, 'https://github.com/example/repo.git $(id)')).toEqual([
+                "git clone 'https://github.com/example/repo.git $(id)' /app/repo",
+                "cd /app/repo && git checkout -q 'main; rm -rf /'",
+            ]);
+        });
+
+        it('should seed the repository from the bundle when the source is local', () => {
+            const config = createConfig({ agentType: SWEAgentType.CLAUDE_CODE, repoSource: RepoSource.LOCAL });
+            const commands = getRepoCloneCommands(config, 'https://github.com/example/repo.git');
+
+            expect(commands.join('\n')).not.toContain('git clone');
+            expect(commands[1]).toContain(`git fetch -q ${LOCAL_REPO_BUNDLE_PATH} ${LOCAL_REPO_BUNDLE_REF}`);
+        });
+    });
+
+    describe('getBaseRef', () => {
+        it('should prefer the local commit when the source is local', () => {
+            expect(getBaseRef(createConfig({ agentType: SWEAgentType.CLAUDE_CODE, gitRef: 'main' }))).toBe('main');
+            expect(getBaseRef(createConfig({
+                agentType: SWEAgentType.CLAUDE_CODE,
+                repoSource: RepoSource.LOCAL,
+                localRepoCommit: 'abc123',
+                gitRef: 'main',
+            }))).toBe('abc123');
+            expect(getBaseRef(createConfig({ agentType: SWEAgentType.CLAUDE_CODE }))).toBeUndefined();
+        });
+    });
+
+    describe('prepareLocalClone', () => {
+        it('should clone a missing repository and check out the ref', () => {
+            const clonePath = path.join(tempDir, 'clone');
+            prepareLocalClone(repoDir, clonePath, firstCommit);
+
+            expect(execSync('git rev-parse HEAD', { cwd: clonePath, encoding: 'utf8' }).trim()).toBe(firstCommit);
+            expect(fs.readFileSync(path.join(clonePath, 'README.md'), 'utf8')).toBe('first');
+        });
+
+        it('should reuse an existing clone', () => {
+            const clonePath = path.join(tempDir, 'clone');
+            prepareLocalClone(repoDir, clonePath);
+            fs.writeFileSync(path.join(clonePath, 'marker.txt'), 'kept');
+
+            prepareLocalClone(repoDir, clonePath);
+            expect(fs.existsSync(path.join(clonePath, 'marker.txt'))).toBe(true);
+        });
+
+        it('should fetch new commits and branches into an existing clone', () => {
+            const clonePath = path.join(tempDir, 'clone');
+            prepareLocalClone(repoDir, clonePath);
+            const branch = execSync('git symbolic-ref --short HEAD', { cwd: repoDir, encoding: 'utf8' }).trim();
+
+            fs.writeFileSync(path.join(repoDir, 'README.md'), 'newer');
+            execSync('git commit -q -am "newer"', { cwd: repoDir });
+            execSync('git branch feature', { cwd: repoDir });
+            const newerCommit = execSync('git rev-parse HEAD', { cwd: repoDir, encoding: 'utf8' }).trim();
+
+            prepareLocalClone(repoDir, clonePath, branch);
+            expect(execSync('git rev-parse HEAD', { cwd: clonePath, encoding: 'utf8' }).trim()).toBe(newerCommit);
+
+            prepareLocalClone(repoDir, clonePath, 'feature');
+            expect(execSync('git symbolic-ref --short HEAD', { cwd: clonePath, encoding: 'utf8' }).trim()).toBe('feature');
+        });
+
+        it('should throw for an existing directory that is not a git repository', () => {
+            const clonePath = path.join(tempDir, 'not-a-repo');
+            fs.mkdirSync(clonePath);
+            fs.writeFileSync(path.join(clonePath, 'file.txt'), 'content');
+
+            expect(() => prepareLocalClone(repoDir, clonePath)).toThrow('is not a git repository');
+        });
+    });
+
+    describe('copyLocalRepoToContainer', () => {
+        it('should only record the copy in a dry run', async () => {
+            dryRunRecorder.clear();
+            const config = createConfig({
+                agentType: SWEAgentType.CLAUDE_CODE,
+                repoSource: RepoSource.LOCAL,
+                localRepoPath: repoDir,
+                dryRun: true,
+            });
+            const docker = new DockerInstance({ dryRun: true });
+            await docker.startContainer('node:latest', 'repo-source-container');
+
+            await copyLocalRepoToContainer(docker, config);
+
+            const commands = dryRunRecorder.getCommands().map(recorded => recorded.command);
+            expect(commands[1]).toContain(`git -C ${repoDir} bundle create`);
+            expect(commands[2]).toContain('repo-source-container:/app');
+        });
+    });
+});
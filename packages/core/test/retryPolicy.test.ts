@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import {
+    RetryCondition,
+    formatPreviousAttempts,
+    getMaxAttempts,
+    getRetryDelayMs,
+    isRetryable,
+    type RetryPolicy,
+} from "../src/retryPolicy";
+import { TaskStatus, type TaskResult } from "../src/task";
+import { taskSolverPrompt } from "../src/prompts/taskSolverPrompt";
+import { SWEAgentType } from "../src/config";
+
+describe('retryPolicy', () => {
+    const failedResult: TaskResult = { ID: '1', title: 'Task', description: 'Task', priority: 1, status: TaskStatus.FAILURE, report: 'could not build' };
+    const skippedResult: TaskResult = { ...failedResult, status: TaskStatus.SKIPPED };
+
+    it('should attempt tasks once without a retry policy', () => {
+        expect(getMaxAttempts(undefined)).toBe(1);
+        expect(getMaxAttempts({ maxAttempts: 3 })).toBe(3);
+        expect(isRetryable(undefined, failedResult)).toBe(false);
+    });
+
+    it('should retry errors and reported failures by default, but not skipped tasks', () => {
+        const policy: RetryPolicy = { maxAttempts: 3 };
+        expect(isRetryable(policy, failedResult)).toBe(true);
+        expect(isRetryable(policy, failedResult, new Error('Docker run failed'))).toBe(true);
+        expect(isRetryable(policy, skippedResult)).toBe(false);
+        expect(isRetryable(policy, { ...failedResult, status: TaskStatus.RESOURCE_EXHAUSTED })).toBe(false);
+    });
+
+    it('should only retry the configured conditions', () => {
+        const policy: RetryPolicy = { maxAttempts: 3, retryOn: [RetryCondition.ERROR] };
+        expect(isRetryable(policy, failedResult)).toBe(false);
+        expect(isRetryable(policy, failedResult, new Error('Docker run failed'))).toBe(true);
+    });
+
+    it('should only retry errors that match an error pattern', () => {
+        const policy: RetryPolicy = { maxAttempts: 3, errorPatterns: ['timeout', 'rate limit'] };
+        expect(isRetryable(policy, failedResult, new Error('Docker run failed with status timeout'))).toBe(true);
+        expect(isRetryable(policy, failedResult, new Error('Rate limit exceeded'))).toBe(true);
+        expect(isRetryable(policy, failedResult, new Error('Failed to parse final report'))).toBe(false);
+        expect(isRetryable(policy, failedResult)).toBe(true);
+    });
+
+    it('should back off exponentially', () => {
+        const policy: RetryPolicy = { maxAttempts: 4, backoffSeconds: 10 };
+        expect(getRetryDelayMs(policy, 1)).toBe(10000);
+        expect(getRetryDelayMs(policy, 2)).toBe(20000);
+        expect(getRetryDelayMs({ ...policy, backoffMultiplier: 1 }, 3)).toBe(10000);
+        expect(getRetryDelayMs({ maxAttempts: 2 }, 1)).toBe(0);
+    });
+
+    it('should put the previous attempts into the task solver prompt', () => {
+        expect(formatPreviousAttempts(undefined)).toBe('');
+
+        const prompt = taskSolverPrompt({
+            ...failedResult,
+            previousAttempts: [
+                { attempt: 1, agentType: SWEAgentType.CODEX, status: TaskStatus.FAILURE, report: 'could not build' },
+                { attempt: 2, status: TaskStatus.FAILURE, report: '', error: 'npm ERR! missing script: build' },
+            ],
+        }, { agentType: SWEAgentType.CODEX });
+
+        expect(prompt).toContain('### Attempt 1 (agent: codex), status: failure');
+        expect(prompt).toContain('could not build');
+        expect(prompt).toContain('Error output:\nnpm ERR! missing script: build');
+    });
+});
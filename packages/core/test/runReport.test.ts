@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import {
+    ReportFormat,
+    computeDiffStat,
+    renderMarkdownReport,
+    renderHtmlReport,
+    renderReport,
+    getReportFileExtension,
+    type RunReportData,
+} from "../src/runReport";
+import { TaskStatus } from "../src/task";
+
+describe('runReport', () => {
+    const gitDiff = [
+        'diff --git a/src/index.ts b/src/index.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/index.ts',
+        '+++ b/src/index.ts',
+        '@@ -1,3 +1,4 @@',
+        ' import x from "x";',
+        '-const a = 1;',
+        '+const a = 2;',
+        '+const b = 3;',
+        'diff --git a/README.md b/README.md',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/README.md',
+        '@@ -0,0 +1,2 @@',
+        '+# Title',
+        '+--- not a header',
+    ].join('\n');
+
+    const data: RunReportData = {
+        runId: '250101120000-abcd',
+        gitRemoteUrl: 'https://github.com/example/repo.git',
+        generatedAt: Date.UTC(2025, 0, 1, 12, 0, 0),
+        taskResults: [
+            {
+                ID: 'task-1',
+                title: 'Fix <script> handling',
+                description: 'Escape | pipes',
+                priority: 1,
+                agentType: 'claude-code',
+                status: TaskStatus.SUCCESS,
+                report: 'Changed the parser',
+                gitDiff,
+            },
+            {
+                ID: 'task-2',
+                title: 'Update docs',
+                description: 'Document the CLI',
+                priority: 2,
+                status: TaskStatus.FAILURE,
+                report: 'Agent failed',
+            },
+        ],
+        commitResults: [
+            {
+                taskId: 'task-1',
+                taskTitle: 'Fix <script> handling',
+                branchName: 'fsc-task-1',
+                commitHash: '0123456789abcdef0123',
+                success: true,
+            },
+        ],
+    };
+
+    describe('computeDiffStat', () => {
+        it('should count added and deleted lines per file, ignoring file headers', () => {
+            const diffStat = computeDiffStat(gitDiff);
+
+            expect(diffStat.files).toEqual([
+                { path: 'src/index.ts', additions: 2, deletions: 1 },
+                { path: 'README.md', additions: 2, deletions: 0 },
+            ]);
+            expect(diffStat.additions).toBe(4);
+            expect(diffStat.deletions).toBe(1);
+        });
+
+        it('should return an empty diffstat without a diff', () => {
+            expect(computeDiffStat(undefined)).toEqual({ files: [], additions: 0, deletions: 0 });
+        });
+    });
+
+    describe('renderMarkdownReport', () => {
+        it('should render the summary table with branches, commits and diffstat', () => {
+            const markdown = renderMarkdownReport(data);
+
+            expect(markdown).toContain('- **Run ID:** 250101120000-abcd');
+            expect(markdown).toContain('2 total, 1 succeeded, 1 failed, 0 skipped, 0 resource exhausted');
+            expect(markdown).toContain('| task-1 | Fix <script> handling | ✅ Success | claude-code | `fsc-task-1` | `0123456789` | 2 file(s), +4 -1 |');
+            expect(markdown).toContain('src/index.ts | +2 -1');
+            expect(markdown).toContain('Agent failed');
+        });
+
+        it('should escape pipes in table cells', () => {
+            const markdown = renderMarkdownReport({
+                ...data,
+                taskResults: [{ ...data.taskResults[1], title: 'a | b' }],
+            });
+            expect(markdown).toContain('| task-2 | a \\| b |');
+        });
+    });
+
+    describe('renderHtmlReport', () => {
+        it('should render a self-contained page and escape task content', () => {
+            const html = renderHtmlReport(data);
+
+            expect(html).toStartWith('<!DOCTYPE html>');
+            expect(html).toContain('<style>');
+            expect(html).toContain('Fix &lt;script&gt; handling');
+            expect(html).not.toContain('<script>');
+            expect(html).toContain('<code>fsc-task-1</code>');
+            expect(html).toContain('<td>claude-code</td>');
+            expect(html).toContain('<td class="status-failure">');
+        });
+    });
+
+    describe('renderReport', () => {
+        it('should dispatch on the report format', () => {
+            expect(renderReport(data, ReportFormat.MARKDOWN)).toBe(renderMarkdownReport(data));
+            expect(renderReport(data, ReportFormat.HTML)).toBe(renderHtmlReport(data));
+            expect(JSON.parse(renderReport(data, ReportFormat.JSON)).runId).toBe(data.runId);
+        });
+
+        it('should map formats to file extensions', () => {
+            expect(getReportFileExtension(ReportFormat.MARKDOWN)).toBe('md');
+            expect(getReportFileExtension(ReportFormat.HTML)).toBe('html');
+            expect(getReportFileExtension(ReportFormat.JSON)).toBe('json');
+        });
+    });
+});
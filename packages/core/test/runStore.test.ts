@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { RunStore, RunPhase, readRunIndex, getRunRepositorySettings } from "../src/runStore";
+import { RepoSource } from "../src/repoSource";
+import { SWEAgentType } from "../src/config";
+import { TaskStatus, type Task, type TaskResult } from "../src/task";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RunStore', () => {
+    let runsDirectory: string;
+    const gitRemoteUrl = 'https://github.com/example/repo.git';
+    const tasks: Task[] = [
+        { ID: 'task-1', title: 'Task 1', description: 'First task', priority: 1 },
+        { ID: 'task-2', title: 'Task 2', description: 'Second task', priority: 2 },
+        { ID: 'task/3', title: 'Task 3', description: 'Third task', priority: 3 },
+    ];
+
+    beforeEach(() => {
+        runsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'run-store-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(runsDirectory, { recursive: true, force: true });
+    });
+
+    it('should create a run directory with its status', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+
+        expect(store.getRunDirectory()).toBe(path.join(runsDirectory, store.getRunId()));
+        expect(fs.existsSync(path.join(store.getRunDirectory(), 'status.json'))).toBe(true);
+        expect(store.getStatus().phase).toBe(RunPhase.ANALYZING);
+        expect(store.getStatus().gitRemoteUrl).toBe(gitRemoteUrl);
+    });
+
+    it('should reopen an existing run with its phase and tasks', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        store.saveTasks(tasks);
+        store.setPhase(RunPhase.SOLVING);
+
+        const reopened = RunStore.open(store.getRunId(), runsDirectory);
+        expect(reopened.getStatus().phase).toBe(RunPhase.SOLVING);
+        expect(reopened.loadTasks()).toEqual(tasks);
+    });
+
+    it('should restore the repository of a --repo run on resume', () => {
+        const repository = getRunRepositorySettings({
+            agentType: SWEAgentType.CLAUDE_CODE,
+            repoUrl: 'https://github.com/example/other.git',
+            gitRef: 'release',
+            gitRemoteName: 'upstream',
+        });
+        const store = RunStore.create('https://github.com/example/other.git', runsDirectory, repository);
+        store.saveTasks(tasks);
+
+        const reopened = RunStore.open(store.getRunId(), runsDirectory);
+        expect(reopened.getStatus().repository).toEqual({
+            repoUrl: 'https://github.com/example/other.git',
+            gitRef: 'release',
+            gitRemoteName: 'upstream',
+        });
+    });
+
+    it('should save the resolved checkout and clone paths of a local run', () => {
+        const repository = getRunRepositorySettings({
+            agentType: SWEAgentType.CLAUDE_CODE,
+            repoSource: RepoSource.LOCAL,
+            localRepoCommit: 'abc123',
+            localClonePath: 'relative/clone',
+        });
+
+        expect(repository).toEqual({
+            repoSource: RepoSource.LOCAL,
+            localRepoPath: process.cwd(),
+            localRepoCommit: 'abc123',
+            localClonePath: path.resolve('relative/clone'),
+        });
+    });
+
+    it('should throw when opening an unknown run', () => {
+        expect(() => RunStore.open('missing-run', runsDirectory)).toThrow('Run missing-run not found');
+    });
+
+    it('should store diffs separately and load them back with the results', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        const result: TaskResult = {
+            ...tasks[0],
+            status: TaskStatus.SUCCESS,
+            report: 'done',
+            completedAt: 1700000000000,
+            gitDiff: 'diff --git a/file.txt b/file.txt\n',
+        };
+        store.saveTaskResult(result);
+
+        const savedResult = JSON.parse(fs.readFileSync(path.join(store.getRunDirectory(), 'results', 'task-1.json'), 'utf8'));
+        expect(savedResult.gitDiff).toBeUndefined();
+        expect(fs.readFileSync(path.join(store.getRunDirectory(), 'diffs', 'task-1.diff'), 'utf8')).toBe(result.gitDiff!);
+        expect(store.loadTaskResults()).toEqual([result]);
+    });
+
+    it('should store the diffs of best-of-N candidates and load them back', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        const result: TaskResult = {
+            ...tasks[2],
+            status: TaskStatus.SUCCESS,
+            report: 'done',
+            completedAt: 1700000000000,
+            gitDiff: 'diff --git a/b.txt b/b.txt\n',
+            candidates: [
+                { attemptId: 'attempt-1', agentType: 'codex', status: TaskStatus.SUCCESS, report: 'a', gitDiff: 'diff --git a/a.txt b/a.txt\n', selected: false },
+                { attemptId: 'attempt-2', agentType: 'claude-code', status: TaskStatus.SUCCESS, report: 'b', gitDiff: 'diff --git a/b.txt b/b.txt\n', selected: true },
+                { attemptId: 'attempt-3', agentType: 'codex', status: TaskStatus.FAILURE, report: 'c', selected: false },
+            ],
+            selectionReason: 'Smallest diff',
+        };
+        store.saveTaskResult(result);
+
+        const [resultFile] = fs.readdirSync(path.join(store.getRunDirectory(), 'results'));
+        expect(resultFile).toMatch(/^task_3-[0-9a-f]{8}\.json$/);
+        const fileName = resultFile!.replace(/\.json$/, '');
+        const savedResult = JSON.parse(fs.readFileSync(path.join(store.getRunDirectory(), 'results', resultFile!), 'utf8'));
+        expect(savedResult.candidates[0].gitDiff).toBeUndefined();
+        expect(fs.readFileSync(path.join(store.getRunDirectory(), 'candidates', fileName, 'attempt-1.diff'), 'utf8')).toBe(result.candidates![0].gitDiff!);
+        expect(fs.existsSync(path.join(store.getRunDirectory(), 'candidates', fileName, 'attempt-3.diff'))).toBe(false);
+        expect(store.loadTaskResults()).toEqual([result]);
+    });
+
+    it('should keep the results of task IDs that differ only in unsafe characters apart', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        const slashResult: TaskResult = { ID: 'a/b', title: 'Slash', description: 'a/b', priority: 1, status: TaskStatus.SUCCESS, report: 'slash', gitDiff: 'diff --git a/slash b/slash\n' };
+        const underscoreResult: TaskResult = { ID: 'a_b', title: 'Underscore', description: 'a_b', priority: 1, status: TaskStatus.SUCCESS, report: 'underscore', gitDiff: 'diff --git a/underscore b/underscore\n' };
+
+        store.saveTaskResult(slashResult);
+        store.saveTaskResult(underscoreResult);
+
+        expect(fs.readdirSync(path.join(store.getRunDirectory(), 'results'))).toHaveLength(2);
+        const loadedResults = store.loadTaskResults();
+        expect(loadedResults).toHaveLength(2);
+        expect(loadedResults).toContainEqual(slashResult);
+        expect(loadedResults).toContainEqual(underscoreResult);
+    });
+
+    it('should only re-queue tasks that did not finish', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        store.saveTasks(tasks);
+        store.saveTaskResult({ ...tasks[0], status: TaskStatus.SUCCESS, report: 'done' });
+        store.saveTaskResult({ ...tasks[1], status: TaskStatus.ONGOING, report: '' });
+
+        expect(store.getPendingTasks().map(task => task.ID)).toEqual(['task-2', 'task/3']);
+        expect(store.getFinishedTaskResults().map(result => result.ID)).toEqual(['task-1']);
+    });
+
+    it('should not re-queue tasks that exhausted their resources on resume', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        store.saveTasks(tasks);
+        store.saveTaskResult({ ...tasks[0], status: TaskStatus.RESOURCE_EXHAUSTED, report: 'out of memory' });
+        store.setPhase(RunPhase.SOLVING);
+
+        const reopened = RunStore.open(store.getRunId(), runsDirectory);
+        expect(reopened.getPendingTasks().map(task => task.ID)).toEqual(['task-2', 'task/3']);
+        expect(reopened.getFinishedTaskResults().map(result => result.ID)).toEqual(['task-1']);
+
+        const firstEntry = readRunIndex(runsDirectory).find(entry => entry.runId === store.getRunId());
+        expect(firstEntry?.resourceExhaustedTasks).toBe(1);
+    });
+
+    it('should keep the results of committed tasks for a resumed run', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        expect(store.loadCommitResults()).toEqual([]);
+
+        const commitResult = { taskId: 'task/3', taskTitle: 'Task 3', branchName: 'task-task/3-1', commitHash: 'abc123', success: true };
+        store.saveCommitResult(commitResult);
+
+        const reopened = RunStore.open(store.getRunId(), runsDirectory);
+        expect(reopened.loadCommitResults()).toEqual([commitResult]);
+    });
+
+    it('should append to the run log', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        store.appendLog('Started task task-1');
+
+        const log = fs.readFileSync(path.join(store.getRunDirectory(), 'run.log'), 'utf8');
+        expect(log).toContain('Started task task-1');
+    });
+
+    it('should save the final report as JSON and record it in the status', () => {
+        const store = RunStore.create(gitRemoteUrl, runsDirectory);
+        const results: TaskResult[] = [
+            { ...tasks[0], status: TaskStatus.SUCCESS, report: 'done' },
+            { ...tasks[1], status: TaskStatus.FAILURE, report: 'failed' },
+        ];
+
+        const reportPath = store.saveFinalReport(results);
+        const report = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+
+        expect(reportPath).toBe(path.join(store.getRunDirectory(), 'finalReport.json'));
+        expect(report.runId).toBe(store.getRunId());
+        expect(report.summary).toEqual({ totalTasks: 2, successfulTasks: 1, failedTasks: 1, skippedTasks: 0, resourceExhaustedTasks: 0 });
+        expect(report.tasks).toEqual(results);
+        expect(store.getStatus().reportPath).toBe(reportPath);
+    });
+
+    it('should keep an index of past runs', () => {
+        const firstRun = RunStore.create(gitRemoteUrl, runsDirectory);
+        const secondRun = RunStore.create('https://github.com/example/other.git', runsDirectory);
+        firstRun.saveTaskResult({ ...tasks[0], status: TaskStatus.SUCCESS, report: 'done' });
+        firstRun.setPhase(RunPhase.COMPLETED);
+
+        const entries = readRunIndex(runsDirectory);
+        expect(entries.map(entry => entry.runId).sort()).toEqual([firstRun.getRunId(), secondRun.getRunId()].sort());
+
+        const firstEntry = entries.find(entry => entry.runId === firstRun.getRunId());
+        expect(firstEntry?.phase).toBe(RunPhase.COMPLETED);
+        expect(firstEntry?.successfulTasks).toBe(1);
+    });
+
+    it('should return an empty index when there are no runs', () => {
+        expect(readRunIndex(path.join(runsDirectory, 'missing'))).toEqual([]);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import {
+    SECRET_MASK,
+    SecretRedactor,
+    getConfigSecrets,
+    redactConfig,
+    redactTaskResult,
+    secretRedactor,
+} from "../src/utils/maskSecrets";
+import { RunStore } from "../src/runStore";
+import { SWEAgentType } from "../src/config";
+import { TaskStatus, type TaskResult } from "../src/task";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('secret redaction', () => {
+    const config = {
+        agentType: SWEAgentType.CUSTOM,
+        anthropicAPIKey: 'sk-ant-123',
+        extraSecrets: ['ghp_extra'],
+        customAgent: { analyzerCommand: 'a', solverCommand: 'b', environment: { AGENT_TOKEN: 'agent-token' } },
+    };
+
+    afterEach(() => {
+        secretRedactor.clear();
+    });
+
+    it('should collect the extra secrets and the custom agent environment', () => {
+        expect(getConfigSecrets(config).sort()).toEqual(['agent-token', 'ghp_extra', 'sk-ant-123']);
+    });
+
+    it('should mask the secrets of a configuration for printing', () => {
+        const printed = JSON.stringify(redactConfig(config));
+
+        expect(printed).not.toContain('sk-ant-123');
+        expect(printed).not.toContain('ghp_extra');
+        expect(printed).not.toContain('agent-token');
+        expect(redactConfig(config).customAgent?.environment).toEqual({ AGENT_TOKEN: SECRET_MASK });
+        expect(config.anthropicAPIKey).toBe('sk-ant-123');
+    });
+
+    it('should mask the secrets in the reports of a task result', () => {
+        const taskResult: TaskResult = {
+            ID: '1', title: 'Task', description: 'Task', priority: 1,
+            status: TaskStatus.FAILURE,
+            report: 'used token sk-ant-123',
+            previousAttempts: [{ attempt: 1, status: TaskStatus.FAILURE, report: '', error: 'auth failed for ghp_extra' }],
+        };
+
+        const redacted = redactTaskResult(taskResult, getConfigSecrets(config));
+
+        expect(redacted.report).toBe(`used token ${SECRET_MASK}`);
+        expect(redacted.previousAttempts?.[0].error).toBe(`auth failed for ${SECRET_MASK}`);
+    });
+
+    it('should mask the registered secrets in console output', () => {
+        const redactor = new SecretRedactor();
+        redactor.register(['sk-ant-123', '']);
+        const originalLog = console.log;
+        const logged: string[] = [];
+        console.log = (...args: unknown[]) => { logged.push(args.join(' ')); };
+
+        try {
+            const restore = redactor.installConsoleRedaction();
+            console.log('key:', 'sk-ant-123', { token: 'sk-ant-123' });
+            restore();
+        } finally {
+            console.log = originalLog;
+        }
+
+        expect(logged).toHaveLength(1);
+        expect(logged[0]).not.toContain('sk-ant-123');
+        expect(logged[0]).toContain(SECRET_MASK);
+    });
+
+    it('should mask the registered secrets in the run store', () => {
+        const runsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'secret-redaction-test-'));
+        try {
+            secretRedactor.register(['sk-ant-123']);
+            const store = RunStore.create('https://github.com/example/repo.git', runsDirectory);
+            store.saveTaskResult({ ID: '1', title: 'Task', description: 'Task', priority: 1, status: TaskStatus.SUCCESS, report: 'sk-ant-123' });
+            store.appendLog('exported sk-ant-123');
+            const reportPath = store.saveFinalReport(store.loadTaskResults());
+
+            for (const filePath of [path.join(store.getRunDirectory(), 'results', '1.json'), path.join(store.getRunDirectory(), 'run.log'), reportPath]) {
+                expect(fs.readFileSync(filePath, 'utf8')).not.toContain('sk-ant-123');
+            }
+        } finally {
+            fs.rmSync(runsDirectory, { recursive: true, force: true });
+        }
+    });
+});
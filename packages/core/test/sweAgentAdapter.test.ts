@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { SWEAgentAdapterRegistry, sweAgentAdapterRegistry } from "../src/SWEAgent/SWEAgentAdapterRegistry";
+import { type SWEAgentAdapter, getAgentEnvironment, getAgentOutputPaths, DEFAULT_AGENT_OUTPUT_PATHS } from "../src/SWEAgent/SWEAgentAdapter";
+import { taskSolverCommands } from "../src/SWEAgent/SWEAgentTaskSolverCommands";
+import { createConfig, SWEAgentType } from "../src/config";
+import { ConfigReader } from "../src/configReader";
+import type { Task } from "../src/task";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const task: Task = {
+    ID: 'task-1',
+    title: 'Fix the bug',
+    description: 'Fix it',
+    priority: 1,
+};
+
+const echoAdapter: SWEAgentAdapter = {
+    agentType: 'echo-agent',
+    getInstallCommands: () => ['npm install -g echo-agent'],
+    getAnalyzerCommand: () => 'echo-agent analyze /app/codeAnalyzerPrompt.txt',
+    getSolverCommand: () => 'echo-agent solve /app/taskSolverPrompt.txt',
+    outputPaths: { finalReport: '/app/echo/report.json' },
+};
+
+describe('SWE agent adapters', () => {
+    describe('SWEAgentAdapterRegistry', () => {
+        it('should register the built-in agents', () => {
+            expect(new SWEAgentAdapterRegistry().getAgentTypes()).toEqual([
+                SWEAgentType.CLAUDE_CODE,
+                SWEAgentType.GEMINI_CLI,
+                SWEAgentType.CODEX,
+                SWEAgentType.CURSOR,
+                SWEAgentType.AIDER,
+                SWEAgentType.CUSTOM,
+            ]);
+        });
+
+        it('should build the commands of the built-in agents', () => {
+            const registry = new SWEAgentAdapterRegistry();
+            const config = createConfig({
+                agentType: SWEAgentType.CODEX,
+                openAICodexApiKey: 'sk-openai',
+                openAICodexAPIKeyExportNeeded: true,
+            });
+            const adapter = registry.get(SWEAgentType.CODEX);
+
+            expect(adapter.getInstallCommands(config)).toEqual(['npm install -g @openai/codex']);
+            expect(adapter.getAnalyzerCommand(config)).toContain('/app/codeAnalyzerPrompt.txt');
+            expect(adapter.getSolverCommand(config)).toStartWith('codex exec');
+            expect(getAgentEnvironment(adapter, config)).toEqual({ OPENAI_API_KEY: 'sk-openai' });
+            expect(getAgentOutputPaths(adapter)).toEqual(DEFAULT_AGENT_OUTPUT_PATHS);
+        });
+
+        it('should keep API keys out of the commands of every built-in agent', () => {
+            const registry = new SWEAgentAdapterRegistry();
+            const secrets = ['sk-ant', 'gemini-key', 'sk-openai', 'cursor-key'];
+            for (const agentType of registry.getAgentTypes()) {
+                const config = createConfig({
+                    agentType,
+                    anthropicAPIKey: 'sk-ant',
+                    anthropicAPIKeyExportNeeded: true,
+                    googleGeminiApiKey: 'gemini-key',
+                    googleGeminiAPIKeyExportNeeded: true,
+                    openAICodexApiKey: 'sk-openai',
+                    openAICodexAPIKeyExportNeeded: true,
+                    cursorAPIKey: 'cursor-key',
+                    cursorAPIKeyExportNeeded: true,
+                    customAgent: { analyzerCommand: 'agent --analyze', solverCommand: 'agent --solve', environment: { AGENT_KEY: 'sk-ant' } },
+                });
+                const adapter = registry.get(agentType);
+                const commands = [...adapter.getInstallCommands(config), adapter.getAnalyzerCommand(config), adapter.getSolverCommand(config)].join('\n');
+
+                expect(secrets.filter(secret => commands.includes(secret))).toEqual([]);
+                expect(Object.keys(getAgentEnvironment(adapter, config)).length).toBeGreaterThan(0);
+            }
+        });
+
+        it('should throw for an unknown agent type', () => {
+            expect(() => new SWEAgentAdapterRegistry().get('unknown-agent')).toThrow('Unsupported agent type: unknown-agent');
+        });
+
+        it('should reject invalid adapters', () => {
+            const registry = new SWEAgentAdapterRegistry();
+            expect(() => registry.register({ ...echoAdapter, getSolverCommand: undefined } as any))
+                .toThrow('getSolverCommand of agent echo-agent must be a function');
+        });
+    });
+
+    describe('loadModules', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-adapter-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should register the adapters exported by a module', async () => {
+            const modulePath = path.join(tempDir, 'adapters.ts');
+            fs.writeFileSync(modulePath, `export const adapters = [{
+                agentType: 'module-agent',
+                getInstallCommands: () => ['pip install module-agent'],
+                getAnalyzerCommand: () => 'module-agent analyze',
+                getSolverCommand: () => 'module-agent solve',
+            }];`);
+            const registry = new SWEAgentAdapterRegistry();
+
+            await registry.loadModules([modulePath]);
+
+            expect(registry.get('module-agent').getSolverCommand(createConfig({ agentType: 'module-agent' }))).toBe('module-agent solve');
+        });
+
+        it('should throw for a module that exports no adapter', async () => {
+            const modulePath = path.join(tempDir, 'empty.ts');
+            fs.writeFileSync(modulePath, 'export const nothing = 1;');
+
+            await expect(new SWEAgentAdapterRegistry().loadModules([modulePath])).rejects.toThrow('exports no adapter');
+        });
+    });
+
+    describe('taskSolverCommands', () => {
+        it('should install and run the adapter of the agent type', () => {
+            sweAgentAdapterRegistry.register(echoAdapter);
+            const config = createConfig({ agentType: echoAdapter.agentType });
+
+            const commands = taskSolverCommands(echoAdapter.agentType, config, task, 'https://gitlab.com/group/repo.git');
+
+            expect(commands[0]).toBe('git clone https://gitlab.com/group/repo.git /app/repo');
+            expect(commands).toContain('npm install -g echo-agent');
+            expect(commands[commands.length - 1]).toBe('echo-agent solve /app/taskSolverPrompt.txt');
+            expect(getAgentOutputPaths(echoAdapter).finalReport).toBe('/app/echo/report.json');
+        });
+    });
+
+    describe('config validation', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-adapter-config-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should accept agent types of adapter modules', () => {
+            fs.writeFileSync(path.join(tempDir, 'config.json'), JSON.stringify({
+                agentType: 'in-house-agent',
+                agentAdapterModules: ['./adapters/in-house.ts'],
+            }));
+            const reader = new ConfigReader({ configDir: tempDir, throwOnMissing: true, readSupplementaryConfig: false });
+
+            expect(reader.readConfig().agentType).toBe('in-house-agent');
+        });
+    });
+});
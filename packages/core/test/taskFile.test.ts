@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { TaskFileFormat, getTaskFileFormat, serializeTasks, writeTasksFile, parseTasks, readTasksFile, validateTasks } from "../src/taskFile";
+import type { Task } from "../src/task";
+import YAML from 'yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('taskFile', () => {
+    let tempDir: string;
+    const tasks: Task[] = [
+        {
+            ID: 'task-1',
+            title: 'Add unit tests',
+            description: 'Add unit tests for the config reader',
+            priority: 3,
+        },
+        {
+            ID: 'task-2',
+            title: 'Update README',
+            description: 'Document the analyze command',
+            priority: 1,
+        },
+    ];
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-file-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    describe('getTaskFileFormat', () => {
+        it('should detect YAML from .yaml and .yml extensions', () => {
+            expect(getTaskFileFormat('tasks.yaml')).toBe(TaskFileFormat.YAML);
+            expect(getTaskFileFormat('tasks.YML')).toBe(TaskFileFormat.YAML);
+        });
+
+        it('should default to JSON for other extensions', () => {
+            expect(getTaskFileFormat('tasks.json')).toBe(TaskFileFormat.JSON);
+            expect(getTaskFileFormat('tasks')).toBe(TaskFileFormat.JSON);
+        });
+    });
+
+    describe('serializeTasks', () => {
+        it('should serialize tasks as JSON', () => {
+            const output = serializeTasks(tasks, TaskFileFormat.JSON);
+            expect(JSON.parse(output)).toEqual(tasks);
+        });
+
+        it('should serialize tasks as YAML', () => {
+            const output = serializeTasks(tasks, TaskFileFormat.YAML);
+            expect(output).toContain('title: Add unit tests');
+            expect(YAML.parse(output)).toEqual(tasks);
+        });
+    });
+
+    describe('writeTasksFile', () => {
+        it('should write the format matching the file extension', () => {
+            const jsonPath = path.join(tempDir, 'tasks.json');
+            const yamlPath = path.join(tempDir, 'tasks.yml');
+
+            writeTasksFile(tasks, jsonPath);
+            writeTasksFile(tasks, yamlPath);
+
+            expect(JSON.parse(fs.readFileSync(jsonPath, 'utf8'))).toEqual(tasks);
+            expect(YAML.parse(fs.readFileSync(yamlPath, 'utf8'))).toEqual(tasks);
+        });
+
+        it('should create missing parent directories', () => {
+            const nestedPath = path.join(tempDir, 'plans', 'nightly', 'tasks.json');
+            writeTasksFile(tasks, nestedPath);
+            expect(fs.existsSync(nestedPath)).toBe(true);
+        });
+
+        it('should let an explicit format override the extension', () => {
+            const filePath = path.join(tempDir, 'tasks.txt');
+            writeTasksFile(tasks, filePath, TaskFileFormat.YAML);
+            expect(YAML.parse(fs.readFileSync(filePath, 'utf8'))).toEqual(tasks);
+        });
+    });
+
+    describe('readTasksFile', () => {
+        it('should read back JSON and YAML task files', () => {
+            const jsonPath = path.join(tempDir, 'tasks.json');
+            const yamlPath = path.join(tempDir, 'tasks.yaml');
+            writeTasksFile(tasks, jsonPath);
+            writeTasksFile(tasks, yamlPath);
+
+            expect(readTasksFile(jsonPath)).toEqual(tasks);
+            expect(readTasksFile(yamlPath)).toEqual(tasks);
+        });
+
+        it('should throw for a missing task file', () => {
+            expect(() => readTasksFile(path.join(tempDir, 'missing.json'))).toThrow('Task file not found');
+        });
+
+        it('should throw for malformed content', () => {
+            expect(() => parseTasks('[{ not json', TaskFileFormat.JSON)).toThrow('Invalid JSON in task file');
+        });
+    });
+
+    describe('validateTasks', () => {
+        it('should accept valid tasks', () => {
+            expect(validateTasks(tasks)).toEqual(tasks);
+        });
+
+        it('should reject a non-array value', () => {
+            expect(() => validateTasks({ tasks })).toThrow('must contain an array of tasks');
+        });
+
+        it('should reject entries with missing or mistyped fields', () => {
+            expect(() => validateTasks([{ ID: 'a', title: 'T', priority: 1 }])).toThrow('string field "description"');
+            expect(() => validateTasks([{ ID: 7, title: 'T', description: 'D', priority: 1 }])).toThrow('string field "ID"');
+            expect(() => validateTasks([{ ID: 'a', title: 'T', description: 'D', priority: 'high' }])).toThrow('integer field "priority"');
+            expect(() => validateTasks([{ ID: ' ', title: 'T', description: 'D', priority: 1 }])).toThrow('empty ID');
+        });
+
+        it('should reject duplicate task IDs', () => {
+            expect(() => validateTasks([tasks[0], tasks[0]])).toThrow('duplicate ID: task-1');
+        });
+    });
+});
@@ -2,9 +2,13 @@ import { TaskSolverManager } from "../src/taskSolverManager";
 import type { Task, TaskResult } from "../src/task";
 import { TaskStatus } from "../src/task";
 import type { Config } from "../src/config";
-import { TaskSolver } from "../src/taskSolver";
+import type { TaskSolverFactory } from "../src/taskSolver";
 import { describe, it, expect, mock, test, beforeEach } from "bun:test";
 import { SWEAgentType } from "../src/config";
+import { RunStore } from "../src/runStore";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 
 const mockTaskSolver = mock((config: Config, task: Task, agentType: any, gitURL: string) => ({
     solve: mock(() => Promise.resolve()),
@@ -12,10 +16,7 @@ const mockTaskSolver = mock((config: Config, task: Task, agentType: any, gitURL:
     task: task,
 }));
 
-// Mock the TaskSolver module
-mock.module('../src/taskSolver', () => ({
-    TaskSolver: mockTaskSolver
-}));
+const createMockTaskSolver = mockTaskSolver as unknown as TaskSolverFactory;
 
 describe('TaskSolverManager', () => {
     let config: Config;
@@ -34,7 +35,7 @@ describe('TaskSolverManager', () => {
 
     describe('Constructor', () => {
         it('should initialize with correct configuration', () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             expect(manager).toBeDefined();
         });
 
@@ -44,14 +45,14 @@ describe('TaskSolverManager', () => {
                 dockerImageRef: 'node:latest',
                 dockerTimeoutSeconds: 300,
             };
-            const manager = new TaskSolverManager(configWithoutLimit, gitURL);
+            const manager = new TaskSolverManager(configWithoutLimit, gitURL, undefined, createMockTaskSolver);
             expect(manager).toBeDefined();
         });
     });
 
     describe('addTask', () => {
         it('should add tasks to the queue', () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const task: Task = {
                 ID: '1',
                 title: 'Test Task',
@@ -64,7 +65,7 @@ describe('TaskSolverManager', () => {
         });
 
         it('should add multiple tasks to the queue', () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const tasks: Task[] = [
                 {
                     ID: '1',
@@ -87,14 +88,14 @@ describe('TaskSolverManager', () => {
 
     describe('start', () => {
         it('should handle empty task queue gracefully', async () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             await manager.start();
             const reports = manager.getReports();
             expect(reports).toHaveLength(0);
         });
 
         it('should run tasks in parallel up to the limit', async () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const tasks: Task[] = [
                 {
                     ID: '1',
@@ -158,7 +159,7 @@ describe('TaskSolverManager', () => {
         });
 
         it('should handle task failures gracefully', async () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const tasks: Task[] = [
                 {
                     ID: '1',
@@ -216,12 +217,100 @@ describe('TaskSolverManager', () => {
             expect(successTaskReport?.report).toBe('Task 2 completed');
         });
 
+        it('should solve each task with the agent assigned by the router', async () => {
+            const manager = new TaskSolverManager({
+                ...config,
+                agentRoutingRules: [{ agentType: SWEAgentType.CODEX, labels: ['backend'] }],
+                roundRobinAgentTypes: [SWEAgentType.CLAUDE_CODE, SWEAgentType.CURSOR],
+            }, gitURL, undefined, createMockTaskSolver);
+            manager.addTask({ ID: '1', title: 'Task 1', description: 'From file', priority: 1, agentType: SWEAgentType.AIDER });
+            manager.addTask({ ID: '2', title: 'Task 2', description: 'Backend', priority: 1, labels: ['backend'] });
+            manager.addTask({ ID: '3', title: 'Task 3', description: 'Unrouted', priority: 1 });
+
+            const assignedAgents: Record<string, string> = {};
+            mockTaskSolver.mockImplementation((config: Config, task: Task, agentType: any, gitURL: string) => {
+                assignedAgents[task.ID] = agentType;
+                return {
+                    solve: mock(() => Promise.resolve()),
+                    getResult: mock().mockReturnValue({ ...task, status: TaskStatus.SUCCESS, report: 'done' }),
+                    task: task,
+                };
+            });
+
+            await manager.start();
+
+            expect(assignedAgents).toEqual({
+                '1': SWEAgentType.AIDER,
+                '2': SWEAgentType.CODEX,
+                '3': SWEAgentType.CLAUDE_CODE,
+            });
+            expect(manager.getReports().find(r => r.ID === '3')?.agentType).toBe(SWEAgentType.CLAUDE_CODE);
+        });
+
+        it('should retry failed tasks with the previous attempts as feedback', async () => {
+            const manager = new TaskSolverManager({
+                ...config,
+                retryPolicy: { maxAttempts: 3, backoffSeconds: 0 },
+            }, gitURL, undefined, createMockTaskSolver);
+            manager.addTask({ ID: '1', title: 'Task 1', description: 'Flaky', priority: 1 });
+
+            const attemptedTasks: Task[] = [];
+            mockTaskSolver.mockImplementation((config: Config, task: Task, agentType: any, gitURL: string) => {
+                attemptedTasks.push(task);
+                const attempt = attemptedTasks.length;
+                return {
+                    solve: attempt === 1
+                        ? mock().mockRejectedValue(new Error('Docker run failed with status timeout'))
+                        : mock().mockResolvedValue(undefined),
+                    getResult: mock().mockReturnValue({
+                        ...task,
+                        status: attempt === 2 ? TaskStatus.FAILURE : TaskStatus.SUCCESS,
+                        report: `attempt ${attempt}`,
+                    }),
+                    task: task,
+                };
+            });
+
+            await manager.start();
+
+            expect(attemptedTasks).toHaveLength(3);
+            expect(attemptedTasks[0].previousAttempts).toBeUndefined();
+            expect(attemptedTasks[1].previousAttempts).toEqual([
+                { attempt: 1, agentType: SWEAgentType.GEMINI_CLI, status: TaskStatus.FAILURE, report: '', error: 'Docker run failed with status timeout' },
+            ]);
+            expect(attemptedTasks[2].previousAttempts?.[1]).toEqual(
+                { attempt: 2, agentType: SWEAgentType.GEMINI_CLI, status: TaskStatus.FAILURE, report: 'attempt 2', error: undefined },
+            );
+            expect(manager.getReports()).toHaveLength(1);
+            expect(manager.getReports()[0].status).toBe(TaskStatus.SUCCESS);
+        });
+
+        it('should record the last failure when the retries are exhausted', async () => {
+            const manager = new TaskSolverManager({
+                ...config,
+                retryPolicy: { maxAttempts: 2, backoffSeconds: 0 },
+            }, gitURL, undefined, createMockTaskSolver);
+            manager.addTask({ ID: '1', title: 'Task 1', description: 'Broken', priority: 1 });
+
+            mockTaskSolver.mockImplementation((config: Config, task: Task, agentType: any, gitURL: string) => ({
+                solve: mock().mockRejectedValue(new Error('Failed to parse final report')),
+                getResult: mock(),
+                task: task,
+            }));
+
+            await manager.start();
+
+            expect(mockTaskSolver).toHaveBeenCalledTimes(2);
+            expect(manager.getReports()[0].status).toBe(TaskStatus.FAILURE);
+            expect(manager.getReports()[0].previousAttempts).toHaveLength(1);
+        });
+
         it('should respect maxParallelDockerContainers limit', async () => {
             const configWithLimit = {
                 ...config,
                 maxParallelDockerContainers: 1,
             };
-            const manager = new TaskSolverManager(configWithLimit, gitURL);
+            const manager = new TaskSolverManager(configWithLimit, gitURL, undefined, createMockTaskSolver);
 
             const tasks: Task[] = [
                 {
@@ -260,17 +349,46 @@ describe('TaskSolverManager', () => {
             await manager.start();
             expect(mockTaskSolver).toHaveBeenCalledTimes(2);
         });
+
+        it('should count every attempt of a best-of-N task against maxParallelDockerContainers', async () => {
+            const manager = new TaskSolverManager({ ...config, bestOfN: { attempts: 2, minPriority: 3 } }, gitURL, undefined, createMockTaskSolver);
+            manager.addTask({ ID: 'best-of-n', title: 'Best-of-N task', description: 'Solved twice', priority: 3 });
+            manager.addTask({ ID: 'single', title: 'Single task', description: 'Solved once', priority: 1 });
+
+            let runningSolvers = 0;
+            let maxRunningSolvers = 0;
+            mockTaskSolver.mockImplementation((config: Config, task: Task, agentType: any, gitURL: string) => ({
+                solve: mock().mockImplementation(async () => {
+                    runningSolvers++;
+                    maxRunningSolvers = Math.max(maxRunningSolvers, runningSolvers);
+                    await new Promise(resolve => setTimeout(resolve, 200));
+                    runningSolvers--;
+                }),
+                getResult: mock().mockReturnValue({
+                    ...task,
+                    status: TaskStatus.SUCCESS,
+                    report: `${task.title} completed`,
+                    gitDiff: 'diff',
+                    completedAt: Date.now(),
+                }),
+                task: task,
+            }));
+
+            await manager.start();
+            expect(mockTaskSolver).toHaveBeenCalledTimes(3);
+            expect(maxRunningSolvers).toBe(2);
+        });
     });
 
     describe('getReports', () => {
         it('should return empty array when no tasks completed', () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const reports = manager.getReports();
             expect(reports).toEqual([]);
         });
 
         it('should return reports for completed tasks', async () => {
-            const manager = new TaskSolverManager(config, gitURL);
+            const manager = new TaskSolverManager(config, gitURL, undefined, createMockTaskSolver);
             const task: Task = {
                 ID: '1',
                 title: 'Test Task',
@@ -304,4 +422,69 @@ describe('TaskSolverManager', () => {
             expect(reports[0]).toEqual(expectedResult);
         });
     });
+
+    describe('run store', () => {
+        it('should persist every task result to the run store', async () => {
+            const runsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'task-solver-manager-test-'));
+            try {
+                const runStore = RunStore.create(gitURL, runsDirectory);
+                const manager = new TaskSolverManager(config, gitURL, runStore, createMockTaskSolver);
+                const tasks: Task[] = [
+                    { ID: '1', title: 'Task 1', description: 'First task', priority: 1 },
+                    { ID: '2', title: 'Task 2', description: 'Second task', priority: 1 },
+                ];
+                runStore.saveTasks(tasks);
+                tasks.forEach(task => manager.addTask(task));
+                expect(runStore.getPendingTasks()).toHaveLength(2);
+
+                mockTaskSolver.mockImplementation((config: Config, task: Task, agentType: any, gitURL: string) => {
+                    return {
+                        solve: task.ID === '1'
+                            ? mock().mockResolvedValue(undefined)
+                            : mock().mockRejectedValue(new Error('Task 2 failed')),
+                        getResult: mock().mockReturnValue({
+                            ...task,
+                            status: TaskStatus.SUCCESS,
+                            report: 'Task 1 completed',
+                            completedAt: Date.now(),
+                            gitDiff: 'diff --git a/a.txt b/a.txt\n',
+                        }),
+                        task: task,
+                    };
+                });
+
+                await manager.start();
+
+                const savedResults = runStore.loadTaskResults();
+                expect(savedResults.find(r => r.ID === '1')?.status).toBe(TaskStatus.SUCCESS);
+                expect(savedResults.find(r => r.ID === '1')?.gitDiff).toBe('diff --git a/a.txt b/a.txt\n');
+                expect(savedResults.find(r => r.ID === '2')?.status).toBe(TaskStatus.FAILURE);
+                expect(runStore.getPendingTasks()).toHaveLength(0);
+            } finally {
+                fs.rmSync(runsDirectory, { recursive: true, force: true });
+            }
+        });
+
+        it('should record a task as failed when the run store cannot be written', async () => {
+            const runsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'task-solver-manager-test-'));
+            try {
+                const runStore = RunStore.create(gitURL, runsDirectory);
+                const manager = new TaskSolverManager(config, gitURL, runStore, createMockTaskSolver);
+                manager.addTask({ ID: '1', title: 'Task 1', description: 'First task', priority: 1 });
+                runStore.appendLog = () => {
+                    throw new Error('disk full');
+                };
+
+                await manager.start();
+
+                const reports = manager.getReports();
+                expect(reports).toHaveLength(1);
+                expect(reports[0]!.status).toBe(TaskStatus.FAILURE);
+                expect(reports[0]!.report).toContain('disk full');
+                expect(runStore.loadTaskResults().find(r => r.ID === '1')?.status).toBe(TaskStatus.FAILURE);
+            } finally {
+                fs.rmSync(runsDirectory, { recursive: true, force: true });
+            }
+        });
+    });
 });